@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { Search, Trash2, Upload, X } from 'lucide-react'
+import { useAssets, useCreateAsset, useDeleteAsset, useUpdateAsset } from '../../hooks/useAssets'
+import { useAllProjectEmails } from '../../hooks/useEmails'
+import { useImageUpload } from '../../hooks/useImageUpload'
+import { collectAssetTags, filterAssets, findEmailsUsingAsset, parseTags } from '../../lib/assets'
+import { formatBytes } from '../../lib/emailSize'
+import { ALLOWED_IMAGE_TYPES } from '../../lib/uploadService'
+import type { Asset } from '../../types'
+
+interface AssetLibraryModalProps {
+  projectId: string
+  /** Picker mode: called with the chosen asset instead of just browsing */
+  onSelect?: (asset: Asset) => void
+  onClose: () => void
+}
+
+interface AssetCardProps {
+  asset: Asset
+  onSelect?: (asset: Asset) => void
+  onUpdateTags: (tags: string[]) => void
+  onUpdateAlt: (alt: string) => void
+  onDelete: () => void
+  /** Deleting waits until we know which emails use the asset */
+  deleteDisabled: boolean
+}
+
+function AssetCard({ asset, onSelect, onUpdateTags, onUpdateAlt, onDelete, deleteDisabled }: AssetCardProps) {
+  const [tagInput, setTagInput] = useState(asset.tags.join(', '))
+  const [altInput, setAltInput] = useState(asset.alt || '')
+
+  const handleTagsBlur = () => {
+    const tags = parseTags(tagInput)
+    if (tags.join(',') !== asset.tags.join(',')) {
+      onUpdateTags(tags)
+    }
+  }
+
+  const handleAltBlur = () => {
+    const alt = altInput.trim()
+    if (alt !== (asset.alt || '')) {
+      onUpdateAlt(alt)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <button
+        type="button"
+        onClick={() => onSelect?.(asset)}
+        disabled={!onSelect}
+        className="block w-full h-32 bg-gray-100 enabled:hover:opacity-80 transition-opacity"
+      >
+        <img src={asset.url} alt={asset.alt || asset.fileName} className="w-full h-full object-contain" />
+      </button>
+      <div className="p-2 space-y-1">
+        <div className="flex items-start justify-between gap-1">
+          <p className="text-xs font-medium text-gray-900 truncate" title={asset.fileName}>
+            {asset.fileName}
+          </p>
+          <button
+            type="button"
+            onClick={onDelete}
+            disabled={deleteDisabled}
+            title={deleteDisabled ? 'Checking which emails use this image...' : undefined}
+            className="shrink-0 text-gray-400 enabled:hover:text-red-600 disabled:opacity-50"
+            aria-label="Delete asset"
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          {asset.width} × {asset.height} · {formatBytes(asset.size)}
+        </p>
+        <input
+          type="text"
+          value={altInput}
+          onChange={(e) => setAltInput(e.target.value)}
+          onBlur={handleAltBlur}
+          placeholder="Alt text..."
+          aria-label="Alt text"
+          className="w-full px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+        <input
+          type="text"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onBlur={handleTagsBlur}
+          placeholder="Add tags..."
+          className="w-full px-2 py-1 text-xs border border-gray-200 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+        />
+      </div>
+    </div>
+  )
+}
+
+export default function AssetLibraryModal({ projectId, onSelect, onClose }: AssetLibraryModalProps) {
+  const { data, isLoading } = useAssets(projectId)
+  const { data: projectEmails, isLoading: isLoadingEmails, isError: emailsFailed } = useAllProjectEmails(projectId)
+  const createAsset = useCreateAsset()
+  const updateAsset = useUpdateAsset()
+  const deleteAsset = useDeleteAsset()
+  const { upload, progress, isUploading, error: uploadError } = useImageUpload()
+  const [query, setQuery] = useState('')
+  const [selectedTags, setSelectedTags] = useState<string[]>([])
+
+  const assets = data?.assets || []
+  const tags = collectAssetTags(assets)
+  const visibleAssets = filterAssets(assets, query, selectedTags)
+
+  const toggleTag = (tag: string) => {
+    setSelectedTags(
+      selectedTags.includes(tag) ? selectedTags.filter((t) => t !== tag) : [...selectedTags, tag]
+    )
+  }
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const uploaded = await upload(file)
+    if (!uploaded) return
+
+    createAsset.mutate({
+      projectId,
+      data: {
+        url: uploaded.url,
+        fileName: file.name,
+        tags: [],
+        width: uploaded.width,
+        height: uploaded.height,
+        size: uploaded.size,
+        mimeType: uploaded.mimeType,
+      },
+    })
+  }
+
+  const handleDelete = (asset: Asset) => {
+    if (isLoadingEmails) return
+    const usedBy = findEmailsUsingAsset(projectEmails || [], asset)
+    const message = emailsFailed
+      ? `Couldn't check which emails use "${asset.fileName}". Any that do will show a broken image. Delete it anyway?`
+      : usedBy.length
+        ? `"${asset.fileName}" is still used in:\n${usedBy
+            .map((email) => `• ${email.meta.subject || 'Untitled email'}`)
+            .join('\n')}\n\nThose emails will show a broken image. Delete it anyway?`
+        : `Delete "${asset.fileName}"?`
+
+    if (confirm(message)) {
+      deleteAsset.mutate(asset.id)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 z-10 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {onSelect ? 'Choose from Library' : 'Asset Library'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex gap-3">
+            <div className="relative flex-1">
+              <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="text"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search by file name or alt text..."
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <label className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors cursor-pointer">
+              <Upload size={16} />
+              <span className="text-sm">{isUploading ? `${progress}%` : 'Upload'}</span>
+              <input
+                type="file"
+                accept={ALLOWED_IMAGE_TYPES.join(',')}
+                onChange={handleUpload}
+                disabled={isUploading}
+                className="hidden"
+              />
+            </label>
+          </div>
+
+          {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  onClick={() => toggleTag(tag)}
+                  className={`px-2 py-1 text-xs rounded-full border transition-colors ${
+                    selectedTags.includes(tag)
+                      ? 'border-blue-600 bg-blue-50 text-blue-600'
+                      : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading assets...</p>
+          ) : visibleAssets.length === 0 ? (
+            <p className="py-8 text-center text-sm text-gray-500">
+              {assets.length === 0 ? 'No images uploaded to this project yet' : 'No assets match your search'}
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {visibleAssets.map((asset) => (
+                <AssetCard
+                  key={asset.id}
+                  asset={asset}
+                  onSelect={onSelect}
+                  onUpdateTags={(assetTags) => updateAsset.mutate({ id: asset.id, data: { tags: assetTags } })}
+                  onUpdateAlt={(alt) => updateAsset.mutate({ id: asset.id, data: { alt } })}
+                  onDelete={() => handleDelete(asset)}
+                  deleteDisabled={isLoadingEmails}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react'
+import { Eye, EyeOff } from 'lucide-react'
+import type { VisibilityCondition } from '../../types/email'
+import { CONDITION_OPERATORS, describeCondition } from '../../lib/conditions'
+
+interface ConditionEditorProps {
+  condition?: VisibilityCondition
+  onChange: (condition: VisibilityCondition | undefined) => void
+  /** Whether the condition fails for the current test variables */
+  hidden?: boolean
+}
+
+/**
+ * Block header button showing the block's visibility condition, with a
+ * popover to set or remove it
+ */
+export default function ConditionEditor({ condition, onChange, hidden }: ConditionEditorProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const [variable, setVariable] = useState('')
+  const [operator, setOperator] = useState<VisibilityCondition['operator']>('truthy')
+  const [value, setValue] = useState('')
+
+  const handleOpen = () => {
+    setVariable(condition?.variable || '')
+    setOperator(condition?.operator || 'truthy')
+    setValue(condition?.value || '')
+    setIsOpen(true)
+  }
+
+  const handleSave = () => {
+    onChange(
+      variable ? { variable, operator, value: operator === 'equals' ? value : undefined } : undefined
+    )
+    setIsOpen(false)
+  }
+
+  const handleRemove = () => {
+    onChange(undefined)
+    setIsOpen(false)
+  }
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => (isOpen ? setIsOpen(false) : handleOpen())}
+        className={`flex items-center gap-1 p-1.5 text-xs rounded transition-colors ${
+          condition
+            ? 'text-blue-700 bg-blue-50 hover:bg-blue-100'
+            : 'text-gray-500 hover:text-gray-700 hover:bg-gray-200'
+        }`}
+        title={hidden ? 'Hidden for the current test variables' : 'Visibility condition'}
+      >
+        {hidden ? <EyeOff size={16} /> : <Eye size={16} />}
+        {condition && <span className="max-w-40 truncate">If {describeCondition(condition)}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-72 bg-white border border-gray-200 rounded-lg shadow-lg p-3 space-y-2 z-20">
+          <p className="text-sm font-medium text-gray-700">Show this block only if</p>
+          <div className="flex items-center border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+            <span className="pl-2 text-gray-400 font-mono text-sm">{'{{'}</span>
+            <input
+              type="text"
+              value={variable}
+              onChange={(e) => setVariable(e.target.value.replace(/\W/g, ''))}
+              placeholder="hasDiscount"
+              autoFocus
+              className="flex-1 min-w-0 px-1 py-1.5 font-mono text-sm focus:outline-none"
+            />
+            <span className="pr-2 text-gray-400 font-mono text-sm">{'}}'}</span>
+          </div>
+          <select
+            value={operator}
+            onChange={(e) => setOperator(e.target.value as VisibilityCondition['operator'])}
+            className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            {CONDITION_OPERATORS.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {operator === 'equals' && (
+            <input
+              type="text"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder="Value"
+              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          )}
+          <div className="flex items-center justify-between pt-1">
+            {condition ? (
+              <button onClick={handleRemove} className="text-sm text-red-600 hover:text-red-700">
+                Remove
+              </button>
+            ) : (
+              <span />
+            )}
+            <button
+              onClick={handleSave}
+              className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,39 @@
+import { Moon } from 'lucide-react'
+
+interface DarkColorInputProps {
+  label: string
+  value: string
+  onChange: (value: string) => void
+  onBlur?: () => void
+}
+
+/**
+ * Optional dark-mode colour override; clearing the field keeps the light colour
+ */
+export default function DarkColorInput({ label, value, onChange, onBlur }: DarkColorInputProps) {
+  return (
+    <div>
+      <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+        <Moon className="w-3.5 h-3.5" />
+        {label}
+      </label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={value || '#000000'}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          className="w-12 h-10 rounded border border-gray-300 cursor-pointer"
+        />
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={onBlur}
+          placeholder="Same as light mode"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 font-mono text-sm"
+        />
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { Heading1, Type, MousePointerClick, Image, Minus, MoveVertical, Box } from 'lucide-react'
+import { Heading1, Type, MousePointerClick, Image, Minus, MoveVertical, Box, Columns2, List, Table, Repeat, Scale, Share2, Video } from 'lucide-react'
 import type {
   HeadingNode,
   TextNode,
@@ -7,6 +7,13 @@ import type {
   DividerNode,
   SpacerNode,
   SectionNode,
+  RowNode,
+  ListNode,
+  TableNode,
+  RepeatNode,
+  FooterNode,
+  SocialNode,
+  VideoNode,
 } from '../../types/email'
 
 type BlockWithoutId =
@@ -17,6 +24,13 @@ type BlockWithoutId =
   | Omit<DividerNode, 'id'>
   | Omit<SpacerNode, 'id'>
   | Omit<SectionNode, 'id'>
+  | Omit<RowNode, 'id'>
+  | Omit<ListNode, 'id'>
+  | Omit<TableNode, 'id'>
+  | Omit<RepeatNode, 'id'>
+  | Omit<FooterNode, 'id'>
+  | Omit<SocialNode, 'id'>
+  | Omit<VideoNode, 'id'>
 
 interface FloatingToolbarProps {
   onAddBlock: (block: BlockWithoutId) => void
@@ -52,6 +66,46 @@ const toolbarItems: ToolbarItem[] = [
       children: [],
     },
   },
+  {
+    id: 'list',
+    icon: <List className="w-5 h-5" />,
+    label: 'List',
+    block: {
+      type: 'list',
+      listStyle: 'unordered',
+      items: [{ text: 'First item' }, { text: 'Second item' }],
+      children: [],
+    },
+  },
+  {
+    id: 'table',
+    icon: <Table className="w-5 h-5" />,
+    label: 'Table',
+    block: {
+      type: 'table',
+      dataVariable: 'items',
+      columns: [
+        { header: 'Item', cell: '{{item.name}}' },
+        { header: 'Qty', cell: '{{item.quantity}}', align: 'center', width: 15 },
+        { header: 'Price', cell: '{{item.price}}', align: 'right', width: 20 },
+      ],
+      children: [],
+    },
+  },
+  {
+    id: 'repeat',
+    icon: <Repeat className="w-5 h-5" />,
+    label: 'Repeat',
+    block: {
+      type: 'repeat',
+      dataVariable: 'products',
+      // Placeholder ids, replaced when the block is added
+      children: [
+        { id: 'repeat-heading', type: 'heading', level: 3, text: '{{item.name}}', children: [] },
+        { id: 'repeat-text', type: 'text', text: '{{item.description}}', children: [] },
+      ],
+    },
+  },
   {
     id: 'button',
     icon: <MousePointerClick className="w-5 h-5" />,
@@ -76,6 +130,19 @@ const toolbarItems: ToolbarItem[] = [
       children: [],
     },
   },
+  {
+    id: 'video',
+    icon: <Video className="w-5 h-5" />,
+    label: 'Video',
+    block: {
+      type: 'video',
+      videoUrl: '',
+      thumbnailSrc: '',
+      alt: 'Play video',
+      width: 600,
+      children: [],
+    },
+  },
   {
     id: 'divider',
     icon: <Minus className="w-5 h-5" />,
@@ -110,6 +177,53 @@ const toolbarItems: ToolbarItem[] = [
       children: [],
     },
   },
+  {
+    id: 'row',
+    icon: <Columns2 className="w-5 h-5" />,
+    label: 'Columns',
+    block: {
+      type: 'row',
+      gap: 16,
+      verticalAlign: 'top',
+      stackOnMobile: true,
+      // Placeholder ids, replaced when the block is added
+      children: [
+        { id: 'column-1', type: 'column', width: 50, children: [] },
+        { id: 'column-2', type: 'column', width: 50, children: [] },
+      ],
+    },
+  },
+  {
+    id: 'social',
+    icon: <Share2 className="w-5 h-5" />,
+    label: 'Social',
+    block: {
+      type: 'social',
+      links: [
+        { network: 'x', url: 'https://x.com' },
+        { network: 'linkedin', url: 'https://www.linkedin.com' },
+        { network: 'instagram', url: 'https://www.instagram.com' },
+      ],
+      iconStyle: 'color',
+      iconSize: 32,
+      align: 'center',
+      children: [],
+    },
+  },
+  {
+    id: 'footer',
+    icon: <Scale className="w-5 h-5" />,
+    label: 'Footer',
+    block: {
+      type: 'footer',
+      legalText: "You're receiving this email because you signed up for updates from us.",
+      // Left empty so the compliance check asks for the sender's real details
+      postalAddress: '',
+      unsubscribeVariable: 'unsubscribeUrl',
+      preferencesUrl: '',
+      children: [],
+    },
+  },
 ]
 
 export default function FloatingToolbar({ onAddBlock, position }: FloatingToolbarProps) {
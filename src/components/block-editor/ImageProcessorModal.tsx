@@ -0,0 +1,185 @@
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { CROP_PRESETS, processImage } from '../../lib/imageProcessing'
+import type { CropPresetId, OutputFormat, ProcessedImage } from '../../lib/imageProcessing'
+import { formatBytes } from '../../lib/emailSize'
+
+interface ImageProcessorModalProps {
+  file: File
+  /** Width the image is shown at in the email */
+  displayWidth: number
+  onConfirm: (image: ProcessedImage) => void
+  onClose: () => void
+}
+
+export default function ImageProcessorModal({
+  file,
+  displayWidth,
+  onConfirm,
+  onClose,
+}: ImageProcessorModalProps) {
+  const [cropId, setCropId] = useState<CropPresetId>('original')
+  const [format, setFormat] = useState<OutputFormat>('image/jpeg')
+  const [quality, setQuality] = useState(0.8)
+  // Tagged with the settings it was encoded with, so a result from before the
+  // last change is never shown or uploaded as the current one
+  const [encoded, setEncoded] = useState<{ settings: string; image: ProcessedImage } | null>(null)
+  const [previewUrl, setPreviewUrl] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const settings = JSON.stringify([displayWidth, cropId, format, quality])
+  const result = encoded?.settings === settings ? encoded.image : null
+
+  // Re-encode after the settings stop changing; 2x the display width keeps retina screens sharp
+  useEffect(() => {
+    let cancelled = false
+    const ratio = CROP_PRESETS.find((preset) => preset.id === cropId)?.ratio
+    const timeout = setTimeout(() => {
+      processImage(file, { ratio, maxWidth: displayWidth * 2, format, quality })
+        .then((processed) => {
+          if (cancelled) return
+          setEncoded({ settings, image: processed })
+          setError(null)
+        })
+        .catch((err: Error) => {
+          if (!cancelled) setError(err.message)
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [file, displayWidth, cropId, format, quality, settings])
+
+  useEffect(() => {
+    if (!encoded) return
+    const url = URL.createObjectURL(encoded.image.file)
+    setPreviewUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [encoded])
+
+  const savedPercent = result ? Math.round((1 - result.file.size / file.size) * 100) : 0
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Prepare Image</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-center bg-gray-100 rounded-lg min-h-[200px]">
+            {previewUrl ? (
+              <img
+                src={previewUrl}
+                alt="Processed preview"
+                className={`max-h-72 max-w-full object-contain transition-opacity ${result ? '' : 'opacity-50'}`}
+              />
+            ) : (
+              <p className="text-sm text-gray-500">Processing...</p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Crop</label>
+            <div className="flex flex-wrap gap-2">
+              {CROP_PRESETS.map((preset) => (
+                <button
+                  key={preset.id}
+                  type="button"
+                  onClick={() => setCropId(preset.id)}
+                  className={`px-3 py-1.5 text-sm rounded-lg border transition-colors ${
+                    cropId === preset.id
+                      ? 'border-blue-600 bg-blue-50 text-blue-600'
+                      : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                  }`}
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Format</label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as OutputFormat)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="image/jpeg">JPEG</option>
+                <option value="image/webp">WebP</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Quality: {Math.round(quality * 100)}%
+              </label>
+              <input
+                type="range"
+                value={quality}
+                onChange={(e) => setQuality(Number(e.target.value))}
+                min="0.4"
+                max="1"
+                step="0.05"
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 text-sm text-gray-700">
+            <p>
+              Before: {formatBytes(file.size)}
+              {result ? (
+                <>
+                  {' '}&rarr; After: {formatBytes(result.file.size)} ({result.width} × {result.height}px
+                  {savedPercent > 0 && `, ${savedPercent}% smaller`})
+                </>
+              ) : (
+                !error && <span className="text-gray-500"> &rarr; Processing...</span>
+              )}
+            </p>
+            {format === 'image/webp' && (
+              <p className="text-xs text-gray-500 mt-1">
+                WebP is not shown by Outlook on Windows or some older mail apps.
+              </p>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => result && onConfirm(result)}
+              disabled={!result}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              Upload
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,373 @@
+import { useEffect, useRef, useState } from 'react'
+import { Bold, Check, Italic, Link as LinkIcon, RemoveFormatting, Underline } from 'lucide-react'
+import type { TextMarks, TextSpan } from '../../types/email'
+import {
+  applyMarks,
+  getCommonMarks,
+  normalizeSpans,
+  replaceRange,
+  sanitizeLink,
+  spansToText,
+} from '../../lib/richText'
+import { escapeHTML } from '../../lib/htmlRenderer'
+
+interface RichTextEditorProps {
+  value: TextSpan[]
+  onChange: (spans: TextSpan[]) => void
+  onKeyDown?: (e: React.KeyboardEvent<HTMLDivElement>) => void
+  /** Enter inserts a line break; otherwise it's left to onKeyDown */
+  multiline?: boolean
+  placeholder?: string
+  autoFocus?: boolean
+  className?: string
+}
+
+interface SelectionRange {
+  start: number
+  end: number
+}
+
+const TEXT_COLORS = ['#1F2937', '#6B7280', '#DC2626', '#EA580C', '#16A34A', '#2563EB', '#7C3AED']
+
+const SHORTCUT_MARKS: Record<string, 'bold' | 'italic' | 'underline'> = {
+  b: 'bold',
+  i: 'italic',
+  u: 'underline',
+}
+
+/**
+ * Editor markup mirrors the span model so it can be read back from the DOM
+ */
+function spansToEditorHTML(spans: TextSpan[]): string {
+  const html = spans
+    .map((span) => {
+      const marks = span.marks || {}
+      let html = escapeHTML(span.text)
+      if (marks.bold) html = `<strong>${html}</strong>`
+      if (marks.italic) html = `<em>${html}</em>`
+      if (marks.underline) html = `<u>${html}</u>`
+      if (marks.color) {
+        const color = escapeHTML(marks.color)
+        html = `<span data-color="${color}" style="color:${color}">${html}</span>`
+      }
+      if (marks.link) html = `<a href="${escapeHTML(marks.link)}" class="text-blue-600 underline">${html}</a>`
+      return html
+    })
+    .join('')
+
+  // A trailing line break only shows up once something follows it
+  return spansToText(spans).endsWith('\n') ? `${html}<br data-filler="">` : html
+}
+
+function readSpans(node: Node, marks: TextMarks, spans: TextSpan[]) {
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === Node.TEXT_NODE) {
+      spans.push({ text: child.textContent || '', marks })
+      return
+    }
+    if (!(child instanceof HTMLElement)) return
+
+    if (child.tagName === 'BR') {
+      if (!child.hasAttribute('data-filler')) spans.push({ text: '\n', marks })
+      return
+    }
+    // Browsers wrap new lines in blocks when Enter isn't intercepted, e.g. from IME input
+    if ((child.tagName === 'DIV' || child.tagName === 'P') && spans.length > 0) {
+      spans.push({ text: '\n', marks })
+    }
+
+    const next = { ...marks }
+    if (child.tagName === 'STRONG' || child.tagName === 'B') next.bold = true
+    if (child.tagName === 'EM' || child.tagName === 'I') next.italic = true
+    if (child.tagName === 'U') next.underline = true
+    if (child.tagName === 'A') next.link = child.getAttribute('href') || undefined
+    const color = child.dataset.color || child.style.color
+    if (color) next.color = color
+
+    readSpans(child, next, spans)
+  })
+}
+
+function readEditor(editor: HTMLElement): TextSpan[] {
+  const spans: TextSpan[] = []
+  readSpans(editor, {}, spans)
+  return normalizeSpans(spans)
+}
+
+/**
+ * Character offsets of the current selection within the editor, or null
+ * when the selection is somewhere else
+ */
+function getSelectionRange(editor: HTMLElement): SelectionRange | null {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return null
+  const range = selection.getRangeAt(0)
+  if (!editor.contains(range.commonAncestorContainer)) return null
+
+  const before = range.cloneRange()
+  before.selectNodeContents(editor)
+  before.setEnd(range.startContainer, range.startOffset)
+  const start = before.toString().length
+  return { start, end: start + range.toString().length }
+}
+
+function setSelectionRange(editor: HTMLElement, { start, end }: SelectionRange) {
+  const range = document.createRange()
+  range.selectNodeContents(editor)
+  range.collapse(false)
+
+  const walker = document.createTreeWalker(editor, NodeFilter.SHOW_TEXT)
+  let position = 0
+  let startSet = false
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0
+    if (!startSet && start <= position + length) {
+      range.setStart(node, start - position)
+      startSet = true
+    }
+    if (startSet && end <= position + length) {
+      range.setEnd(node, end - position)
+      break
+    }
+    position += length
+  }
+
+  const selection = window.getSelection()
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+}
+
+export default function RichTextEditor({
+  value,
+  onChange,
+  onKeyDown,
+  multiline = false,
+  placeholder,
+  autoFocus = false,
+  className = '',
+}: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null)
+  const selectionRef = useRef<SelectionRange | null>(null)
+  const [bubble, setBubble] = useState<{ top: number; left: number; marks: TextMarks } | null>(null)
+  const [linkDraft, setLinkDraft] = useState<string | null>(null)
+
+  // Only rewrite the DOM when the value changed from outside, so typing keeps the caret
+  useEffect(() => {
+    const editor = editorRef.current
+    if (!editor) return
+    const spans = normalizeSpans(value)
+    if (JSON.stringify(readEditor(editor)) !== JSON.stringify(spans)) {
+      editor.innerHTML = spansToEditorHTML(spans)
+    }
+  }, [value])
+
+  useEffect(() => {
+    const editor = editorRef.current
+    if (autoFocus && editor) {
+      editor.focus()
+      const length = editor.textContent?.length ?? 0
+      setSelectionRange(editor, { start: length, end: length })
+    }
+  }, [autoFocus])
+
+  // Show the formatting bubble over non-empty selections. Selections outside
+  // the editor, such as in the link field, leave it as it is.
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      const editor = editorRef.current
+      const range = editor && getSelectionRange(editor)
+      if (!editor || !range) return
+
+      selectionRef.current = range
+      if (range.start === range.end) {
+        setBubble(null)
+        setLinkDraft(null)
+        return
+      }
+
+      const rect = window.getSelection()?.getRangeAt(0).getBoundingClientRect()
+      const box = editor.getBoundingClientRect()
+      if (!rect) return
+      setBubble({
+        top: rect.top - box.top,
+        left: rect.left - box.left + rect.width / 2,
+        marks: getCommonMarks(readEditor(editor), range.start, range.end),
+      })
+    }
+
+    document.addEventListener('selectionchange', handleSelectionChange)
+    return () => document.removeEventListener('selectionchange', handleSelectionChange)
+  }, [])
+
+  const commit = (spans: TextSpan[], selection: SelectionRange) => {
+    const editor = editorRef.current
+    if (!editor) return
+    editor.innerHTML = spansToEditorHTML(spans)
+    editor.focus()
+    setSelectionRange(editor, selection)
+    onChange(spans)
+  }
+
+  const handleMarks = (marks: TextMarks) => {
+    const editor = editorRef.current
+    const range = selectionRef.current
+    if (!editor || !range || range.start === range.end) return
+    commit(applyMarks(readEditor(editor), range.start, range.end, marks), range)
+  }
+
+  const toggleMark = (mark: 'bold' | 'italic' | 'underline') => {
+    const editor = editorRef.current
+    const range = selectionRef.current
+    if (!editor || !range) return
+    const current = getCommonMarks(readEditor(editor), range.start, range.end)
+    handleMarks({ [mark]: !current[mark] })
+  }
+
+  const insertText = (text: string) => {
+    const editor = editorRef.current
+    const range = editor && getSelectionRange(editor)
+    if (!editor || !range) return
+    const position = range.start + text.length
+    commit(replaceRange(readEditor(editor), range.start, range.end, text), { start: position, end: position })
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(e)
+    if (e.defaultPrevented) return
+
+    const shortcut = SHORTCUT_MARKS[e.key.toLowerCase()]
+    if ((e.metaKey || e.ctrlKey) && shortcut) {
+      e.preventDefault()
+      toggleMark(shortcut)
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (multiline) insertText('\n')
+    }
+  }
+
+  // Paste as plain text so foreign markup can't sneak into the email
+  const handlePaste = (e: React.ClipboardEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    const text = e.clipboardData.getData('text/plain')
+    insertText(multiline ? text.replace(/\r\n?/g, '\n') : text.replace(/\s*\r?\n\s*/g, ' '))
+  }
+
+  const handleLinkSubmit = () => {
+    if (linkDraft === null) return
+    if (!linkDraft.trim()) {
+      handleMarks({ link: undefined })
+    } else {
+      const link = sanitizeLink(linkDraft)
+      if (!link) {
+        alert('Links must be web addresses, mailto: or tel: links, or a {{variable}}')
+        return
+      }
+      handleMarks({ link })
+    }
+    setLinkDraft(null)
+  }
+
+  const bubbleButtonClass = (active?: boolean) =>
+    `p-1.5 rounded transition-colors ${active ? 'bg-gray-700 text-white' : 'text-gray-200 hover:bg-gray-700'}`
+
+  return (
+    <div className="relative">
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline={multiline}
+        data-placeholder={placeholder}
+        onInput={() => editorRef.current && onChange(readEditor(editorRef.current))}
+        onKeyDown={handleKeyDown}
+        onPaste={handlePaste}
+        className={`whitespace-pre-wrap break-words empty:before:content-[attr(data-placeholder)] empty:before:text-gray-400 ${className}`}
+      />
+
+      {/* Buttons keep the text selection by not taking focus on mousedown */}
+      {bubble && (
+        <div
+          className="absolute z-10 -translate-x-1/2 -translate-y-full -mt-2 flex items-center gap-0.5 p-1 bg-gray-900 rounded-lg shadow-lg"
+          style={{ top: bubble.top, left: bubble.left }}
+          onMouseDown={(e) => {
+            if (!(e.target instanceof HTMLInputElement)) e.preventDefault()
+          }}
+        >
+          {linkDraft !== null ? (
+            <>
+              <input
+                type="text"
+                value={linkDraft}
+                onChange={(e) => setLinkDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') {
+                    e.preventDefault()
+                    handleLinkSubmit()
+                  } else if (e.key === 'Escape') {
+                    setLinkDraft(null)
+                  }
+                }}
+                placeholder="https://example.com or {{url}}"
+                autoFocus
+                className="w-56 px-2 py-1 text-sm bg-gray-800 text-white rounded focus:outline-none"
+              />
+              <button onClick={handleLinkSubmit} className={bubbleButtonClass()} title="Apply link">
+                <Check size={14} />
+              </button>
+            </>
+          ) : (
+            <>
+              <button onClick={() => toggleMark('bold')} className={bubbleButtonClass(bubble.marks.bold)} title="Bold">
+                <Bold size={14} />
+              </button>
+              <button
+                onClick={() => toggleMark('italic')}
+                className={bubbleButtonClass(bubble.marks.italic)}
+                title="Italic"
+              >
+                <Italic size={14} />
+              </button>
+              <button
+                onClick={() => toggleMark('underline')}
+                className={bubbleButtonClass(bubble.marks.underline)}
+                title="Underline"
+              >
+                <Underline size={14} />
+              </button>
+              <button
+                onClick={() => setLinkDraft(bubble.marks.link || '')}
+                className={bubbleButtonClass(!!bubble.marks.link)}
+                title="Link"
+              >
+                <LinkIcon size={14} />
+              </button>
+              <div className="w-px h-4 mx-1 bg-gray-700" />
+              {TEXT_COLORS.map((color) => (
+                <button
+                  key={color}
+                  onClick={() => handleMarks({ color: color === TEXT_COLORS[0] ? undefined : color })}
+                  className={`w-4 h-4 mx-0.5 rounded-full border ${
+                    bubble.marks.color === color ? 'border-white' : 'border-gray-600'
+                  }`}
+                  style={{ backgroundColor: color }}
+                  title={color === TEXT_COLORS[0] ? 'Default colour' : color}
+                />
+              ))}
+              <div className="w-px h-4 mx-1 bg-gray-700" />
+              <button
+                onClick={() =>
+                  handleMarks({ bold: undefined, italic: undefined, underline: undefined, link: undefined, color: undefined })
+                }
+                className={bubbleButtonClass()}
+                title="Clear formatting"
+              >
+                <RemoveFormatting size={14} />
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
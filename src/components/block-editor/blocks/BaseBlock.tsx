@@ -1,6 +1,8 @@
 import type { ReactNode } from 'react'
 import { GripVertical, Settings, Trash2 } from 'lucide-react'
-import type { EmailNodeType } from '../../../types'
+import type { EmailNodeType, VisibilityCondition } from '../../../types'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
 
 interface BaseBlockProps {
   type: EmailNodeType
@@ -8,6 +10,8 @@ interface BaseBlockProps {
   onEditToggle: () => void
   onDelete: () => void
   onSettings?: () => void
+  condition?: VisibilityCondition
+  onConditionChange?: (condition: VisibilityCondition | undefined) => void
   children: ReactNode
 }
 
@@ -19,6 +23,14 @@ const BLOCK_ICONS: Record<EmailNodeType, string> = {
   image: '🖼️',
   divider: '➖',
   spacer: '🎨',
+  row: '▥',
+  column: '▯',
+  list: '📋',
+  table: '📊',
+  repeat: '🔁',
+  footer: '⚖️',
+  social: '🔗',
+  video: '🎬',
 }
 
 const BLOCK_LABELS: Record<EmailNodeType, string> = {
@@ -29,6 +41,14 @@ const BLOCK_LABELS: Record<EmailNodeType, string> = {
   image: 'Image',
   divider: 'Divider',
   spacer: 'Spacer',
+  row: 'Columns',
+  column: 'Column',
+  list: 'List',
+  table: 'Table',
+  repeat: 'Repeat',
+  footer: 'Footer',
+  social: 'Social Links',
+  video: 'Video',
 }
 
 export default function BaseBlock({
@@ -37,14 +57,21 @@ export default function BaseBlock({
   onEditToggle,
   onDelete,
   onSettings,
+  condition,
+  onConditionChange,
   children,
 }: BaseBlockProps) {
+  // Ghost blocks that the current test variables hide
+  const hidden = useConditionHidden(condition)
+
   return (
     <div
       className={`group relative border rounded-lg transition-all ${
         isEditing
           ? 'border-blue-500 ring-2 ring-blue-200'
-          : 'border-gray-200 hover:border-gray-300'
+          : hidden
+            ? 'border-dashed border-gray-300 opacity-50 hover:opacity-75'
+            : 'border-gray-200 hover:border-gray-300'
       }`}
     >
       {/* Block Header */}
@@ -59,6 +86,10 @@ export default function BaseBlock({
         </span>
 
         <div className="flex items-center gap-1">
+          {onConditionChange && (
+            <ConditionEditor condition={condition} onChange={onConditionChange} hidden={hidden} />
+          )}
+
           {onSettings && (
             <button
               onClick={onSettings}
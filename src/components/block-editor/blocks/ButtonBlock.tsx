@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import BaseBlock from './BaseBlock'
 import type { BlockComponentProps } from '../types'
+import DarkColorInput from '../DarkColorInput'
 
 export default function ButtonBlock({
   block,
@@ -13,6 +14,8 @@ export default function ButtonBlock({
   const [label, setLabel] = useState('')
   const [href, setHref] = useState('')
   const [target, setTarget] = useState<'_blank' | '_self'>('_blank')
+  const [darkBackgroundColor, setDarkBackgroundColor] = useState('')
+  const [darkColor, setDarkColor] = useState('')
 
   // Sync state with block props
   useEffect(() => {
@@ -20,6 +23,8 @@ export default function ButtonBlock({
       setLabel(block.label || '')
       setHref(block.href || '')
       setTarget(block.target || '_blank')
+      setDarkBackgroundColor(block.darkBackgroundColor || '')
+      setDarkColor(block.darkColor || '')
     }
   }, [block])
 
@@ -29,7 +34,13 @@ export default function ButtonBlock({
   }
 
   const handleSave = () => {
-    onUpdate({ label, href, target })
+    onUpdate({
+      label,
+      href,
+      target,
+      darkBackgroundColor: darkBackgroundColor || undefined,
+      darkColor: darkColor || undefined,
+    })
     onEditToggle()
   }
 
@@ -39,6 +50,8 @@ export default function ButtonBlock({
       isEditing={isEditing}
       onEditToggle={onEditToggle}
       onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
     >
       {isEditing ? (
         <div className="space-y-3">
@@ -81,6 +94,18 @@ export default function ButtonBlock({
             </label>
           </div>
 
+          <DarkColorInput
+            label="Dark Mode Button Color"
+            value={darkBackgroundColor}
+            onChange={setDarkBackgroundColor}
+          />
+
+          <DarkColorInput
+            label="Dark Mode Text Color"
+            value={darkColor}
+            onChange={setDarkColor}
+          />
+
           <button
             onClick={handleSave}
             className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
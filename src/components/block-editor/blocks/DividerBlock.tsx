@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react'
 import type { DividerNode } from '../../../types/email'
 import type { BlockComponentProps } from '../types'
 import { Minus, X } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
 
 export default function DividerBlock({ block, isEditing, onUpdate, onDelete }: BlockComponentProps) {
+  const hidden = useConditionHidden(block.condition)
   const [color, setColor] = useState('#E5E7EB')
   const [thickness, setThickness] = useState(1)
   const [width, setWidth] = useState(100)
@@ -38,13 +41,20 @@ export default function DividerBlock({ block, isEditing, onUpdate, onDelete }: B
             <Minus className="w-5 h-5 text-gray-600" />
             <span className="font-medium text-sm">Divider Block</span>
           </div>
-          <button
-            onClick={onDelete}
-            className="text-red-500 hover:text-red-700"
-            aria-label="Delete block"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <div className="space-y-3">
@@ -120,7 +130,7 @@ export default function DividerBlock({ block, isEditing, onUpdate, onDelete }: B
   }
 
   return (
-    <div className="my-4">
+    <div className={`my-4 ${hidden ? 'opacity-50' : ''}`}>
       <hr
         style={{
           borderColor: color,
@@ -0,0 +1,139 @@
+import { useState, useEffect } from 'react'
+import BaseBlock from './BaseBlock'
+import type { BlockComponentProps } from '../types'
+import { missingFooterFields } from '../../../lib/compliance'
+
+export default function FooterBlock({
+  block,
+  isEditing,
+  onUpdate,
+  onDelete,
+  onEditToggle,
+}: BlockComponentProps) {
+  // Initialize hooks at the top - before any conditional returns
+  const [legalText, setLegalText] = useState('')
+  const [postalAddress, setPostalAddress] = useState('')
+  const [unsubscribeVariable, setUnsubscribeVariable] = useState('')
+  const [preferencesUrl, setPreferencesUrl] = useState('')
+
+  // Sync state with block props
+  useEffect(() => {
+    if (block.type === 'footer') {
+      setLegalText(block.legalText || '')
+      setPostalAddress(block.postalAddress || '')
+      setUnsubscribeVariable(block.unsubscribeVariable || '')
+      setPreferencesUrl(block.preferencesUrl || '')
+    }
+  }, [block])
+
+  // Type guard to ensure we have a footer block
+  if (block.type !== 'footer') {
+    return null
+  }
+
+  const missing = missingFooterFields(block)
+
+  const handleSave = () => {
+    onUpdate({
+      legalText,
+      postalAddress,
+      unsubscribeVariable: unsubscribeVariable || undefined,
+      preferencesUrl,
+    })
+    onEditToggle()
+  }
+
+  const requiredLabel = (label: string, value: string) => (
+    <label className="block text-sm font-medium text-gray-700 mb-1">
+      {label}
+      {!value.trim() && <span className="ml-2 text-xs font-normal text-red-600">Required</span>}
+    </label>
+  )
+
+  return (
+    <BaseBlock
+      type="footer"
+      isEditing={isEditing}
+      onEditToggle={onEditToggle}
+      onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
+    >
+      {isEditing ? (
+        <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+          <div>
+            {requiredLabel('Legal Text', legalText)}
+            <textarea
+              value={legalText}
+              onChange={(e) => setLegalText(e.target.value)}
+              placeholder="You're receiving this email because you signed up at example.com."
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            {requiredLabel('Postal Address', postalAddress)}
+            <textarea
+              value={postalAddress}
+              onChange={(e) => setPostalAddress(e.target.value)}
+              placeholder="Example Inc., 123 Main Street, Springfield, USA"
+              rows={2}
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            {requiredLabel('Unsubscribe Link', unsubscribeVariable)}
+            <div className="flex items-center border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+              <span className="pl-3 text-gray-400 font-mono text-sm">{'{{'}</span>
+              <input
+                type="text"
+                value={unsubscribeVariable}
+                // Variable names are word characters only, like {{unsubscribeUrl}}
+                onChange={(e) => setUnsubscribeVariable(e.target.value.replace(/\W/g, ''))}
+                placeholder="unsubscribeUrl"
+                className="flex-1 min-w-0 px-1 py-2 font-mono text-sm focus:outline-none"
+              />
+              <span className="pr-3 text-gray-400 font-mono text-sm">{'}}'}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              Variable your sending service fills with each recipient's unsubscribe URL.
+            </p>
+          </div>
+
+          <div>
+            {requiredLabel('Preferences Link', preferencesUrl)}
+            <input
+              type="url"
+              value={preferencesUrl}
+              onChange={(e) => setPreferencesUrl(e.target.value)}
+              placeholder="https://example.com/preferences"
+              className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <button
+            onClick={handleSave}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-2 text-center text-xs text-gray-500">
+          {legalText && <p className="whitespace-pre-line">{legalText}</p>}
+          {postalAddress && <p className="whitespace-pre-line">{postalAddress}</p>}
+          <p className="space-x-2">
+            <span className="underline">Unsubscribe</span>
+            <span>&middot;</span>
+            <span className="underline">Manage preferences</span>
+          </p>
+          {missing.length > 0 && (
+            <p className="text-sm text-red-600">Missing {missing.join(', ')}</p>
+          )}
+        </div>
+      )}
+    </BaseBlock>
+  )
+}
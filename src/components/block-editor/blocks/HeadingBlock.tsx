@@ -1,6 +1,11 @@
 import { useState, useEffect } from 'react'
 import BaseBlock from './BaseBlock'
 import type { BlockComponentProps } from '../types'
+import type { TextSpan } from '../../../types/email'
+import DarkColorInput from '../DarkColorInput'
+import RichTextEditor from '../RichTextEditor'
+import InlineText from '../../email/InlineText'
+import { getTextSpans, toTextFields } from '../../../lib/richText'
 
 export default function HeadingBlock({
   block,
@@ -10,14 +15,16 @@ export default function HeadingBlock({
   onEditToggle,
 }: BlockComponentProps) {
   // Initialize hooks at the top - before any conditional returns
-  const [text, setText] = useState('')
+  const [spans, setSpans] = useState<TextSpan[]>([])
   const [level, setLevel] = useState<1 | 2 | 3>(1)
+  const [darkColor, setDarkColor] = useState('')
 
   // Sync state with block props
   useEffect(() => {
     if (block.type === 'heading') {
-      setText(block.text || '')
+      setSpans(getTextSpans(block))
       setLevel(block.level || 1)
+      setDarkColor(block.darkColor || '')
     }
   }, [block])
 
@@ -27,7 +34,7 @@ export default function HeadingBlock({
   }
 
   const handleSave = () => {
-    onUpdate({ text, level })
+    onUpdate({ ...toTextFields(spans), level, darkColor: darkColor || undefined })
     onEditToggle()
   }
 
@@ -37,13 +44,21 @@ export default function HeadingBlock({
       handleSave()
     } else if (e.key === 'Escape') {
       if (block.type === 'heading') {
-        setText(block.text || '')
+        setSpans(getTextSpans(block))
         setLevel(block.level || 1)
+        setDarkColor(block.darkColor || '')
       }
       onEditToggle()
     }
   }
 
+  // Save once focus leaves the whole editor, so the other fields stay usable
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      handleSave()
+    }
+  }
+
   const headingClasses = {
     1: 'text-3xl font-bold',
     2: 'text-2xl font-semibold',
@@ -56,9 +71,12 @@ export default function HeadingBlock({
       isEditing={isEditing}
       onEditToggle={onEditToggle}
       onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
     >
       {isEditing ? (
-        <div className="space-y-3">
+        // Clicks inside the editor, e.g. to select text, shouldn't toggle the block closed
+        <div className="space-y-3" onBlur={handleBlur} onClick={(e) => e.stopPropagation()}>
           <div className="flex items-center gap-2">
             <label className="text-sm font-medium text-gray-700">Level:</label>
             <select
@@ -72,24 +90,28 @@ export default function HeadingBlock({
             </select>
           </div>
 
-          <input
-            type="text"
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            onBlur={handleSave}
+          <RichTextEditor
+            value={spans}
+            onChange={setSpans}
             onKeyDown={handleKeyDown}
-            placeholder="Enter heading text..."
             autoFocus
+            placeholder="Enter heading text..."
             className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
 
+          <DarkColorInput
+            label="Dark Mode Text Color"
+            value={darkColor}
+            onChange={setDarkColor}
+          />
+
           <div className="flex gap-2 text-xs text-gray-500">
-            <span>Press Enter to save, Esc to cancel</span>
+            <span>Select text to format it. Press Enter to save, Esc to cancel</span>
           </div>
         </div>
       ) : (
         <h1 className={`${headingClasses[level as 1 | 2 | 3]} cursor-text`}>
-          {text || 'Click to edit heading...'}
+          {spans.length > 0 ? <InlineText spans={spans} /> : 'Click to edit heading...'}
         </h1>
       )}
     </BaseBlock>
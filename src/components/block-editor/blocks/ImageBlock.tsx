@@ -1,14 +1,30 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useRef, useContext } from 'react'
 import type { ImageNode } from '../../../types/email'
 import type { BlockComponentProps } from '../types'
 import { Upload, X, Image as ImageIcon } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
+import { useImageUpload } from '../../../hooks/useImageUpload'
+import { ALLOWED_IMAGE_TYPES, fitImageDimensions } from '../../../lib/uploadService'
+import type { ProcessedImage } from '../../../lib/imageProcessing'
+import ImageProcessorModal from '../ImageProcessorModal'
+import AssetLibraryModal from '../../assets/AssetLibraryModal'
+import { EditorContext } from '../../../contexts/EditorContext'
+import { useCreateAsset } from '../../../hooks/useAssets'
+import type { Asset } from '../../../types'
 
 export default function ImageBlock({ block, isEditing, onUpdate, onDelete }: BlockComponentProps) {
+  const hidden = useConditionHidden(block.condition)
   const [src, setSrc] = useState('')
   const [alt, setAlt] = useState('')
   const [width, setWidth] = useState(600)
   const [height, setHeight] = useState<number | undefined>(undefined)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [showLibrary, setShowLibrary] = useState(false)
+  const { projectId } = useContext(EditorContext)
+  const createAsset = useCreateAsset()
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const { upload, progress, isUploading, error: uploadError } = useImageUpload()
 
   useEffect(() => {
     if (block.type === 'image') {
@@ -23,19 +39,64 @@ export default function ImageBlock({ block, isEditing, onUpdate, onDelete }: Blo
     return null
   }
 
+  const uploadFile = async (file: File) => {
+    // Only the hosted URL is stored, so the email JSON stays small
+    const uploaded = await upload(file)
+    if (!uploaded) return
+
+    const dimensions = fitImageDimensions(uploaded, width)
+    setSrc(uploaded.url)
+    setWidth(dimensions.width)
+    setHeight(dimensions.height)
+    onUpdate({ ...block, src: uploaded.url, ...dimensions })
+
+    // Keep the upload in the project's library so later emails can reuse it
+    if (projectId) {
+      createAsset.mutate({
+        projectId,
+        data: {
+          url: uploaded.url,
+          fileName: file.name,
+          alt: alt || undefined,
+          tags: [],
+          width: uploaded.width,
+          height: uploaded.height,
+          size: uploaded.size,
+          mimeType: uploaded.mimeType,
+        },
+      })
+    }
+  }
+
+  const handleSelectAsset = (asset: Asset) => {
+    const dimensions = fitImageDimensions(asset, width)
+    const newAlt = alt || asset.alt || ''
+    setShowLibrary(false)
+    setSrc(asset.url)
+    setAlt(newAlt)
+    setWidth(dimensions.width)
+    setHeight(dimensions.height)
+    onUpdate({ ...block, src: asset.url, alt: newAlt, ...dimensions })
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
-    if (file) {
-      const reader = new FileReader()
-      reader.onloadend = () => {
-        const newSrc = reader.result as string
-        setSrc(newSrc)
-        onUpdate({ ...block, src: newSrc })
-      }
-      reader.readAsDataURL(file)
+    e.target.value = ''
+    if (!file) return
+
+    // Canvas re-encoding would drop GIF animation, so GIFs go up untouched
+    if (file.type === 'image/gif') {
+      uploadFile(file)
+    } else {
+      setPendingFile(file)
     }
   }
 
+  const handleProcessed = (image: ProcessedImage) => {
+    setPendingFile(null)
+    uploadFile(image.file)
+  }
+
   const handleUpdate = () => {
     const updated: ImageNode = {
       ...block,
@@ -55,13 +116,20 @@ export default function ImageBlock({ block, isEditing, onUpdate, onDelete }: Blo
             <ImageIcon className="w-5 h-5 text-gray-600" />
             <span className="font-medium text-sm">Image Block</span>
           </div>
-          <button
-            onClick={onDelete}
-            className="text-red-500 hover:text-red-700"
-            aria-label="Delete block"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <div className="space-y-3">
@@ -91,19 +159,53 @@ export default function ImageBlock({ block, isEditing, onUpdate, onDelete }: Blo
             ) : (
               <button
                 onClick={() => fileInputRef.current?.click()}
-                className="w-full max-w-md border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-blue-500 transition-colors flex flex-col items-center gap-2"
+                disabled={isUploading}
+                className="w-full max-w-md border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-blue-500 transition-colors flex flex-col items-center gap-2 disabled:hover:border-gray-300"
               >
                 <Upload className="w-8 h-8 text-gray-400" />
-                <span className="text-sm text-gray-600">Click to upload image</span>
+                {isUploading ? (
+                  <>
+                    <span className="text-sm text-gray-600">Uploading... {progress}%</span>
+                    <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-600">Click to upload image</span>
+                )}
+              </button>
+            )}
+            {!src && projectId && (
+              <button
+                onClick={() => setShowLibrary(true)}
+                className="mt-2 text-sm text-blue-600 hover:text-blue-700"
+              >
+                Choose from library
               </button>
             )}
+            {uploadError && <p className="mt-1 text-sm text-red-600">{uploadError}</p>}
             <input
               ref={fileInputRef}
               type="file"
-              accept="image/*"
+              accept={ALLOWED_IMAGE_TYPES.join(',')}
               onChange={handleFileChange}
               className="hidden"
             />
+            {pendingFile && (
+              <ImageProcessorModal
+                file={pendingFile}
+                displayWidth={width}
+                onConfirm={handleProcessed}
+                onClose={() => setPendingFile(null)}
+              />
+            )}
+            {showLibrary && projectId && (
+              <AssetLibraryModal
+                projectId={projectId}
+                onSelect={handleSelectAsset}
+                onClose={() => setShowLibrary(false)}
+              />
+            )}
           </div>
 
           <div>
@@ -156,7 +258,7 @@ export default function ImageBlock({ block, isEditing, onUpdate, onDelete }: Blo
   }
 
   return (
-    <div className="my-4">
+    <div className={`my-4 ${hidden ? 'opacity-50' : ''}`}>
       {src ? (
         <img
           src={src}
@@ -0,0 +1,247 @@
+import { useState, useEffect, useRef } from 'react'
+import BaseBlock from './BaseBlock'
+import type { BlockComponentProps } from '../types'
+import type { ListNode } from '../../../types/email'
+import {
+  MAX_LIST_DEPTH,
+  flattenListItems,
+  getMarkedListItems,
+  nestListItems,
+} from '../../../lib/listItems'
+import type { FlatListItem } from '../../../lib/listItems'
+import { List, ListOrdered } from 'lucide-react'
+
+// Round-trip through the nested shape so levels never skip a step
+function normalizeItems(items: FlatListItem[]): FlatListItem[] {
+  return flattenListItems(nestListItems(items))
+}
+
+export default function ListBlock({
+  block,
+  isEditing,
+  onUpdate,
+  onDelete,
+  onEditToggle,
+}: BlockComponentProps) {
+  // Initialize hooks at the top - before any conditional returns
+  const [items, setItems] = useState<FlatListItem[]>([])
+  const [listStyle, setListStyle] = useState<NonNullable<ListNode['listStyle']>>('unordered')
+  const [bulletColor, setBulletColor] = useState('')
+  const inputRefs = useRef<(HTMLInputElement | null)[]>([])
+
+  // Sync state with block props
+  useEffect(() => {
+    if (block.type === 'list') {
+      setItems(flattenListItems(block.items || []))
+      setListStyle(block.listStyle || 'unordered')
+      setBulletColor(block.bulletColor || '')
+    }
+  }, [block])
+
+  // Type guard to ensure we have a list block
+  if (block.type !== 'list') {
+    return null
+  }
+
+  const markedItems = getMarkedListItems({ ...block, listStyle, items: nestListItems(items) })
+
+  // Focus once the re-rendered inputs exist
+  const focusItem = (index: number, caret?: number) => {
+    requestAnimationFrame(() => {
+      const input = inputRefs.current[index]
+      input?.focus()
+      if (input && caret !== undefined) input.setSelectionRange(caret, caret)
+    })
+  }
+
+  const updateItems = (next: FlatListItem[]) => {
+    setItems(normalizeItems(next))
+  }
+
+  const setLevel = (index: number, level: number) => {
+    updateItems(items.map((item, i) => (i === index ? { ...item, level: Math.max(level, 0) } : item)))
+    focusItem(index)
+  }
+
+  const handleSave = () => {
+    onUpdate({
+      listStyle,
+      items: nestListItems(items.filter((item) => item.text.trim())),
+      bulletColor: bulletColor || undefined,
+    })
+    onEditToggle()
+  }
+
+  const handleItemKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, index: number) => {
+    const item = items[index]
+    const caret = e.currentTarget.selectionStart ?? item.text.length
+    const hasSelection = caret !== e.currentTarget.selectionEnd
+
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      // Enter on an empty nested item steps out a level, like most editors
+      if (!item.text && item.level > 0) {
+        setLevel(index, item.level - 1)
+        return
+      }
+      updateItems([
+        ...items.slice(0, index),
+        { ...item, text: item.text.slice(0, caret) },
+        { text: item.text.slice(caret), level: item.level },
+        ...items.slice(index + 1),
+      ])
+      focusItem(index + 1, 0)
+    } else if (e.key === 'Tab') {
+      e.preventDefault()
+      if (e.shiftKey) {
+        setLevel(index, item.level - 1)
+      } else if (index > 0) {
+        setLevel(index, Math.min(item.level + 1, items[index - 1].level + 1, MAX_LIST_DEPTH - 1))
+      }
+    } else if (e.key === 'Backspace' && caret === 0 && !hasSelection) {
+      if (item.level > 0) {
+        e.preventDefault()
+        setLevel(index, item.level - 1)
+      } else if (index > 0) {
+        // Merge into the previous item
+        e.preventDefault()
+        const previous = items[index - 1]
+        updateItems([
+          ...items.slice(0, index - 1),
+          { ...previous, text: previous.text + item.text },
+          ...items.slice(index + 1),
+        ])
+        focusItem(index - 1, previous.text.length)
+      }
+    } else if (e.key === 'ArrowUp' && index > 0) {
+      e.preventDefault()
+      focusItem(index - 1)
+    } else if (e.key === 'ArrowDown' && index < items.length - 1) {
+      e.preventDefault()
+      focusItem(index + 1)
+    } else if (e.key === 'Escape') {
+      if (block.type === 'list') {
+        setItems(flattenListItems(block.items || []))
+        setListStyle(block.listStyle || 'unordered')
+        setBulletColor(block.bulletColor || '')
+      }
+      onEditToggle()
+    }
+  }
+
+  // Save once focus leaves the whole editor, so the other fields stay usable
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      handleSave()
+    }
+  }
+
+  const markerClass = listStyle === 'ordered' ? 'w-8' : 'w-5'
+
+  return (
+    <BaseBlock
+      type="list"
+      isEditing={isEditing}
+      onEditToggle={onEditToggle}
+      onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
+    >
+      {isEditing ? (
+        // Clicks inside the editor shouldn't toggle the block closed
+        <div className="space-y-3" onBlur={handleBlur} onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-center gap-4">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+              {(['unordered', 'ordered'] as const).map((style) => (
+                <button
+                  key={style}
+                  onClick={() => setListStyle(style)}
+                  className={`flex items-center gap-1.5 px-3 py-1.5 text-sm transition-colors ${
+                    listStyle === style ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+                  }`}
+                >
+                  {style === 'ordered' ? <ListOrdered size={16} /> : <List size={16} />}
+                  {style === 'ordered' ? 'Numbered' : 'Bulleted'}
+                </button>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Bullet color:</label>
+              <input
+                type="color"
+                value={bulletColor || '#1F2937'}
+                onChange={(e) => setBulletColor(e.target.value)}
+                className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+              />
+              {bulletColor && (
+                <button
+                  onClick={() => setBulletColor('')}
+                  className="text-xs text-gray-500 hover:text-gray-700"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            {markedItems.map((item, index) => (
+              <div
+                key={index}
+                className="flex items-center"
+                style={{ paddingLeft: `${item.level * 24}px` }}
+              >
+                <span className={`shrink-0 text-gray-600 ${markerClass}`} style={{ color: bulletColor || undefined }}>
+                  {item.marker}
+                </span>
+                <input
+                  ref={(element) => {
+                    inputRefs.current[index] = element
+                  }}
+                  type="text"
+                  value={item.text}
+                  onChange={(e) =>
+                    setItems(items.map((current, i) => (i === index ? { ...current, text: e.target.value } : current)))
+                  }
+                  onKeyDown={(e) => handleItemKeyDown(e, index)}
+                  autoFocus={index === markedItems.length - 1}
+                  placeholder="List item..."
+                  className="flex-1 px-2 py-1 border border-transparent rounded hover:border-gray-200 focus:outline-none focus:border-blue-500"
+                />
+              </div>
+            ))}
+            {markedItems.length === 0 && (
+              <button
+                onClick={() => {
+                  setItems([{ text: '', level: 0 }])
+                  focusItem(0)
+                }}
+                className="text-sm text-blue-600 hover:text-blue-700"
+              >
+                Add an item
+              </button>
+            )}
+          </div>
+
+          <div className="flex gap-2 text-xs text-gray-500">
+            <span>Enter adds an item, Tab and Shift+Tab change nesting. Click outside to save, Esc to cancel</span>
+          </div>
+        </div>
+      ) : (
+        <div className="text-gray-800 cursor-text">
+          {markedItems.length > 0
+            ? markedItems.map((item, index) => (
+                <div key={index} className="flex" style={{ paddingLeft: `${item.level * 24}px` }}>
+                  <span className={`shrink-0 ${markerClass}`} style={{ color: bulletColor || undefined }}>
+                    {item.marker}
+                  </span>
+                  <span className="min-w-0">{item.text}</span>
+                </div>
+              ))
+            : 'Click to edit list...'}
+        </div>
+      )}
+    </BaseBlock>
+  )
+}
@@ -0,0 +1,301 @@
+import { useState, useEffect } from 'react'
+import type { ComponentType } from 'react'
+import type {
+  ButtonNode,
+  EmailNode,
+  EmailNodeType,
+  HeadingNode,
+  ImageNode,
+  ListNode,
+  RepeatNode,
+  RowNode,
+  SpacerNode,
+  TextNode,
+} from '../../../types/email'
+import type { BlockComponentProps } from '../types'
+import HeadingBlock from './HeadingBlock'
+import TextBlock from './TextBlock'
+import ButtonBlock from './ButtonBlock'
+import ImageBlock from './ImageBlock'
+import DividerBlock from './DividerBlock'
+import SpacerBlock from './SpacerBlock'
+import ListBlock from './ListBlock'
+import RowBlock from './RowBlock'
+import { generateId } from '../../../lib/utils'
+import { Plus, Repeat, X } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
+
+// Blocks that can be repeated. Tables and repeaters can't be nested, since
+// their loops would need a second level of item scoping.
+const repeatBlockComponents: Partial<Record<EmailNodeType, ComponentType<BlockComponentProps>>> = {
+  heading: HeadingBlock,
+  text: TextBlock,
+  button: ButtonBlock,
+  image: ImageBlock,
+  divider: DividerBlock,
+  spacer: SpacerBlock,
+  list: ListBlock,
+  row: RowBlock,
+}
+
+type RepeatBlockTemplate =
+  | Omit<HeadingNode, 'id'>
+  | Omit<TextNode, 'id'>
+  | Omit<ButtonNode, 'id'>
+  | Omit<ImageNode, 'id'>
+  | Omit<SpacerNode, 'id'>
+  | Omit<ListNode, 'id'>
+  | Omit<RowNode, 'id'>
+
+const REPEAT_BLOCK_TEMPLATES: { label: string; block: RepeatBlockTemplate }[] = [
+  { label: 'Heading', block: { type: 'heading', level: 3, text: '{{item.name}}', children: [] } },
+  { label: 'Text', block: { type: 'text', text: '{{item.description}}', children: [] } },
+  { label: 'List', block: { type: 'list', listStyle: 'unordered', items: [{ text: '{{item.name}}' }], children: [] } },
+  {
+    label: 'Button',
+    block: { type: 'button', label: 'View', href: '{{item.url}}', target: '_blank', children: [] },
+  },
+  { label: 'Image', block: { type: 'image', src: '{{item.imageUrl}}', alt: '{{item.name}}', width: 200, children: [] } },
+  { label: 'Spacer', block: { type: 'spacer', height: 20, children: [] } },
+  {
+    label: 'Columns',
+    block: {
+      type: 'row',
+      gap: 16,
+      verticalAlign: 'top',
+      stackOnMobile: true,
+      children: [
+        { id: 'column-1', type: 'column', width: 50, children: [] },
+        { id: 'column-2', type: 'column', width: 50, children: [] },
+      ],
+    },
+  },
+]
+
+const EMPTY_STATE_TEMPLATE: Omit<TextNode, 'id'> = {
+  type: 'text',
+  text: 'Nothing to show right now.',
+  children: [],
+}
+
+export default function RepeatBlock({ block, isEditing, onUpdate, onDelete, onEditToggle }: BlockComponentProps) {
+  const [dataVariable, setDataVariable] = useState('')
+  const [maxItems, setMaxItems] = useState('')
+  const [editingChildId, setEditingChildId] = useState<string | null>(null)
+  const hidden = useConditionHidden(block.condition)
+
+  useEffect(() => {
+    if (block.type === 'repeat') {
+      setDataVariable(block.dataVariable || '')
+      setMaxItems(block.maxItems ? String(block.maxItems) : '')
+    }
+  }, [block])
+
+  if (block.type !== 'repeat') {
+    return null
+  }
+
+  const children = block.children || []
+
+  const handleUpdate = (updates: Partial<RepeatNode> = {}) => {
+    const updated: RepeatNode = {
+      ...block,
+      dataVariable: dataVariable || undefined,
+      maxItems: Number(maxItems) > 0 ? Math.floor(Number(maxItems)) : undefined,
+      ...updates,
+    }
+    onUpdate(updated)
+  }
+
+  const handleAddChild = (template: RepeatBlockTemplate) => {
+    // A row template's columns need unique ids too
+    const withIds = (node: Omit<EmailNode, 'id'>): EmailNode =>
+      ({ ...node, id: generateId(), children: node.children?.map(withIds) }) as EmailNode
+    const child = withIds(template)
+    handleUpdate({ children: [...children, child] })
+    setEditingChildId(child.id)
+  }
+
+  const handleAddEmptyState = () => {
+    const emptyState = { ...EMPTY_STATE_TEMPLATE, id: generateId() }
+    handleUpdate({ emptyState })
+    setEditingChildId(emptyState.id)
+  }
+
+  const renderChild = (
+    child: EmailNode,
+    interactive: boolean,
+    onChildUpdate: (child: EmailNode) => void,
+    onChildDelete: () => void
+  ) => {
+    const ChildComponent = repeatBlockComponents[child.type]
+    if (!ChildComponent) return null
+    const isEditingChild = interactive && editingChildId === child.id
+
+    return (
+      <div
+        key={child.id}
+        onClick={() => interactive && !isEditingChild && setEditingChildId(child.id)}
+      >
+        <ChildComponent
+          block={child}
+          isEditing={isEditingChild}
+          onUpdate={(updates) => onChildUpdate({ ...child, ...updates } as EmailNode)}
+          onDelete={onChildDelete}
+          onEditToggle={() => setEditingChildId(isEditingChild ? null : child.id)}
+        />
+      </div>
+    )
+  }
+
+  const renderChildren = (interactive: boolean) => {
+    if (children.length === 0) {
+      return <p className="text-xs text-gray-400 text-center py-4">Nothing to repeat yet</p>
+    }
+
+    return children.map((child) =>
+      renderChild(
+        child,
+        interactive,
+        (updated) => handleUpdate({ children: children.map((item) => (item.id === child.id ? updated : item)) }),
+        () => handleUpdate({ children: children.filter((item) => item.id !== child.id) })
+      )
+    )
+  }
+
+  const summary = block.dataVariable
+    ? `Repeated for each element of {{${block.dataVariable}}}${block.maxItems ? `, up to ${block.maxItems}` : ''}`
+    : 'Not bound to an array variable'
+
+  if (isEditing) {
+    return (
+      <div className="border-2 border-blue-500 rounded-lg p-4 bg-white">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Repeat className="w-5 h-5 text-gray-600" />
+            <span className="font-medium text-sm">Repeat Block</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onEditToggle}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Done
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-start gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Repeat For
+              </label>
+              <div className="flex items-center border border-gray-300 rounded-md focus-within:ring-2 focus-within:ring-blue-500">
+                <span className="pl-3 text-gray-400 font-mono text-sm">{'{{'}</span>
+                <input
+                  type="text"
+                  value={dataVariable}
+                  // Variable names are word characters only, like {{products}}
+                  onChange={(e) => setDataVariable(e.target.value.replace(/\W/g, ''))}
+                  onBlur={() => handleUpdate()}
+                  placeholder="products"
+                  className="flex-1 min-w-0 px-1 py-2 font-mono text-sm focus:outline-none"
+                />
+                <span className="pr-3 text-gray-400 font-mono text-sm">{'}}'}</span>
+              </div>
+            </div>
+            <div className="w-28">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Max Items
+              </label>
+              <input
+                type="number"
+                value={maxItems}
+                onChange={(e) => setMaxItems(e.target.value)}
+                onBlur={() => handleUpdate()}
+                placeholder="All"
+                min="1"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            The blocks below are rendered once per element of this array variable. Use {'{{item.field}}'} in them to show a field of each element.
+          </p>
+
+          <div className="pt-3 border-t border-gray-200 space-y-2">
+            <div className="p-2 space-y-2 border border-dashed border-gray-300 rounded-md">
+              {renderChildren(true)}
+              <div className="flex flex-wrap gap-1 pt-1">
+                {REPEAT_BLOCK_TEMPLATES.map((template) => (
+                  <button
+                    key={template.label}
+                    onClick={() => handleAddChild(template.block)}
+                    className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs text-gray-600 border border-gray-200 rounded hover:bg-gray-50 hover:text-blue-600"
+                  >
+                    <Plus className="w-3 h-3" />
+                    {template.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Empty State
+            </label>
+            {block.emptyState ? (
+              <div className="p-2 border border-dashed border-gray-300 rounded-md">
+                {renderChild(
+                  block.emptyState,
+                  true,
+                  (emptyState) => handleUpdate({ emptyState }),
+                  () => handleUpdate({ emptyState: undefined })
+                )}
+              </div>
+            ) : (
+              <button
+                onClick={handleAddEmptyState}
+                className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus size={14} />
+                Add a block shown when the array is empty
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      onClick={onEditToggle}
+      className={`border rounded-lg p-3 bg-white cursor-pointer ${
+        hidden ? 'border-dashed border-gray-300 opacity-50 hover:opacity-75' : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700">
+        <Repeat className="w-4 h-4 text-gray-500" />
+        Repeat
+        <span className="text-xs font-normal text-gray-500">{summary}</span>
+      </div>
+      <div className="space-y-2 pointer-events-none">{renderChildren(false)}</div>
+    </div>
+  )
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect } from 'react'
+import type { ComponentType } from 'react'
+import type {
+  ButtonNode,
+  ColumnNode,
+  EmailNode,
+  EmailNodeType,
+  HeadingNode,
+  ImageNode,
+  ListNode,
+  RowNode,
+  SpacerNode,
+  TextNode,
+} from '../../../types/email'
+import type { BlockComponentProps } from '../types'
+import HeadingBlock from './HeadingBlock'
+import TextBlock from './TextBlock'
+import ButtonBlock from './ButtonBlock'
+import ImageBlock from './ImageBlock'
+import DividerBlock from './DividerBlock'
+import SpacerBlock from './SpacerBlock'
+import ListBlock from './ListBlock'
+import { generateId } from '../../../lib/utils'
+import { Columns2, Plus, X } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
+
+// Content blocks that can be placed inside a column. Sections and rows can't
+// be nested, since email clients have no reliable way to lay those out.
+const columnBlockComponents: Partial<Record<EmailNodeType, ComponentType<BlockComponentProps>>> = {
+  heading: HeadingBlock,
+  text: TextBlock,
+  button: ButtonBlock,
+  image: ImageBlock,
+  divider: DividerBlock,
+  spacer: SpacerBlock,
+  list: ListBlock,
+}
+
+const COLUMN_LAYOUTS: { label: string; widths: number[] }[] = [
+  { label: '50 / 50', widths: [50, 50] },
+  { label: '33 / 67', widths: [33, 67] },
+  { label: '67 / 33', widths: [67, 33] },
+  { label: '3 columns', widths: [33, 34, 33] },
+  { label: '4 columns', widths: [25, 25, 25, 25] },
+]
+
+type ColumnBlockTemplate =
+  | Omit<HeadingNode, 'id'>
+  | Omit<TextNode, 'id'>
+  | Omit<ButtonNode, 'id'>
+  | Omit<ImageNode, 'id'>
+  | Omit<SpacerNode, 'id'>
+  | Omit<ListNode, 'id'>
+
+const COLUMN_BLOCK_TEMPLATES: { label: string; block: ColumnBlockTemplate }[] = [
+  { label: 'Heading', block: { type: 'heading', level: 2, text: 'New Heading', children: [] } },
+  { label: 'Text', block: { type: 'text', text: 'Enter your text here...', children: [] } },
+  { label: 'List', block: { type: 'list', listStyle: 'unordered', items: [{ text: 'First item' }], children: [] } },
+  {
+    label: 'Button',
+    block: { type: 'button', label: 'Click me', href: 'https://example.com', target: '_blank', children: [] },
+  },
+  { label: 'Image', block: { type: 'image', src: '', alt: '', width: 300, children: [] } },
+  { label: 'Spacer', block: { type: 'spacer', height: 20, children: [] } },
+]
+
+function getColumns(block: EmailNode): ColumnNode[] {
+  return block.children?.filter((child): child is ColumnNode => child.type === 'column') ?? []
+}
+
+function columnWidth(column: ColumnNode, count: number): number {
+  return column.width || Math.round(100 / count)
+}
+
+export default function RowBlock({ block, isEditing, onUpdate, onDelete, onEditToggle }: BlockComponentProps) {
+  const [gap, setGap] = useState(16)
+  const [verticalAlign, setVerticalAlign] = useState<NonNullable<RowNode['verticalAlign']>>('top')
+  const [stackOnMobile, setStackOnMobile] = useState(true)
+  const [editingChildId, setEditingChildId] = useState<string | null>(null)
+  const hidden = useConditionHidden(block.condition)
+
+  useEffect(() => {
+    if (block.type === 'row') {
+      setGap(block.gap ?? 16)
+      setVerticalAlign(block.verticalAlign || 'top')
+      setStackOnMobile(block.stackOnMobile !== false)
+    }
+  }, [block])
+
+  if (block.type !== 'row') {
+    return null
+  }
+
+  const columns = getColumns(block)
+
+  const handleUpdate = (updates: Partial<RowNode> = {}) => {
+    const updated: RowNode = {
+      ...block,
+      gap,
+      verticalAlign,
+      stackOnMobile,
+      ...updates,
+    }
+    onUpdate(updated)
+  }
+
+  const updateColumn = (columnId: string, update: (children: EmailNode[]) => EmailNode[]) => {
+    handleUpdate({
+      children: columns.map((column) =>
+        column.id === columnId ? { ...column, children: update(column.children || []) } : column
+      ),
+    })
+  }
+
+  const handleLayout = (widths: number[]) => {
+    const next: ColumnNode[] = widths.map((width, index) => ({
+      ...(columns[index] ?? { id: generateId(), type: 'column', children: [] }),
+      width,
+    }))
+
+    // Content from removed columns moves into the last remaining one
+    const overflow = columns.slice(widths.length).flatMap((column) => column.children || [])
+    if (overflow.length > 0) {
+      const last = next[next.length - 1]
+      next[next.length - 1] = { ...last, children: [...(last.children || []), ...overflow] }
+    }
+
+    handleUpdate({ children: next })
+  }
+
+  const handleAddChild = (columnId: string, template: ColumnBlockTemplate) => {
+    const child = { ...template, id: generateId() } as EmailNode
+    updateColumn(columnId, (children) => [...children, child])
+    setEditingChildId(child.id)
+  }
+
+  const renderColumnContent = (column: ColumnNode, interactive: boolean) => {
+    const children = column.children || []
+    if (children.length === 0) {
+      return <p className="text-xs text-gray-400 text-center py-4">Empty column</p>
+    }
+
+    return children.map((child) => {
+      const ChildComponent = columnBlockComponents[child.type]
+      if (!ChildComponent) return null
+      const isEditingChild = interactive && editingChildId === child.id
+
+      return (
+        <div
+          key={child.id}
+          onClick={() => interactive && !isEditingChild && setEditingChildId(child.id)}
+        >
+          <ChildComponent
+            block={child}
+            isEditing={isEditingChild}
+            onUpdate={(updates) =>
+              updateColumn(column.id, (items) =>
+                items.map((item) => (item.id === child.id ? ({ ...item, ...updates } as EmailNode) : item))
+              )
+            }
+            onDelete={() =>
+              updateColumn(column.id, (items) => items.filter((item) => item.id !== child.id))
+            }
+            onEditToggle={() => setEditingChildId(isEditingChild ? null : child.id)}
+          />
+        </div>
+      )
+    })
+  }
+
+  const currentWidths = columns.map((column) => columnWidth(column, columns.length)).join('/')
+
+  if (isEditing) {
+    return (
+      <div className="border-2 border-blue-500 rounded-lg p-4 bg-white">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Columns2 className="w-5 h-5 text-gray-600" />
+            <span className="font-medium text-sm">Columns Block</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onEditToggle}
+              className="text-sm text-blue-600 hover:text-blue-700"
+            >
+              Done
+            </button>
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Layout</label>
+            <div className="flex flex-wrap gap-2">
+              {COLUMN_LAYOUTS.map((layout) => (
+                <button
+                  key={layout.label}
+                  onClick={() => handleLayout(layout.widths)}
+                  className={`px-3 py-1.5 text-sm border rounded-md transition-colors ${
+                    layout.widths.join('/') === currentWidths
+                      ? 'border-blue-500 bg-blue-50 text-blue-700'
+                      : 'border-gray-300 hover:bg-gray-50'
+                  }`}
+                >
+                  {layout.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Gap: {gap}px
+            </label>
+            <input
+              type="range"
+              value={gap}
+              onChange={(e) => setGap(Number(e.target.value))}
+              onMouseUp={() => handleUpdate()}
+              onTouchEnd={() => handleUpdate()}
+              min="0"
+              max="48"
+              step="4"
+              className="w-full"
+            />
+          </div>
+
+          <div className="flex items-center gap-4">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Vertical Alignment
+              </label>
+              <select
+                value={verticalAlign}
+                onChange={(e) => {
+                  const value = e.target.value as NonNullable<RowNode['verticalAlign']>
+                  setVerticalAlign(value)
+                  handleUpdate({ verticalAlign: value })
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="top">Top</option>
+                <option value="middle">Middle</option>
+                <option value="bottom">Bottom</option>
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={stackOnMobile}
+                onChange={(e) => {
+                  setStackOnMobile(e.target.checked)
+                  handleUpdate({ stackOnMobile: e.target.checked })
+                }}
+                className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              Stack on mobile
+            </label>
+          </div>
+
+          <div className="pt-3 border-t border-gray-200">
+            <div className="flex" style={{ gap: `${gap}px` }}>
+              {columns.map((column) => (
+                <div
+                  key={column.id}
+                  className="min-w-0 space-y-2 p-2 border border-dashed border-gray-300 rounded-md"
+                  style={{ flex: `${columnWidth(column, columns.length)} 1 0%` }}
+                >
+                  <p className="text-xs text-gray-500">{columnWidth(column, columns.length)}%</p>
+                  {renderColumnContent(column, true)}
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {COLUMN_BLOCK_TEMPLATES.map((template) => (
+                      <button
+                        key={template.label}
+                        onClick={() => handleAddChild(column.id, template.block)}
+                        className="flex items-center gap-0.5 px-1.5 py-0.5 text-xs text-gray-600 border border-gray-200 rounded hover:bg-gray-50 hover:text-blue-600"
+                      >
+                        <Plus className="w-3 h-3" />
+                        {template.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div
+      onClick={onEditToggle}
+      className={`border rounded-lg p-3 bg-white cursor-pointer ${
+        hidden ? 'border-dashed border-gray-300 opacity-50 hover:opacity-75' : 'border-gray-200 hover:border-gray-300'
+      }`}
+    >
+      <div className="flex items-center gap-2 mb-2 text-sm font-medium text-gray-700">
+        <Columns2 className="w-4 h-4 text-gray-500" />
+        Columns
+      </div>
+      <div className="flex" style={{ gap: `${gap}px` }}>
+        {columns.map((column) => (
+          <div
+            key={column.id}
+            className="min-w-0 space-y-2 pointer-events-none"
+            style={{ flex: `${columnWidth(column, columns.length)} 1 0%` }}
+          >
+            {renderColumnContent(column, false)}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -1,20 +1,26 @@
 import { useState, useEffect } from 'react'
 import type { SectionNode } from '../../../types/email'
 import type { BlockComponentProps } from '../types'
+import DarkColorInput from '../DarkColorInput'
 import { Box, X } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
 
 interface SectionBlockProps extends BlockComponentProps {
   children?: React.ReactNode
 }
 
 export default function SectionBlock({ block, isEditing, onUpdate, onDelete, children }: SectionBlockProps) {
+  const hidden = useConditionHidden(block.condition)
   const [backgroundColor, setBackgroundColor] = useState('#FFFFFF')
+  const [darkBackgroundColor, setDarkBackgroundColor] = useState('')
   const [padding, setPadding] = useState('20px')
   const [borderRadius, setBorderRadius] = useState('0px')
 
   useEffect(() => {
     if (block.type === 'section') {
       setBackgroundColor(block.backgroundColor || '#FFFFFF')
+      setDarkBackgroundColor(block.darkBackgroundColor || '')
       setPadding(block.padding || '20px')
       setBorderRadius(block.borderRadius || '0px')
     }
@@ -28,6 +34,7 @@ export default function SectionBlock({ block, isEditing, onUpdate, onDelete, chi
     const updated: SectionNode = {
       ...block,
       backgroundColor,
+      darkBackgroundColor: darkBackgroundColor || undefined,
       padding,
       borderRadius,
     }
@@ -45,13 +52,20 @@ export default function SectionBlock({ block, isEditing, onUpdate, onDelete, chi
             <Box className="w-5 h-5 text-gray-600" />
             <span className="font-medium text-sm">Section Block</span>
           </div>
-          <button
-            onClick={onDelete}
-            className="text-red-500 hover:text-red-700"
-            aria-label="Delete block"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <div className="space-y-3">
@@ -78,6 +92,13 @@ export default function SectionBlock({ block, isEditing, onUpdate, onDelete, chi
             </div>
           </div>
 
+          <DarkColorInput
+            label="Dark Mode Background"
+            value={darkBackgroundColor}
+            onChange={setDarkBackgroundColor}
+            onBlur={handleUpdate}
+          />
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               Padding: {paddingValue}px
@@ -149,7 +170,7 @@ export default function SectionBlock({ block, isEditing, onUpdate, onDelete, chi
         padding,
         borderRadius,
       }}
-      className="w-full"
+      className={`w-full ${hidden ? 'opacity-50' : ''}`}
     >
       {children}
     </div>
@@ -0,0 +1,219 @@
+import { useState, useEffect } from 'react'
+import BaseBlock from './BaseBlock'
+import type { BlockComponentProps } from '../types'
+import type { SocialLink, SocialNetwork, SocialNode } from '../../../types/email'
+import {
+  DEFAULT_SOCIAL_ICON_SIZE,
+  SOCIAL_NETWORKS,
+  getSocialLinkIconUrl,
+  getSocialLinks,
+  getSocialNetworkLabel,
+} from '../../../lib/socialIcons'
+import { ChevronDown, ChevronUp, Plus, X } from 'lucide-react'
+
+const ICON_STYLES: { value: NonNullable<SocialNode['iconStyle']>; label: string }[] = [
+  { value: 'color', label: 'Color' },
+  { value: 'mono', label: 'Mono' },
+  { value: 'outline', label: 'Outline' },
+]
+
+const ALIGN_CLASSES: Record<NonNullable<SocialNode['align']>, string> = {
+  left: 'justify-start',
+  center: 'justify-center',
+  right: 'justify-end',
+}
+
+export default function SocialBlock({
+  block,
+  isEditing,
+  onUpdate,
+  onDelete,
+  onEditToggle,
+}: BlockComponentProps) {
+  // Initialize hooks at the top - before any conditional returns
+  const [links, setLinks] = useState<SocialLink[]>([])
+  const [iconStyle, setIconStyle] = useState<NonNullable<SocialNode['iconStyle']>>('color')
+  const [iconSize, setIconSize] = useState('')
+  const [align, setAlign] = useState<NonNullable<SocialNode['align']>>('center')
+
+  // Sync state with block props
+  useEffect(() => {
+    if (block.type === 'social') {
+      setLinks(block.links || [])
+      setIconStyle(block.iconStyle || 'color')
+      setIconSize(block.iconSize ? String(block.iconSize) : '')
+      setAlign(block.align || 'center')
+    }
+  }, [block])
+
+  // Type guard to ensure we have a social block
+  if (block.type !== 'social') {
+    return null
+  }
+
+  const unusedNetwork = SOCIAL_NETWORKS.find(({ id }) => !links.some((link) => link.network === id))
+
+  const updateLink = (index: number, updates: Partial<SocialLink>) => {
+    setLinks(links.map((link, i) => (i === index ? { ...link, ...updates } : link)))
+  }
+
+  const moveLink = (index: number, offset: number) => {
+    const next = [...links]
+    const [link] = next.splice(index, 1)
+    next.splice(index + offset, 0, link)
+    setLinks(next)
+  }
+
+  const handleSave = () => {
+    onUpdate({
+      links,
+      iconStyle,
+      iconSize: Number(iconSize) > 0 ? Math.round(Number(iconSize)) : undefined,
+      align,
+    })
+    onEditToggle()
+  }
+
+  const savedLinks = getSocialLinks(block)
+
+  return (
+    <BaseBlock
+      type="social"
+      isEditing={isEditing}
+      onEditToggle={onEditToggle}
+      onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
+    >
+      {isEditing ? (
+        <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Links
+            </label>
+            <div className="space-y-2">
+              {links.map((link, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={link.network}
+                    onChange={(e) => updateLink(index, { network: e.target.value as SocialNetwork })}
+                    className="w-32 px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {SOCIAL_NETWORKS.map((network) => (
+                      <option key={network.id} value={network.id}>
+                        {network.label}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="url"
+                    value={link.url}
+                    onChange={(e) => updateLink(index, { url: e.target.value })}
+                    placeholder={SOCIAL_NETWORKS.find(({ id }) => id === link.network)?.placeholder}
+                    className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => moveLink(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-gray-400 hover:text-gray-700 rounded transition-colors disabled:opacity-30"
+                    title="Move up"
+                  >
+                    <ChevronUp size={16} />
+                  </button>
+                  <button
+                    onClick={() => moveLink(index, 1)}
+                    disabled={index === links.length - 1}
+                    className="p-1 text-gray-400 hover:text-gray-700 rounded transition-colors disabled:opacity-30"
+                    title="Move down"
+                  >
+                    <ChevronDown size={16} />
+                  </button>
+                  <button
+                    onClick={() => setLinks(links.filter((_, i) => i !== index))}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded transition-colors"
+                    title="Remove link"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            {unusedNetwork && (
+              <button
+                onClick={() => setLinks([...links, { network: unusedNetwork.id, url: '' }])}
+                className="flex items-center gap-1 mt-2 text-sm text-blue-600 hover:text-blue-700"
+              >
+                <Plus size={14} />
+                Add network
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Style:</label>
+              <select
+                value={iconStyle}
+                onChange={(e) => setIconStyle(e.target.value as NonNullable<SocialNode['iconStyle']>)}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {ICON_STYLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Size:</label>
+              <input
+                type="number"
+                value={iconSize}
+                onChange={(e) => setIconSize(e.target.value)}
+                placeholder={String(DEFAULT_SOCIAL_ICON_SIZE)}
+                min="16"
+                max="64"
+                className="w-16 px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-500">px</span>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Align:</label>
+              <select
+                value={align}
+                onChange={(e) => setAlign(e.target.value as NonNullable<SocialNode['align']>)}
+                className="px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                <option value="left">Left</option>
+                <option value="center">Center</option>
+                <option value="right">Right</option>
+              </select>
+            </div>
+          </div>
+
+          <button
+            onClick={handleSave}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      ) : savedLinks.length > 0 ? (
+        <div className={`flex flex-wrap gap-2 ${ALIGN_CLASSES[block.align || 'center']}`}>
+          {savedLinks.map((link, index) => (
+            <img
+              key={index}
+              src={getSocialLinkIconUrl(link, block.iconStyle)}
+              alt={getSocialNetworkLabel(link.network)}
+              title={link.url}
+              width={block.iconSize || DEFAULT_SOCIAL_ICON_SIZE}
+              height={block.iconSize || DEFAULT_SOCIAL_ICON_SIZE}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">Click to add social links</p>
+      )}
+    </BaseBlock>
+  )
+}
@@ -2,8 +2,11 @@ import { useState, useEffect } from 'react'
 import type { SpacerNode } from '../../../types/email'
 import type { BlockComponentProps } from '../types'
 import { MoveVertical, X } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
 
 export default function SpacerBlock({ block, isEditing, onUpdate, onDelete }: BlockComponentProps) {
+  const hidden = useConditionHidden(block.condition)
   const [height, setHeight] = useState(20)
 
   useEffect(() => {
@@ -32,13 +35,20 @@ export default function SpacerBlock({ block, isEditing, onUpdate, onDelete }: Bl
             <MoveVertical className="w-5 h-5 text-gray-600" />
             <span className="font-medium text-sm">Spacer Block</span>
           </div>
-          <button
-            onClick={onDelete}
-            className="text-red-500 hover:text-red-700"
-            aria-label="Delete block"
-          >
-            <X className="w-5 h-5" />
-          </button>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
         </div>
 
         <div className="space-y-3">
@@ -0,0 +1,211 @@
+import { useState, useEffect } from 'react'
+import BaseBlock from './BaseBlock'
+import type { BlockComponentProps } from '../types'
+import type { TableColumn } from '../../../types/email'
+import { Plus, X } from 'lucide-react'
+
+const ALIGN_OPTIONS: TableColumn['align'][] = ['left', 'center', 'right']
+
+export default function TableBlock({
+  block,
+  isEditing,
+  onUpdate,
+  onDelete,
+  onEditToggle,
+}: BlockComponentProps) {
+  // Initialize hooks at the top - before any conditional returns
+  const [dataVariable, setDataVariable] = useState('')
+  const [columns, setColumns] = useState<TableColumn[]>([])
+  const [headerBackgroundColor, setHeaderBackgroundColor] = useState('#F3F4F6')
+  const [borderColor, setBorderColor] = useState('#E5E7EB')
+
+  // Sync state with block props
+  useEffect(() => {
+    if (block.type === 'table') {
+      setDataVariable(block.dataVariable || '')
+      setColumns(block.columns || [])
+      setHeaderBackgroundColor(block.headerBackgroundColor || '#F3F4F6')
+      setBorderColor(block.borderColor || '#E5E7EB')
+    }
+  }, [block])
+
+  // Type guard to ensure we have a table block
+  if (block.type !== 'table') {
+    return null
+  }
+
+  const updateColumn = (index: number, updates: Partial<TableColumn>) => {
+    setColumns(columns.map((column, i) => (i === index ? { ...column, ...updates } : column)))
+  }
+
+  const handleSave = () => {
+    onUpdate({
+      dataVariable: dataVariable || undefined,
+      columns,
+      headerBackgroundColor,
+      borderColor,
+    })
+    onEditToggle()
+  }
+
+  return (
+    <BaseBlock
+      type="table"
+      isEditing={isEditing}
+      onEditToggle={onEditToggle}
+      onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
+    >
+      {isEditing ? (
+        <div className="space-y-3" onClick={(e) => e.stopPropagation()}>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Rows From
+            </label>
+            <div className="flex items-center border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+              <span className="pl-3 text-gray-400 font-mono text-sm">{'{{'}</span>
+              <input
+                type="text"
+                value={dataVariable}
+                // Variable names are word characters only, like {{items}}
+                onChange={(e) => setDataVariable(e.target.value.replace(/\W/g, ''))}
+                placeholder="items"
+                className="flex-1 min-w-0 px-1 py-2 font-mono text-sm focus:outline-none"
+              />
+              <span className="pr-3 text-gray-400 font-mono text-sm">{'}}'}</span>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">
+              One row is rendered per element of this array variable. Use {'{{item.field}}'} in cells to show a field of each element.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Columns
+            </label>
+            <div className="space-y-2">
+              {columns.map((column, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    value={column.header}
+                    onChange={(e) => updateColumn(index, { header: e.target.value })}
+                    placeholder="Header"
+                    className="w-28 px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <input
+                    type="text"
+                    value={column.cell}
+                    onChange={(e) => updateColumn(index, { cell: e.target.value })}
+                    placeholder="{{item.name}}"
+                    className="flex-1 min-w-0 px-2 py-1.5 text-sm font-mono border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <select
+                    value={column.align || 'left'}
+                    onChange={(e) => updateColumn(index, { align: e.target.value as TableColumn['align'] })}
+                    className="px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    {ALIGN_OPTIONS.map((align) => (
+                      <option key={align} value={align}>
+                        {align}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="number"
+                    value={column.width ?? ''}
+                    onChange={(e) => updateColumn(index, { width: Number(e.target.value) || undefined })}
+                    placeholder="auto"
+                    title="Width (%)"
+                    min="1"
+                    max="100"
+                    className="w-16 px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <button
+                    onClick={() => setColumns(columns.filter((_, i) => i !== index))}
+                    className="p-1.5 text-gray-400 hover:text-red-600 rounded transition-colors"
+                    title="Remove column"
+                  >
+                    <X size={16} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => setColumns([...columns, { header: '', cell: '' }])}
+              className="flex items-center gap-1 mt-2 text-sm text-blue-600 hover:text-blue-700"
+            >
+              <Plus size={14} />
+              Add column
+            </button>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Header:</label>
+              <input
+                type="color"
+                value={headerBackgroundColor}
+                onChange={(e) => setHeaderBackgroundColor(e.target.value)}
+                className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="text-sm font-medium text-gray-700">Borders:</label>
+              <input
+                type="color"
+                value={borderColor}
+                onChange={(e) => setBorderColor(e.target.value)}
+                className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <button
+            onClick={handleSave}
+            className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Save
+          </button>
+        </div>
+      ) : columns.length > 0 ? (
+        <div className="space-y-2">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr>
+                {columns.map((column, index) => (
+                  <th
+                    key={index}
+                    className="p-2 border-b font-bold"
+                    style={{ textAlign: column.align || 'left', backgroundColor: headerBackgroundColor, borderColor }}
+                  >
+                    {column.header}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                {columns.map((column, index) => (
+                  <td
+                    key={index}
+                    className="p-2 border-b font-mono text-xs text-gray-600"
+                    style={{ textAlign: column.align || 'left', borderColor }}
+                  >
+                    {column.cell}
+                  </td>
+                ))}
+              </tr>
+            </tbody>
+          </table>
+          <p className="text-xs text-gray-500">
+            {dataVariable ? `Repeated for each element of {{${dataVariable}}}` : 'Not bound to an array variable'}
+          </p>
+        </div>
+      ) : (
+        <p className="text-gray-500">Click to add table columns...</p>
+      )}
+    </BaseBlock>
+  )
+}
@@ -1,6 +1,11 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect } from 'react'
 import BaseBlock from './BaseBlock'
 import type { BlockComponentProps } from '../types'
+import type { TextSpan } from '../../../types/email'
+import DarkColorInput from '../DarkColorInput'
+import RichTextEditor from '../RichTextEditor'
+import InlineText from '../../email/InlineText'
+import { getTextSpans, toTextFields } from '../../../lib/richText'
 
 export default function TextBlock({
   block,
@@ -10,69 +15,79 @@ export default function TextBlock({
   onEditToggle,
 }: BlockComponentProps) {
   // Initialize hooks at the top - before any conditional returns
-  const [text, setText] = useState('')
-  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [spans, setSpans] = useState<TextSpan[]>([])
+  const [darkColor, setDarkColor] = useState('')
 
   // Sync state with block props
   useEffect(() => {
     if (block.type === 'text') {
-      setText(block.text || '')
+      setSpans(getTextSpans(block))
+      setDarkColor(block.darkColor || '')
     }
   }, [block])
 
-  // Focus textarea when editing
-  useEffect(() => {
-    if (isEditing && textareaRef.current) {
-      textareaRef.current.focus()
-    }
-  }, [isEditing])
-
   // Type guard to ensure we have a text block
   if (block.type !== 'text') {
     return null
   }
 
   const handleSave = () => {
-    onUpdate({ text })
+    onUpdate({ ...toTextFields(spans), darkColor: darkColor || undefined })
     onEditToggle()
   }
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Escape') {
       if (block.type === 'text') {
-        setText(block.text || '')
+        setSpans(getTextSpans(block))
+        setDarkColor(block.darkColor || '')
       }
       onEditToggle()
     }
   }
 
+  // Save once focus leaves the whole editor, so the other fields stay usable
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      handleSave()
+    }
+  }
+
   return (
     <BaseBlock
       type="text"
       isEditing={isEditing}
       onEditToggle={onEditToggle}
       onDelete={onDelete}
+      condition={block.condition}
+      onConditionChange={(condition) => onUpdate({ condition })}
     >
       {isEditing ? (
-        <div className="space-y-3">
-          <textarea
-            ref={textareaRef}
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            onBlur={handleSave}
+        // Clicks inside the editor, e.g. to select text, shouldn't toggle the block closed
+        <div className="space-y-3" onBlur={handleBlur} onClick={(e) => e.stopPropagation()}>
+          <RichTextEditor
+            value={spans}
+            onChange={setSpans}
             onKeyDown={handleKeyDown}
+            multiline
+            autoFocus
             placeholder="Enter text..."
-            rows={4}
-            className="w-full px-3 py-2 border border-gray-300 rounded-lg resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
+            className="w-full min-h-24 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+
+          <DarkColorInput
+            label="Dark Mode Text Color"
+            value={darkColor}
+            onChange={setDarkColor}
           />
 
           <div className="flex gap-2 text-xs text-gray-500">
-            <span>Click outside or press Esc to save</span>
+            <span>Select text to format it. Click outside or press Esc to save</span>
           </div>
         </div>
       ) : (
         <p className="text-gray-800 cursor-text whitespace-pre-wrap">
-          {text || 'Click to edit text...'}
+          {spans.length > 0 ? <InlineText spans={spans} /> : 'Click to edit text...'}
         </p>
       )}
     </BaseBlock>
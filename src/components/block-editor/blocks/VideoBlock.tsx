@@ -0,0 +1,248 @@
+import { useState, useEffect, useRef } from 'react'
+import type { VideoNode } from '../../../types/email'
+import type { BlockComponentProps } from '../types'
+import { Upload, X, Video } from 'lucide-react'
+import ConditionEditor from '../ConditionEditor'
+import { useConditionHidden } from '../../../hooks/useConditionHidden'
+import { useImageUpload } from '../../../hooks/useImageUpload'
+import { ALLOWED_IMAGE_TYPES, fitImageDimensions } from '../../../lib/uploadService'
+import { addPlayOverlay } from '../../../lib/imageProcessing'
+
+export default function VideoBlock({ block, isEditing, onUpdate, onDelete }: BlockComponentProps) {
+  const hidden = useConditionHidden(block.condition)
+  const [videoUrl, setVideoUrl] = useState('')
+  const [thumbnailSrc, setThumbnailSrc] = useState('')
+  const [alt, setAlt] = useState('')
+  const [width, setWidth] = useState(600)
+  const [height, setHeight] = useState<number | undefined>(undefined)
+  const [isComposing, setIsComposing] = useState(false)
+  const [overlayError, setOverlayError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Height over width of the thumbnail as uploaded, so resizing never compounds rounding
+  const aspectRatioRef = useRef<{ src: string; ratio: number } | null>(null)
+  const { upload, progress, isUploading, error: uploadError } = useImageUpload()
+
+  useEffect(() => {
+    if (block.type === 'video') {
+      setVideoUrl(block.videoUrl || '')
+      setThumbnailSrc(block.thumbnailSrc || '')
+      setAlt(block.alt || '')
+      setWidth(block.width || 600)
+      setHeight(block.height)
+      if (aspectRatioRef.current?.src !== block.thumbnailSrc && block.thumbnailSrc && block.width && block.height) {
+        aspectRatioRef.current = { src: block.thumbnailSrc, ratio: block.height / block.width }
+      }
+    }
+  }, [block])
+
+  if (block.type !== 'video') {
+    return null
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    // The play button is baked into the image, since emails can't layer one on top
+    setIsComposing(true)
+    setOverlayError(null)
+    let composed: File
+    try {
+      composed = (await addPlayOverlay(file, width * 2)).file
+    } catch (err) {
+      console.error('Play overlay failed:', err)
+      setOverlayError((err as Error).message)
+      return
+    } finally {
+      setIsComposing(false)
+    }
+
+    const uploaded = await upload(composed)
+    if (!uploaded) return
+
+    const dimensions = fitImageDimensions(uploaded, width)
+    aspectRatioRef.current = { src: uploaded.url, ratio: uploaded.height / uploaded.width }
+    setThumbnailSrc(uploaded.url)
+    setWidth(dimensions.width)
+    setHeight(dimensions.height)
+    onUpdate({ ...block, thumbnailSrc: uploaded.url, ...dimensions })
+  }
+
+  const handleUpdate = () => {
+    const updated: VideoNode = {
+      ...block,
+      videoUrl,
+      thumbnailSrc,
+      alt,
+      width,
+      height: height || undefined,
+    }
+    onUpdate(updated)
+  }
+
+  const isBusy = isComposing || isUploading
+
+  if (isEditing) {
+    return (
+      <div className="border-2 border-blue-500 rounded-lg p-4 bg-white">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <Video className="w-5 h-5 text-gray-600" />
+            <span className="font-medium text-sm">Video Block</span>
+          </div>
+          <div className="flex items-center gap-3">
+            <ConditionEditor
+              condition={block.condition}
+              onChange={(condition) => onUpdate({ condition })}
+              hidden={hidden}
+            />
+            <button
+              onClick={onDelete}
+              className="text-red-500 hover:text-red-700"
+              aria-label="Delete block"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Video URL
+            </label>
+            <input
+              type="url"
+              value={videoUrl}
+              onChange={(e) => setVideoUrl(e.target.value)}
+              onBlur={handleUpdate}
+              placeholder="https://www.youtube.com/watch?v=..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Email clients can't play video, so the thumbnail links here instead.
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Thumbnail
+            </label>
+            {thumbnailSrc ? (
+              <div className="relative">
+                <img
+                  src={thumbnailSrc}
+                  alt={alt || 'Preview'}
+                  className="w-full max-w-md rounded border"
+                  style={{ maxHeight: '300px', objectFit: 'contain' }}
+                />
+                <button
+                  onClick={() => {
+                    setThumbnailSrc('')
+                    onUpdate({ ...block, thumbnailSrc: '' })
+                  }}
+                  className="absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full hover:bg-red-600"
+                  aria-label="Remove thumbnail"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+            ) : (
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isBusy}
+                className="w-full max-w-md border-2 border-dashed border-gray-300 rounded-lg p-8 hover:border-blue-500 transition-colors flex flex-col items-center gap-2 disabled:hover:border-gray-300"
+              >
+                <Upload className="w-8 h-8 text-gray-400" />
+                {isComposing ? (
+                  <span className="text-sm text-gray-600">Adding play button...</span>
+                ) : isUploading ? (
+                  <>
+                    <span className="text-sm text-gray-600">Uploading... {progress}%</span>
+                    <div className="w-full h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-blue-600 transition-all" style={{ width: `${progress}%` }} />
+                    </div>
+                  </>
+                ) : (
+                  <span className="text-sm text-gray-600">Click to upload a thumbnail; a play button is added for you</span>
+                )}
+              </button>
+            )}
+            {(overlayError || uploadError) && (
+              <p className="mt-1 text-sm text-red-600">{overlayError || uploadError}</p>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ALLOWED_IMAGE_TYPES.join(',')}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Alt Text
+            </label>
+            <input
+              type="text"
+              value={alt}
+              onChange={(e) => setAlt(e.target.value)}
+              onBlur={handleUpdate}
+              placeholder="Play video: ..."
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Width (px)
+            </label>
+            <input
+              type="number"
+              value={width}
+              onChange={(e) => {
+                const next = Number(e.target.value)
+                // Keep the thumbnail's aspect ratio, since it can't be cropped after upload
+                const aspectRatio = aspectRatioRef.current
+                if (next > 0 && aspectRatio?.src === thumbnailSrc) {
+                  setHeight(Math.round(next * aspectRatio.ratio))
+                }
+                setWidth(next)
+              }}
+              onBlur={handleUpdate}
+              min="50"
+              max="800"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={`my-4 ${hidden ? 'opacity-50' : ''}`}>
+      {thumbnailSrc ? (
+        <div className="text-center">
+          <img
+            src={thumbnailSrc}
+            alt={alt || ''}
+            width={width}
+            height={height}
+            className="mx-auto"
+          />
+          <p className="mt-1 text-xs text-gray-500 truncate">{videoUrl || 'No video URL set'}</p>
+        </div>
+      ) : (
+        <div className="border-2 border-dashed border-gray-300 rounded-lg p-8 flex items-center justify-center">
+          <div className="text-center text-gray-400">
+            <Video className="w-12 h-12 mx-auto mb-2" />
+            <p className="text-sm">No thumbnail uploaded</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,3 +6,10 @@ export { default as ImageBlock } from './ImageBlock'
 export { default as DividerBlock } from './DividerBlock'
 export { default as SpacerBlock } from './SpacerBlock'
 export { default as SectionBlock } from './SectionBlock'
+export { default as RowBlock } from './RowBlock'
+export { default as ListBlock } from './ListBlock'
+export { default as TableBlock } from './TableBlock'
+export { default as RepeatBlock } from './RepeatBlock'
+export { default as FooterBlock } from './FooterBlock'
+export { default as SocialBlock } from './SocialBlock'
+export { default as VideoBlock } from './VideoBlock'
@@ -0,0 +1,105 @@
+import { useMemo, useState } from 'react'
+import { AlertCircle, AlertTriangle, CheckCircle, Settings } from 'lucide-react'
+import { LINT_RULES, getLintRule, lintEmail } from '../../lib/compatibilityLinter'
+import type { EmailJSON } from '../../types/email'
+
+interface CompatibilityPanelProps {
+  email: EmailJSON
+  disabledRules: string[]
+  /** Omitted when the email has no project to store rule settings on */
+  onToggleRule?: (ruleId: string, enabled: boolean) => void
+  onSelectBlock: (nodeId: string) => void
+}
+
+export default function CompatibilityPanel({
+  email,
+  disabledRules,
+  onToggleRule,
+  onSelectBlock,
+}: CompatibilityPanelProps) {
+  const [showRules, setShowRules] = useState(false)
+  const issues = useMemo(() => lintEmail(email, disabledRules), [email, disabledRules])
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-700">
+          Client Compatibility
+          {issues.length > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+            </span>
+          )}
+        </h3>
+        <button
+          onClick={() => setShowRules(!showRules)}
+          className="p-1 text-gray-500 hover:text-gray-900 rounded"
+          title="Rules"
+        >
+          <Settings size={16} />
+        </button>
+      </div>
+
+      {showRules && (
+        <div className="mb-3 pb-3 border-b border-gray-200 space-y-2">
+          {LINT_RULES.map((rule) => (
+            <label key={rule.id} className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={!disabledRules.includes(rule.id)}
+                disabled={!onToggleRule}
+                onChange={(e) => onToggleRule?.(rule.id, e.target.checked)}
+                className="mt-0.5 w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+              />
+              <span>
+                <span className="text-gray-900">{rule.label}</span>
+                <span className="block text-xs text-gray-500">{rule.description}</span>
+              </span>
+            </label>
+          ))}
+          {!onToggleRule && (
+            <p className="text-xs text-gray-500">
+              Add this email to a project to turn rules off.
+            </p>
+          )}
+        </div>
+      )}
+
+      {issues.length === 0 ? (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircle size={16} />
+          <span>No compatibility issues found</span>
+        </div>
+      ) : (
+        <ul className="space-y-1">
+          {issues.map((issue, index) => {
+            const rule = getLintRule(issue.ruleId)
+            const Icon = issue.severity === 'error' ? AlertCircle : AlertTriangle
+            return (
+              <li key={`${issue.ruleId}-${issue.nodeId ?? index}`}>
+                <button
+                  onClick={() => issue.nodeId && onSelectBlock(issue.nodeId)}
+                  disabled={!issue.nodeId}
+                  className="w-full flex items-start gap-2 p-2 text-left rounded hover:bg-gray-50 disabled:hover:bg-transparent disabled:cursor-default"
+                >
+                  <Icon
+                    size={16}
+                    className={`mt-0.5 shrink-0 ${
+                      issue.severity === 'error' ? 'text-red-600' : 'text-yellow-600'
+                    }`}
+                  />
+                  <span className="text-sm">
+                    <span className="text-gray-900">{issue.message}</span>
+                    {rule && (
+                      <span className="block text-xs text-gray-500">{rule.clients.join(', ')}</span>
+                    )}
+                  </span>
+                </button>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import type { ReactNode } from 'react'
+import { getPreviewDevice, getScreenSize } from '../../lib/previewDevices'
+import type { PreviewDeviceId } from '../../lib/previewDevices'
+
+interface DeviceFrameProps {
+  deviceId: PreviewDeviceId
+  rotated: boolean
+  children: ReactNode
+}
+
+export default function DeviceFrame({ deviceId, rotated, children }: DeviceFrameProps) {
+  const device = getPreviewDevice(deviceId)
+  const { width, height } = getScreenSize(device, rotated)
+
+  // The screen is a CSS container, so preview blocks respond to the frame
+  // width with @container variants instead of the browser viewport
+  if (!width || !height) {
+    return <div className="@container">{children}</div>
+  }
+
+  const bezel = device.id === 'tablet' ? 'border-[14px] rounded-[2rem]' : 'border-[10px] rounded-[2.5rem]'
+
+  return (
+    <div className="overflow-x-auto pb-2">
+      <div
+        className={`mx-auto bg-gray-900 border-gray-900 shadow-lg transition-all ${bezel}`}
+        style={{ width: width + (device.id === 'tablet' ? 28 : 20) }}
+      >
+        <div
+          className="@container bg-gray-50 overflow-y-auto overflow-x-hidden rounded-[1.5rem]"
+          style={{ width, height }}
+        >
+          {children}
+        </div>
+      </div>
+      <p className="mt-2 text-center text-xs text-gray-500">
+        {width} × {height}
+      </p>
+    </div>
+  )
+}
@@ -0,0 +1,56 @@
+import { Monitor, RotateCw, Smartphone, Tablet } from 'lucide-react'
+import { PREVIEW_DEVICES, getPreviewDevice } from '../../lib/previewDevices'
+import type { PreviewDeviceId } from '../../lib/previewDevices'
+
+interface DeviceToolbarProps {
+  deviceId: PreviewDeviceId
+  rotated: boolean
+  onDeviceChange: (deviceId: PreviewDeviceId) => void
+  onRotate: () => void
+}
+
+const DEVICE_ICONS: Record<PreviewDeviceId, typeof Monitor> = {
+  'mobile-small': Smartphone,
+  mobile: Smartphone,
+  tablet: Tablet,
+  full: Monitor,
+}
+
+export default function DeviceToolbar({ deviceId, rotated, onDeviceChange, onRotate }: DeviceToolbarProps) {
+  const canRotate = !!getPreviewDevice(deviceId).height
+
+  return (
+    <div className="flex items-center gap-1">
+      {PREVIEW_DEVICES.map((device) => {
+        const Icon = DEVICE_ICONS[device.id]
+        return (
+          <button
+            key={device.id}
+            onClick={() => onDeviceChange(device.id)}
+            title={device.label}
+            className={`flex items-center gap-1 p-1.5 rounded transition-colors ${
+              deviceId === device.id
+                ? 'bg-blue-100 text-blue-600'
+                : 'text-gray-500 hover:bg-gray-200 hover:text-gray-900'
+            }`}
+          >
+            <Icon size={16} />
+            {device.width && <span className="text-xs">{device.width}</span>}
+          </button>
+        )
+      })}
+      <button
+        onClick={onRotate}
+        disabled={!canRotate}
+        title={rotated ? 'Portrait' : 'Landscape'}
+        className={`p-1.5 rounded transition-colors disabled:opacity-40 disabled:hover:bg-transparent ${
+          rotated && canRotate
+            ? 'bg-blue-100 text-blue-600'
+            : 'text-gray-500 hover:bg-gray-200 hover:text-gray-900'
+        }`}
+      >
+        <RotateCw size={16} />
+      </button>
+    </div>
+  )
+}
@@ -1,7 +1,18 @@
 import { useState } from 'react'
-import { Copy, Download, Send } from 'lucide-react'
+import { AlertTriangle, Copy, Download, Send } from 'lucide-react'
 import { useSendTestEmail } from '../../hooks/useEmails'
 import type { Email } from '../../types/email'
+import {
+  EXPORT_FORMATS,
+  downloadFile,
+  getExportFileName,
+  getExportFormat,
+  renderExportFile,
+} from '../../lib/exportFormats'
+import type { ExportFormatId } from '../../lib/exportFormats'
+import { checkCompliance } from '../../lib/compliance'
+import { checkSocialIconHosting } from '../../lib/socialIcons'
+import EmlExportDialog from './EmlExportDialog'
 
 interface EmailActionsProps {
   email: Email
@@ -11,26 +22,69 @@ interface EmailActionsProps {
 export default function EmailActions({ email, testVariables }: EmailActionsProps) {
   const [testEmail, setTestEmail] = useState('')
   const [showTestDialog, setShowTestDialog] = useState(false)
+  const [exportFormatId, setExportFormatId] = useState<ExportFormatId>('html')
+  const [isExporting, setIsExporting] = useState(false)
+  const [showEmlDialog, setShowEmlDialog] = useState(false)
   const sendTest = useSendTestEmail()
+  const exportFormat = getExportFormat(exportFormatId)
+  const complianceProblems = checkCompliance(email.jsonStructure)
 
-  const handleCopyHTML = async () => {
-    // TODO: Render email to HTML first
-    const htmlContent = JSON.stringify(email.jsonStructure, null, 2)
-    await navigator.clipboard.writeText(htmlContent)
-    alert('Email JSON copied to clipboard!')
+  // Sending a marketing email without a complete footer breaks CAN-SPAM and
+  // GDPR, and social icons on a private host show up broken for every
+  // recipient, so exporting either takes an explicit override. The JSON
+  // source isn't sendable as is and can always be exported, and the ZIP
+  // bundle packages the icons with the email.
+  const confirmExport = () => {
+    if (exportFormat.id === 'json') return true
+    const iconHostingProblem = exportFormat.id === 'zip' ? null : checkSocialIconHosting(email.jsonStructure)
+    if (complianceProblems.length > 0) {
+      const confirmed = confirm(
+        `This marketing email is not CAN-SPAM/GDPR compliant:\n\n${complianceProblems.map((problem) => `- ${problem}`).join('\n')}\n\n` +
+          'Add a footer block, or mark the email as transactional if it is not marketing. Export anyway?'
+      )
+      if (!confirmed) return false
+    }
+    return !iconHostingProblem || confirm(`${iconHostingProblem}\n\nExport anyway?`)
   }
 
-  const handleDownload = () => {
-    const content = JSON.stringify(email.jsonStructure, null, 2)
-    const blob = new Blob([content], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `${email.meta.subject.replace(/\s+/g, '-')}.json`
-    document.body.appendChild(a)
-    a.click()
-    document.body.removeChild(a)
-    URL.revokeObjectURL(url)
+  const handleCopy = async () => {
+    if (!exportFormat.render || !confirmExport()) return
+    try {
+      const content = exportFormat.render(email)
+      await navigator.clipboard.writeText(content)
+      alert(`Email ${exportFormat.label} copied to clipboard!`)
+    } catch (error) {
+      console.error('Copy failed:', error)
+      alert(`Failed to copy email: ${(error as Error).message}`)
+    }
+  }
+
+  const handleDownload = async () => {
+    if (!confirmExport()) return
+
+    // .eml export has sender and List-Unsubscribe options to fill in first
+    if (exportFormat.id === 'eml') {
+      setShowEmlDialog(true)
+      return
+    }
+
+    setIsExporting(true)
+    try {
+      const { blob, warnings } = await renderExportFile(email, exportFormat, testVariables)
+      downloadFile(
+        blob,
+        getExportFileName(email, exportFormat),
+        exportFormat.mimeType
+      )
+      if (warnings.length > 0) {
+        alert(`Exported, but these images could not be included and still point to their original URL:\n${warnings.join('\n')}`)
+      }
+    } catch (error) {
+      console.error('Export failed:', error)
+      alert(`Failed to export email: ${(error as Error).message}`)
+    } finally {
+      setIsExporting(false)
+    }
   }
 
   const handleSendTest = () => {
@@ -60,10 +114,34 @@ export default function EmailActions({ email, testVariables }: EmailActionsProps
 
   return (
     <div className="flex gap-2">
+      {complianceProblems.length > 0 && (
+        <div
+          className="flex items-center gap-2 px-3 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg"
+          title={complianceProblems.join('\n')}
+        >
+          <AlertTriangle size={16} />
+          <span>Not compliant for marketing</span>
+        </div>
+      )}
+
+      <select
+        value={exportFormatId}
+        onChange={(e) => setExportFormatId(e.target.value as ExportFormatId)}
+        className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        title="Export format"
+      >
+        {EXPORT_FORMATS.map((format) => (
+          <option key={format.id} value={format.id}>
+            {format.label}
+          </option>
+        ))}
+      </select>
+
       <button
-        onClick={handleCopyHTML}
-        className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-        title="Copy JSON"
+        onClick={handleCopy}
+        disabled={!exportFormat.render}
+        className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:hover:bg-transparent"
+        title={exportFormat.render ? `Copy ${exportFormat.label}` : `${exportFormat.label} can only be downloaded`}
       >
         <Copy size={16} />
         <span className="text-sm">Copy</span>
@@ -71,11 +149,12 @@ export default function EmailActions({ email, testVariables }: EmailActionsProps
 
       <button
         onClick={handleDownload}
-        className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
-        title="Download JSON"
+        disabled={isExporting}
+        className="flex items-center gap-2 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+        title={`Download ${exportFormat.label}`}
       >
         <Download size={16} />
-        <span className="text-sm">Download</span>
+        <span className="text-sm">{isExporting ? 'Exporting...' : 'Download'}</span>
       </button>
 
       <button
@@ -87,6 +166,14 @@ export default function EmailActions({ email, testVariables }: EmailActionsProps
         <span className="text-sm">Send Test</span>
       </button>
 
+      {showEmlDialog && (
+        <EmlExportDialog
+          email={email}
+          testVariables={testVariables}
+          onClose={() => setShowEmlDialog(false)}
+        />
+      )}
+
       {/* Test Email Dialog */}
       {showTestDialog && (
         <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
@@ -1,28 +1,85 @@
-import type { EmailNode } from '../../types/email'
+import type { CSSProperties } from 'react'
+import type { EmailNode, RowNode, SocialNode } from '../../types/email'
 import { substituteVariables } from '../../lib/variableParser'
+import { getTextSpans, substituteSpans } from '../../lib/richText'
+import { getMarkedListItems } from '../../lib/listItems'
+import { bindItemFields, parseArrayVariable, substituteItemFields } from '../../lib/arrayVariables'
+import { evaluateCondition } from '../../lib/conditions'
+import {
+  DEFAULT_SOCIAL_ICON_SIZE,
+  getSocialLinkIconUrl,
+  getSocialLinks,
+  getSocialNetworkLabel,
+} from '../../lib/socialIcons'
+import InlineText from './InlineText'
+import { APPLE_MAIL_DARK_PALETTE, GMAIL_INVERSION_FILTER } from '../../lib/darkMode'
+import type { DarkModePreview } from '../../lib/darkMode'
+
+// Row alignment only applies once columns sit side by side, so stacked rows
+// use the container-query variant and keep full-width columns on small screens
+const ROW_ALIGN_CLASSES: Record<NonNullable<RowNode['verticalAlign']>, { row: string; stacked: string }> = {
+  top: { row: 'items-start', stacked: '@min-[480px]:items-start' },
+  middle: { row: 'items-center', stacked: '@min-[480px]:items-center' },
+  bottom: { row: 'items-end', stacked: '@min-[480px]:items-end' },
+}
+
+const SOCIAL_ALIGN_CLASSES: Record<NonNullable<SocialNode['align']>, string> = {
+  left: 'justify-start',
+  center: 'justify-center',
+  right: 'justify-end',
+}
 
 interface EmailPreviewProps {
   blocks: EmailNode[]
   variables?: Record<string, string>
+  darkMode?: DarkModePreview
+  /** The root section's colours, shown around the blocks */
+  backgroundColor?: string
+  darkBackgroundColor?: string
 }
 
-export default function EmailPreview({ blocks, variables = {} }: EmailPreviewProps) {
+export default function EmailPreview({
+  blocks,
+  variables = {},
+  darkMode = 'off',
+  backgroundColor,
+  darkBackgroundColor,
+}: EmailPreviewProps) {
+  // Apple Mail applies the email's own dark-mode overrides on top of its dark
+  // palette, leaving other colours as they are; Gmail inverts everything instead
+  const useDarkOverrides = darkMode === 'apple-mail'
+
   const renderBlock = (block: EmailNode): React.ReactNode => {
+    // Blocks whose condition fails for the test values are left out, as a sending service would
+    if (!evaluateCondition(block.condition, variables)) return null
+
     switch (block.type) {
       case 'heading': {
-        const text = substituteVariables(block.text || '', variables)
+        const spans = substituteSpans(getTextSpans(block), variables)
         const level = block.level || 1
         const headingClass = level === 1 ? 'text-3xl' : level === 2 ? 'text-2xl' : 'text-xl'
         return (
-          <div key={block.id} className={`font-bold mb-4 ${headingClass}`}>
-            {text}
+          <div
+            key={block.id}
+            className={`font-bold mb-4 ${headingClass}`}
+            style={{ color: useDarkOverrides ? block.darkColor : undefined }}
+          >
+            <InlineText spans={spans} />
           </div>
         )
       }
 
       case 'text': {
-        const text = substituteVariables(block.text || '', variables)
-        return <p key={block.id} className="mb-4">{text}</p>
+        const spans = substituteSpans(getTextSpans(block), variables)
+        return (
+          <p
+            key={block.id}
+            className="mb-4"
+            style={{ color: useDarkOverrides ? block.darkColor : undefined }}
+          >
+            <InlineText spans={spans} />
+          </p>
+        )
       }
 
       case 'button': {
@@ -30,9 +87,14 @@ export default function EmailPreview({ blocks, variables = {} }: EmailPreviewPro
         return (
           <div key={block.id} className="mb-4">
             <a
-              href={block.href}
+              href={block.href ? substituteVariables(block.href, variables) : undefined}
               target={block.target}
               className="inline-block px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              style={
+                useDarkOverrides
+                  ? { backgroundColor: block.darkBackgroundColor, color: block.darkColor }
+                  : undefined
+              }
             >
               {label}
             </a>
@@ -40,18 +102,123 @@ export default function EmailPreview({ blocks, variables = {} }: EmailPreviewPro
         )
       }
 
+      case 'list':
+        return (
+          <div key={block.id} className="mb-4">
+            {getMarkedListItems(block).map((item, index) => (
+              <div key={index} className="flex" style={{ paddingLeft: `${item.level * 24}px` }}>
+                <span
+                  className={`shrink-0 ${block.listStyle === 'ordered' ? 'w-8' : 'w-5'}`}
+                  style={{ color: block.bulletColor }}
+                >
+                  {item.marker}
+                </span>
+                <span className="min-w-0">{substituteVariables(item.text, variables)}</span>
+              </div>
+            ))}
+          </div>
+        )
+
+      case 'table': {
+        const columns = block.columns || []
+        const borderColor = block.borderColor || '#E5E7EB'
+        // Without valid test data the row template is shown once, like an unfilled variable
+        const items = block.dataVariable ? parseArrayVariable(variables[block.dataVariable]) : null
+        const renderCells = (item?: unknown) =>
+          columns.map((column, index) => (
+            <td
+              key={index}
+              className="p-2 border-b align-top"
+              style={{ textAlign: column.align || 'left', borderColor }}
+            >
+              {substituteVariables(items ? substituteItemFields(column.cell, item) : column.cell, variables)}
+            </td>
+          ))
+        return columns.length > 0 ? (
+          <table key={block.id} className="w-full border-collapse text-sm mb-4">
+            <thead>
+              <tr>
+                {columns.map((column, index) => (
+                  <th
+                    key={index}
+                    scope="col"
+                    className="p-2 border-b font-bold"
+                    style={{
+                      textAlign: column.align || 'left',
+                      width: column.width ? `${column.width}%` : undefined,
+                      backgroundColor: block.headerBackgroundColor || '#F3F4F6',
+                      borderColor,
+                    }}
+                  >
+                    {substituteVariables(column.header, variables)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {items ? (
+                items.map((item, index) => <tr key={index}>{renderCells(item)}</tr>)
+              ) : (
+                <tr>{renderCells()}</tr>
+              )}
+            </tbody>
+          </table>
+        ) : null
+      }
+
       case 'image':
         return block.src ? (
           <img
             key={block.id}
-            src={block.src}
+            src={substituteVariables(block.src, variables)}
             alt={block.alt}
             width={block.width}
             height={block.height}
             className="max-w-full h-auto mb-4"
+            style={{ filter: darkMode === 'gmail' ? GMAIL_INVERSION_FILTER : undefined }}
           />
         ) : null
 
+      case 'video':
+        return block.thumbnailSrc ? (
+          <a
+            key={block.id}
+            href={block.videoUrl ? substituteVariables(block.videoUrl, variables) : undefined}
+            target="_blank"
+            className="block mb-4"
+          >
+            <img
+              src={substituteVariables(block.thumbnailSrc, variables)}
+              alt={block.alt}
+              width={block.width}
+              height={block.height}
+              className="block max-w-full h-auto"
+              style={{ filter: darkMode === 'gmail' ? GMAIL_INVERSION_FILTER : undefined }}
+            />
+          </a>
+        ) : null
+
+      case 'social': {
+        const links = getSocialLinks(block)
+        const size = block.iconSize || DEFAULT_SOCIAL_ICON_SIZE
+        return links.length > 0 ? (
+          <div key={block.id} className={`flex flex-wrap gap-2 mb-4 ${SOCIAL_ALIGN_CLASSES[block.align || 'center']}`}>
+            {links.map((link, index) => (
+              <a key={index} href={substituteVariables(link.url, variables)} target="_blank">
+                <img
+                  src={getSocialLinkIconUrl(link, block.iconStyle)}
+                  alt={getSocialNetworkLabel(link.network)}
+                  width={size}
+                  height={size}
+                  className="block"
+                  style={{ filter: darkMode === 'gmail' ? GMAIL_INVERSION_FILTER : undefined }}
+                />
+              </a>
+            ))}
+          </div>
+        ) : null
+      }
+
       case 'divider':
         return (
           <hr
@@ -68,12 +235,44 @@ export default function EmailPreview({ blocks, variables = {} }: EmailPreviewPro
       case 'spacer':
         return <div key={block.id} style={{ height: `${block.height || 20}px` }} />
 
+      case 'footer': {
+        const paragraphs = [block.legalText, block.postalAddress]
+          .map((text) => substituteVariables(text?.trim() || '', variables))
+          .filter(Boolean)
+        const unsubscribeUrl = block.unsubscribeVariable ? variables[block.unsubscribeVariable] : undefined
+        return (
+          <div key={block.id} className="pt-6 mb-4 border-t border-gray-200 text-center text-xs text-gray-500 space-y-2">
+            {paragraphs.map((text, index) => (
+              <p key={index} className="whitespace-pre-line">
+                {text}
+              </p>
+            ))}
+            {(block.unsubscribeVariable || block.preferencesUrl) && (
+              <p className="space-x-2">
+                {block.unsubscribeVariable && (
+                  <a href={unsubscribeUrl || '#'} target="_blank" className="underline">
+                    Unsubscribe
+                  </a>
+                )}
+                {block.unsubscribeVariable && block.preferencesUrl && <span>&middot;</span>}
+                {block.preferencesUrl && (
+                  <a href={substituteVariables(block.preferencesUrl, variables)} target="_blank" className="underline">
+                    Manage preferences
+                  </a>
+                )}
+              </p>
+            )}
+          </div>
+        )
+      }
+
       case 'section':
         return (
           <div
             key={block.id}
             style={{
-              backgroundColor: block.backgroundColor || '#FFFFFF',
+              backgroundColor:
+                (useDarkOverrides && block.darkBackgroundColor) || block.backgroundColor || '#FFFFFF',
               padding: block.padding || '20px',
               borderRadius: block.borderRadius || '0px',
             }}
@@ -83,13 +282,63 @@ export default function EmailPreview({ blocks, variables = {} }: EmailPreviewPro
           </div>
         )
 
+      case 'row': {
+        const stack = block.stackOnMobile !== false
+        const align = ROW_ALIGN_CLASSES[block.verticalAlign || 'top']
+        const columns = block.children || []
+        return (
+          <div
+            key={block.id}
+            className={`flex ${stack ? `flex-col @min-[480px]:flex-row ${align.stacked}` : align.row}`}
+            style={{ gap: `${block.gap ?? 16}px` }}
+          >
+            {columns.map((column) => (
+              <div
+                key={column.id}
+                className={`min-w-0 ${stack ? '@min-[480px]:flex-[var(--column-width)_1_0%]' : 'flex-[var(--column-width)_1_0%]'}`}
+                style={
+                  {
+                    '--column-width':
+                      (column.type === 'column' && column.width) || 100 / columns.length,
+                  } as CSSProperties
+                }
+              >
+                {column.type === 'column' ? column.children?.map(renderBlock) : renderBlock(column)}
+              </div>
+            ))}
+          </div>
+        )
+      }
+
+      case 'repeat': {
+        const children = block.children || []
+        // Without valid test data the blocks are shown once, like an unfilled variable
+        const items = block.dataVariable ? parseArrayVariable(variables[block.dataVariable]) : null
+        if (!items) return <div key={block.id}>{children.map(renderBlock)}</div>
+        if (items.length === 0) return block.emptyState ? renderBlock(block.emptyState) : null
+        return (
+          <div key={block.id}>
+            {items.slice(0, block.maxItems).map((item, index) => (
+              <div key={index}>{children.map((child) => renderBlock(bindItemFields(child, item)))}</div>
+            ))}
+          </div>
+        )
+      }
+
       default:
         return null
     }
   }
 
   return (
-    <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200">
+    <div
+      className="p-8 @max-md:p-4 rounded-lg shadow-sm border border-gray-200 break-words"
+      style={
+        useDarkOverrides
+          ? { ...APPLE_MAIL_DARK_PALETTE, backgroundColor: darkBackgroundColor || APPLE_MAIL_DARK_PALETTE.backgroundColor }
+          : { backgroundColor: backgroundColor || '#FFFFFF', filter: darkMode === 'gmail' ? GMAIL_INVERSION_FILTER : undefined }
+      }
+    >
       {blocks.map(renderBlock)}
     </div>
   )
@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { DEFAULT_EML_OPTIONS, buildEmlMessage } from '../../lib/emlExporter'
+import type { EmlOptions } from '../../lib/emlExporter'
+import { downloadFile, getExportFileName, getExportFormat } from '../../lib/exportFormats'
+import type { Email } from '../../types/email'
+
+interface EmlExportDialogProps {
+  email: Email
+  testVariables: Record<string, string>
+  onClose: () => void
+}
+
+const STORAGE_KEY = 'eml_export_options'
+
+function loadOptions(): EmlOptions {
+  try {
+    return { ...DEFAULT_EML_OPTIONS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') }
+  } catch {
+    return DEFAULT_EML_OPTIONS
+  }
+}
+
+export default function EmlExportDialog({ email, testVariables, onClose }: EmlExportDialogProps) {
+  const [options, setOptions] = useState<EmlOptions>(loadOptions)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const update = <K extends keyof EmlOptions>(key: K, value: EmlOptions[K]) => {
+    setOptions({ ...options, [key]: value })
+  }
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(options))
+
+    try {
+      const { content, warnings } = await buildEmlMessage(email, options, testVariables)
+      const format = getExportFormat('eml')
+      downloadFile(content, getExportFileName(email, format), format.mimeType)
+      if (warnings.length > 0) {
+        alert(`Exported, but these images could not be attached and still point to their original URL:\n${warnings.join('\n')}`)
+      }
+      onClose()
+    } catch (error) {
+      console.error('EML export failed:', error)
+      alert('Failed to export email')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const inputClass =
+    'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-6 max-w-md w-full">
+        <h3 className="text-lg font-semibold mb-4">Export .eml Message</h3>
+
+        <div className="space-y-3 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+            <input
+              type="text"
+              value={options.from}
+              onChange={(e) => update('from', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+            <input
+              type="text"
+              value={options.to}
+              onChange={(e) => update('to', e.target.value)}
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Unsubscribe URL
+            </label>
+            <input
+              type="url"
+              value={options.unsubscribeUrl}
+              onChange={(e) => update('unsubscribeUrl', e.target.value)}
+              placeholder="https://example.com/unsubscribe"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Unsubscribe email
+            </label>
+            <input
+              type="text"
+              value={options.unsubscribeMailto}
+              onChange={(e) => update('unsubscribeMailto', e.target.value)}
+              placeholder="unsubscribe@example.com"
+              className={inputClass}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.oneClickUnsubscribe}
+              onChange={(e) => update('oneClickUnsubscribe', e.target.checked)}
+              disabled={!options.unsubscribeUrl}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            One-click unsubscribe (List-Unsubscribe-Post)
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={options.embedImages}
+              onChange={(e) => update('embedImages', e.target.checked)}
+              className="w-4 h-4 text-blue-600 rounded focus:ring-blue-500"
+            />
+            Attach images inline (CID)
+          </label>
+        </div>
+
+        <div className="flex gap-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isExporting}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+          >
+            {isExporting ? 'Exporting...' : 'Download'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,38 @@
+import { Fragment } from 'react'
+import type { TextSpan } from '../../types/email'
+
+interface InlineTextProps {
+  spans: TextSpan[]
+}
+
+export default function InlineText({ spans }: InlineTextProps) {
+  return (
+    <>
+      {spans.map((span, index) => {
+        const marks = span.marks || {}
+        let content: React.ReactNode = span.text
+        if (marks.bold) content = <strong>{content}</strong>
+        if (marks.italic) content = <em>{content}</em>
+        if (marks.underline) content = <u>{content}</u>
+
+        if (marks.link) {
+          return (
+            <a
+              key={index}
+              href={marks.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="underline"
+              style={{ color: marks.color || '#2563EB' }}
+            >
+              {content}
+            </a>
+          )
+        }
+
+        if (marks.color) content = <span style={{ color: marks.color }}>{content}</span>
+        return <Fragment key={index}>{content}</Fragment>
+      })}
+    </>
+  )
+}
@@ -0,0 +1,21 @@
+import type { EmailNode } from '../../types/email'
+import { renderFilledPlainText } from '../../lib/plainTextRenderer'
+
+interface PlainTextPreviewProps {
+  blocks: EmailNode[]
+  variables?: Record<string, string>
+}
+
+export default function PlainTextPreview({ blocks, variables = {} }: PlainTextPreviewProps) {
+  const text = renderFilledPlainText(blocks, variables)
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-sm border border-gray-200 overflow-x-auto">
+      {text ? (
+        <pre className="font-mono text-sm text-gray-800 whitespace-pre">{text}</pre>
+      ) : (
+        <p className="text-sm text-gray-500">No text content yet.</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronUp } from 'lucide-react'
+import { GMAIL_CLIP_BYTES, analyzeEmailSize, formatBytes } from '../../lib/emailSize'
+import type { EmailJSON } from '../../types/email'
+
+interface SizeBudgetMeterProps {
+  email: EmailJSON
+  onSelectBlock: (nodeId: string) => void
+}
+
+const STATUS_STYLES = {
+  ok: { bar: 'bg-green-500', text: 'text-gray-600' },
+  warning: { bar: 'bg-yellow-500', text: 'text-yellow-700' },
+  clipped: { bar: 'bg-red-500', text: 'text-red-600' },
+}
+
+export default function SizeBudgetMeter({ email, onSelectBlock }: SizeBudgetMeterProps) {
+  const [showBreakdown, setShowBreakdown] = useState(false)
+  const report = useMemo(() => analyzeEmailSize(email), [email])
+
+  const percent = Math.min((report.totalBytes / GMAIL_CLIP_BYTES) * 100, 100)
+  const styles = STATUS_STYLES[report.status]
+  const largestBlocks = [...report.blocks].sort((a, b) => b.bytes - a.bytes)
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setShowBreakdown(!showBreakdown)}
+        className="flex items-center gap-2 px-2 py-1 rounded hover:bg-gray-200 transition-colors"
+        title="Gmail clips messages over 102KB"
+      >
+        <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden">
+          <div className={`h-full ${styles.bar}`} style={{ width: `${percent}%` }} />
+        </div>
+        <span className={`text-xs font-medium ${styles.text}`}>
+          {formatBytes(report.totalBytes)} / {formatBytes(GMAIL_CLIP_BYTES)}
+        </span>
+        {showBreakdown ? <ChevronUp size={14} /> : <ChevronDown size={14} />}
+      </button>
+
+      {showBreakdown && (
+        <div className="absolute right-0 top-full mt-1 w-80 bg-white border border-gray-200 rounded-lg shadow-lg z-10 p-3">
+          {report.status !== 'ok' && (
+            <p className={`text-xs mb-2 ${styles.text}`}>
+              {report.status === 'clipped'
+                ? 'Gmail will clip this email and hide everything past the limit.'
+                : 'This email is close to the size at which Gmail clips it.'}
+            </p>
+          )}
+          <ul className="space-y-1 max-h-64 overflow-y-auto">
+            {largestBlocks.map((block) => (
+              <li key={block.nodeId}>
+                <button
+                  onClick={() => onSelectBlock(block.nodeId)}
+                  className="w-full flex items-center justify-between gap-2 px-2 py-1 text-left text-xs rounded hover:bg-gray-50"
+                >
+                  <span className="truncate text-gray-700">{block.label}</span>
+                  <span className="shrink-0 font-mono text-gray-500">{formatBytes(block.bytes)}</span>
+                </button>
+              </li>
+            ))}
+            <li className="flex items-center justify-between gap-2 px-2 py-1 text-xs">
+              <span className="text-gray-500">Layout and head</span>
+              <span className="font-mono text-gray-500">{formatBytes(report.layoutBytes)}</span>
+            </li>
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,5 +1,6 @@
-import { useState, useEffect } from 'react'
-import { extractVariablesFromJSON } from '../../lib/variableParser'
+import { useState, useEffect, useMemo } from 'react'
+import { extractArrayVariablesFromJSON, extractVariablesFromJSON } from '../../lib/variableParser'
+import { buildSampleItem, parseArrayVariable } from '../../lib/arrayVariables'
 import type { EmailNode } from '../../types/email'
 
 interface VariablePanelProps {
@@ -10,10 +11,16 @@ interface VariablePanelProps {
 export default function VariablePanel({ blocks, onVariablesChange }: VariablePanelProps) {
   const [variables, setVariables] = useState<Record<string, string>>({})
 
+  // Array variables that tables are bound to, with the item fields they use
+  const arrayFields = useMemo(
+    () => extractArrayVariablesFromJSON({ id: 'root', type: 'section', children: blocks }),
+    [blocks]
+  )
+
   useEffect(() => {
     // Extract all variables from blocks
     const root = { id: 'root', type: 'section' as const, children: blocks }
-    const detectedVars = extractVariablesFromJSON(root)
+    const detectedVars = [...extractVariablesFromJSON(root), ...Object.keys(arrayFields)]
 
     // Initialize missing variables
     const newVars = { ...variables }
@@ -29,7 +36,7 @@ export default function VariablePanel({ blocks, onVariablesChange }: VariablePan
     if (hasChanges) {
       setVariables(newVars)
     }
-  }, [blocks])
+  }, [blocks, arrayFields])
 
   const handleChange = (varName: string, value: string) => {
     const updated = { ...variables, [varName]: value }
@@ -49,20 +56,52 @@ export default function VariablePanel({ blocks, onVariablesChange }: VariablePan
         Test Variables
       </h3>
       <div className="space-y-2">
-        {varNames.map((varName) => (
-          <div key={varName}>
-            <label className="block text-xs text-gray-600 mb-1">
-              {varName}
-            </label>
-            <input
-              type="text"
-              value={variables[varName]}
-              onChange={(e) => handleChange(varName, e.target.value)}
-              placeholder={`Enter ${varName}...`}
-              className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
-            />
-          </div>
-        ))}
+        {varNames.map((varName) => {
+          const fields = arrayFields[varName]
+
+          // Array variables take a JSON array, one element per table row
+          if (fields) {
+            const value = variables[varName]
+            const items = parseArrayVariable(value)
+            return (
+              <div key={varName}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  {varName} <span className="text-gray-400">(JSON array)</span>
+                </label>
+                <textarea
+                  value={value}
+                  onChange={(e) => handleChange(varName, e.target.value)}
+                  placeholder={JSON.stringify([buildSampleItem(fields, () => '')])}
+                  rows={3}
+                  spellCheck={false}
+                  className="w-full px-2 py-1.5 text-xs font-mono border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+                {value.trim() && (
+                  <p className={`text-xs mt-1 ${items ? 'text-gray-500' : 'text-red-600'}`}>
+                    {items
+                      ? `${items.length} ${items.length === 1 ? 'item' : 'items'}`
+                      : 'Enter a JSON array, e.g. [{"name": "Item"}]'}
+                  </p>
+                )}
+              </div>
+            )
+          }
+
+          return (
+            <div key={varName}>
+              <label className="block text-xs text-gray-600 mb-1">
+                {varName}
+              </label>
+              <input
+                type="text"
+                value={variables[varName]}
+                onChange={(e) => handleChange(varName, e.target.value)}
+                placeholder={`Enter ${varName}...`}
+                className="w-full px-2 py-1.5 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )
+        })}
       </div>
     </div>
   )
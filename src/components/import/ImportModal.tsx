@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { AlertTriangle, FileUp, X } from 'lucide-react'
+import { useCreateEmail } from '../../hooks/useEmails'
+import {
+  IMPORT_ADAPTERS,
+  IMPORT_FILE_EXTENSIONS,
+  detectImportAdapter,
+  getImportAdapter,
+} from '../../lib/importers'
+import type { ImportAdapter, ImportFormatId, ImportResult } from '../../lib/importers'
+import { extractVariablesFromJSON } from '../../lib/variableParser'
+
+interface ImportModalProps {
+  projectId?: string
+  onClose: () => void
+}
+
+export default function ImportModal({ projectId, onClose }: ImportModalProps) {
+  const navigate = useNavigate()
+  const createEmail = useCreateEmail()
+  const [fileName, setFileName] = useState('')
+  const [content, setContent] = useState('')
+  const [formatId, setFormatId] = useState<ImportFormatId>('html')
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Import a newly chosen file, detecting its format, or re-import the
+   * content already read in another format. Reading the file can fail too,
+   * e.g. when it was moved after being picked.
+   */
+  const runImport = async (source: File | string, id: ImportFormatId) => {
+    let adapter: ImportAdapter | undefined
+    setError(null)
+
+    try {
+      const text = typeof source === 'string' ? source : await source.text()
+      if (typeof source === 'string') {
+        adapter = getImportAdapter(id)
+      } else {
+        adapter = detectImportAdapter(source.name, text) ?? getImportAdapter(id)
+        setContent(text)
+        setFormatId(adapter.id)
+      }
+      setResult(adapter.import(text))
+    } catch (err) {
+      console.error('Import failed:', err)
+      setResult(null)
+      setError(adapter ? `Could not read this file as ${adapter.label}` : 'Could not read this file')
+    }
+  }
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    setFileName(file.name)
+    setContent('')
+    runImport(file, formatId)
+  }
+
+  const handleFormatChange = (id: ImportFormatId) => {
+    setFormatId(id)
+    if (content) runImport(content, id)
+  }
+
+  const handleOpen = () => {
+    if (!result) return
+
+    const { email } = result
+    createEmail.mutate(
+      {
+        meta: email.meta,
+        jsonStructure: email,
+        variables: extractVariablesFromJSON(email.root),
+        prompt: `Imported from ${fileName}`,
+        projectId,
+      },
+      {
+        onSuccess: (created) => {
+          onClose()
+          navigate(`/email/${created.id}`)
+        },
+        onError: () => {
+          setError('Failed to save the imported email')
+        },
+      }
+    )
+  }
+
+  const blockCount = result?.email.root.children?.length ?? 0
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-gray-900">Import Email</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
+            <FileUp size={24} className="text-gray-400 mb-2" />
+            <span className="text-sm text-gray-500">
+              {fileName || 'Click to choose an HTML, MJML, Unlayer or Beefree file'}
+            </span>
+            <input
+              type="file"
+              accept={IMPORT_FILE_EXTENSIONS}
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Format
+            </label>
+            <select
+              value={formatId}
+              onChange={(e) => handleFormatChange(e.target.value as ImportFormatId)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {IMPORT_ADAPTERS.map((adapter) => (
+                <option key={adapter.id} value={adapter.id}>
+                  {adapter.label}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-red-600 text-sm">{error}</p>
+            </div>
+          )}
+
+          {result && (
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-medium text-gray-900">{result.email.meta.subject}</p>
+                <p className="text-sm text-gray-500">
+                  {blockCount} {blockCount === 1 ? 'block' : 'blocks'} imported
+                </p>
+              </div>
+
+              {result.report.length > 0 && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <AlertTriangle size={16} className="text-yellow-600" />
+                    <p className="text-yellow-800 text-sm font-medium">Import report</p>
+                  </div>
+                  <ul className="space-y-1">
+                    {result.report.map((entry, index) => (
+                      <li key={index} className="text-yellow-700 text-sm">
+                        <span className="font-mono text-xs">{entry.element}</span>{' '}
+                        {entry.message}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-4 border-t">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleOpen}
+              disabled={!result || blockCount === 0 || createEmail.isPending}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 transition-colors"
+            >
+              {createEmail.isPending ? 'Saving...' : 'Open in Editor'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
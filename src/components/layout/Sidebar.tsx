@@ -5,6 +5,7 @@ import SidebarHeader from './SidebarHeader'
 import EmailList from '../sidebar/EmailList'
 import ProjectList from '../sidebar/ProjectList'
 import ProjectModal from '../project/ProjectModal'
+import AssetLibraryModal from '../assets/AssetLibraryModal'
 import UserMenu from '../auth/UserMenu'
 import { useAuth } from '../../hooks/useAuth'
 import type { Project } from '../../types/project'
@@ -14,6 +15,7 @@ export default function Sidebar() {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [showProjectModal, setShowProjectModal] = useState(false)
   const [editingProject, setEditingProject] = useState<Project | null>(null)
+  const [assetsProject, setAssetsProject] = useState<Project | null>(null)
 
   const handleCreateProject = () => {
     setEditingProject(null)
@@ -99,6 +101,7 @@ export default function Sidebar() {
         <ProjectList
           onEditProject={handleEditProject}
           onCreateProject={handleCreateProject}
+          onOpenAssets={setAssetsProject}
         />
       </nav>
 
@@ -115,6 +118,13 @@ export default function Sidebar() {
           onClose={handleCloseModal}
         />
       )}
+
+      {assetsProject && (
+        <AssetLibraryModal
+          projectId={assetsProject.id}
+          onClose={() => setAssetsProject(null)}
+        />
+      )}
     </aside>
   )
 }
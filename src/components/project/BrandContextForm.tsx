@@ -1,6 +1,8 @@
 import { useState } from 'react'
 import { Upload, X } from 'lucide-react'
 import type { BrandContext } from '../../types/project'
+import { useImageUpload } from '../../hooks/useImageUpload'
+import { ALLOWED_IMAGE_TYPES } from '../../lib/uploadService'
 
 interface BrandContextFormProps {
   initialContext?: BrandContext
@@ -29,13 +31,17 @@ export default function BrandContextForm({
     initialContext?.colors.accent || '#F59E0B'
   )
 
-  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const { upload, progress, isUploading, error: uploadError } = useImageUpload()
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
-    if (!file || !file.type.startsWith('image/')) return
+    e.target.value = ''
+    if (!file) return
 
-    // Create a local preview URL for the uploaded file
-    const previewUrl = URL.createObjectURL(file)
-    setLogo(previewUrl)
+    const uploaded = await upload(file)
+    if (uploaded) {
+      setLogo(uploaded.url)
+    }
   }
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -46,6 +52,11 @@ export default function BrandContextForm({
       return
     }
 
+    if (isUploading) {
+      alert('Please wait for the logo upload to finish')
+      return
+    }
+
     onSubmit({
       name: name.trim(),
       description: description.trim(),
@@ -110,16 +121,18 @@ export default function BrandContextForm({
           <label className="flex flex-col items-center justify-center w-full h-32 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:bg-gray-50">
             <Upload size={24} className="text-gray-400 mb-2" />
             <span className="text-sm text-gray-500">
-              Click to upload logo
+              {isUploading ? `Uploading... ${progress}%` : 'Click to upload logo'}
             </span>
             <input
               type="file"
-              accept="image/*"
+              accept={ALLOWED_IMAGE_TYPES.join(',')}
               onChange={handleLogoUpload}
+              disabled={isUploading}
               className="hidden"
             />
           </label>
         )}
+        {uploadError && <p className="mt-1 text-sm text-red-600">{uploadError}</p>}
       </div>
 
       {/* Voice Guidelines */}
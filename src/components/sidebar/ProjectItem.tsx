@@ -6,10 +6,11 @@ import type { Project } from '../../types/project'
 interface ProjectItemProps {
   project: Project
   onEdit: (project: Project) => void
+  onOpenAssets: (project: Project) => void
   onDelete: (id: string) => void
 }
 
-export default function ProjectItem({ project, onEdit, onDelete }: ProjectItemProps) {
+export default function ProjectItem({ project, onEdit, onOpenAssets, onDelete }: ProjectItemProps) {
   const [isExpanded, setIsExpanded] = useState(false)
   const [showMenu, setShowMenu] = useState(false)
 
@@ -63,6 +64,15 @@ export default function ProjectItem({ project, onEdit, onDelete }: ProjectItemPr
                   >
                     Edit
                   </button>
+                  <button
+                    onClick={() => {
+                      onOpenAssets(project)
+                      setShowMenu(false)
+                    }}
+                    className="w-full px-3 py-1.5 text-left text-sm hover:bg-gray-100"
+                  >
+                    Assets
+                  </button>
                   <button
                     onClick={() => {
                       if (confirm(`Delete project "${project.name}"?`)) {
@@ -5,9 +5,10 @@ import type { Project } from '../../types/project'
 interface ProjectListProps {
   onEditProject: (project: Project) => void
   onCreateProject: () => void
+  onOpenAssets: (project: Project) => void
 }
 
-export default function ProjectList({ onEditProject, onCreateProject }: ProjectListProps) {
+export default function ProjectList({ onEditProject, onCreateProject, onOpenAssets }: ProjectListProps) {
   const { data, isLoading } = useProjects()
   const deleteProject = useDeleteProject()
 
@@ -45,6 +46,7 @@ export default function ProjectList({ onEditProject, onCreateProject }: ProjectL
             key={project.id}
             project={project}
             onEdit={onEditProject}
+            onOpenAssets={onOpenAssets}
             onDelete={(id) => deleteProject.mutate({ id, deleteEmails: false })}
           />
         ))
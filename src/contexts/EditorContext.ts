@@ -0,0 +1,10 @@
+import { createContext } from 'react'
+
+interface EditorContextType {
+  /** Project of the email being edited, used to scope the asset library */
+  projectId?: string
+  /** Test variable values, used to ghost blocks whose condition hides them */
+  variables?: Record<string, string>
+}
+
+export const EditorContext = createContext<EditorContextType>({})
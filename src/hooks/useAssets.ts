@@ -0,0 +1,46 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { api } from '../lib/api'
+import type { Asset, CreateAssetRequest } from '../types'
+
+export function useAssets(projectId?: string) {
+  return useQuery({
+    queryKey: ['assets', projectId],
+    queryFn: () => api.listAssets(projectId!),
+    enabled: !!projectId,
+  })
+}
+
+export function useCreateAsset() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ projectId, data }: { projectId: string; data: CreateAssetRequest }) =>
+      api.createAsset(projectId, data),
+    onSuccess: (_response, variables) => {
+      queryClient.invalidateQueries({ queryKey: ['assets', variables.projectId] })
+    },
+  })
+}
+
+export function useUpdateAsset() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: Partial<Pick<Asset, 'alt' | 'tags'>> }) =>
+      api.updateAsset(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assets'] })
+    },
+  })
+}
+
+export function useDeleteAsset() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteAsset(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assets'] })
+    },
+  })
+}
@@ -0,0 +1,13 @@
+import { useContext } from 'react'
+import { EditorContext } from '../contexts/EditorContext'
+import { evaluateCondition } from '../lib/conditions'
+import type { VisibilityCondition } from '../types'
+
+/**
+ * Whether a block's visibility condition hides it for the editor's current
+ * test variables, so the block can be shown ghosted
+ */
+export function useConditionHidden(condition?: VisibilityCondition): boolean {
+  const { variables = {} } = useContext(EditorContext)
+  return !evaluateCondition(condition, variables)
+}
@@ -13,6 +13,20 @@ export function useEmails(projectId?: string) {
   })
 }
 
+/**
+ * Every email in a project rather than the first page, for checks that must
+ * see all of them
+ */
+export function useAllProjectEmails(projectId: string) {
+  const { loading } = useAuth()
+
+  return useQuery({
+    queryKey: ['emails', projectId, 'all'],
+    queryFn: () => api.listAllEmails(projectId),
+    enabled: !loading,
+  })
+}
+
 export function useEmail(id: string) {
   return useQuery({
     queryKey: ['emails', id],
@@ -34,6 +48,17 @@ export function useGenerateEmail() {
   })
 }
 
+export function useCreateEmail() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (data: Parameters<typeof api.createEmail>[0]) => api.createEmail(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emails'] })
+    },
+  })
+}
+
 export function useUpdateEmail() {
   const queryClient = useQueryClient()
 
@@ -0,0 +1,30 @@
+import { useState } from 'react'
+import { uploadImage } from '../lib/uploadService'
+import type { ApiError, UploadedFile } from '../types'
+
+/**
+ * Upload state for a single image picker: progress, pending flag and last error
+ */
+export function useImageUpload() {
+  const [progress, setProgress] = useState(0)
+  const [isUploading, setIsUploading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (file: File): Promise<UploadedFile | null> => {
+    setIsUploading(true)
+    setProgress(0)
+    setError(null)
+
+    try {
+      return await uploadImage(file, { onProgress: setProgress })
+    } catch (err) {
+      console.error('Image upload failed:', err)
+      setError((err as ApiError).message || 'Image upload failed')
+      return null
+    } finally {
+      setIsUploading(false)
+    }
+  }
+
+  return { upload, progress, isUploading, error }
+}
@@ -0,0 +1,42 @@
+import { useEffect, useState } from 'react'
+import {
+  DEFAULT_PREVIEW_DEVICE_SETTINGS,
+  PREVIEW_DEVICES,
+} from '../lib/previewDevices'
+import type { PreviewDeviceId, PreviewDeviceSettings } from '../lib/previewDevices'
+
+function loadSettings(storageKey: string): PreviewDeviceSettings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey) || 'null')
+    if (stored && PREVIEW_DEVICES.some((device) => device.id === stored.deviceId)) {
+      return { deviceId: stored.deviceId, rotated: !!stored.rotated }
+    }
+  } catch {
+    // Ignore corrupt entries and fall back to the default device
+  }
+  return DEFAULT_PREVIEW_DEVICE_SETTINGS
+}
+
+/**
+ * Preview device and orientation, remembered per email in localStorage
+ */
+export function usePreviewDevice(emailId?: string) {
+  const storageKey = `preview_device_${emailId}`
+  const [settings, setSettings] = useState<PreviewDeviceSettings>(() => loadSettings(storageKey))
+
+  // Switch to the stored device when navigating between emails
+  useEffect(() => {
+    setSettings(loadSettings(storageKey))
+  }, [storageKey])
+
+  const save = (next: PreviewDeviceSettings) => {
+    setSettings(next)
+    localStorage.setItem(storageKey, JSON.stringify(next))
+  }
+
+  return {
+    ...settings,
+    setDevice: (deviceId: PreviewDeviceId) => save({ ...settings, deviceId }),
+    toggleRotated: () => save({ ...settings, rotated: !settings.rotated }),
+  }
+}
@@ -0,0 +1,201 @@
+import type { Email, EmailJSON, EmailNode } from '../../types/email'
+
+export function toEmail(jsonStructure: EmailJSON): Email {
+  return {
+    id: 'email-1',
+    meta: jsonStructure.meta,
+    jsonStructure,
+    variables: [],
+    prompt: '',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  }
+}
+
+export interface OrderConfirmationOptions {
+  /** Include "equals" conditions */
+  comparisons?: boolean
+  /** Cap the repeat block */
+  itemLimit?: boolean
+  /** Include the table and repeat block bound to arrays */
+  loops?: boolean
+}
+
+/**
+ * Order confirmation using every kind of template syntax the renderers emit:
+ * plain and *Html variables, a table, a capped repeat with an empty state and
+ * both condition operators, also inside the repeat. Parts can be left out for
+ * providers that can't express them.
+ */
+export function createOrderConfirmation({
+  comparisons = true,
+  itemLimit = true,
+  loops = true,
+}: OrderConfirmationOptions = {}): EmailJSON {
+  const vipCondition = comparisons
+    ? ({ variable: 'tier', operator: 'equals', value: 'gold' } as const)
+    : ({ variable: 'isVip', operator: 'truthy' } as const)
+
+  const arrayBlocks: EmailNode[] = [
+    {
+      id: 'items',
+      type: 'table',
+      dataVariable: 'items',
+      columns: [
+        { header: 'Product', cell: '{{item.name}}' },
+        { header: 'Price', cell: '{{item.price}}', align: 'right' },
+      ],
+    },
+    {
+      id: 'recommendations',
+      type: 'repeat',
+      dataVariable: 'recommendations',
+      maxItems: itemLimit ? 3 : undefined,
+      emptyState: { id: 'no-recommendations', type: 'text', text: 'No recommendations for {{firstName}} yet' },
+      children: [
+        { id: 'recommendation', type: 'text', text: '{{item.title}} for {{firstName}}' },
+        { id: 'recommendation-vip', type: 'text', text: 'Early access to {{item.title}}', condition: vipCondition },
+      ],
+    },
+  ]
+
+  return {
+    version: 1,
+    meta: {
+      subject: 'Your order {{orderNumber}} is confirmed',
+      previewText: 'Thanks for shopping with us, {{firstName}}',
+      category: 'transactional',
+    },
+    root: {
+      id: 'root',
+      type: 'section',
+      children: [
+        { id: 'heading', type: 'heading', level: 1, text: 'Thanks, {{firstName}}!' },
+        { id: 'intro', type: 'text', text: '{{introHtml}}' },
+        ...(loops ? arrayBlocks : []),
+        {
+          id: 'discount',
+          type: 'text',
+          text: 'Use {{discountCode}} on your next order',
+          condition: { variable: 'discountCode', operator: 'notEmpty' },
+        },
+        { id: 'vip', type: 'button', label: 'VIP lounge', href: '{{vipUrl}}', condition: vipCondition },
+      ],
+    },
+  }
+}
+
+/**
+ * Newsletter with one of every block type, conditions on content, sections
+ * and inside a repeat block, and a row kept side by side on mobile
+ */
+export function createEveryBlockEmail(): EmailJSON {
+  return {
+    version: 2,
+    meta: { subject: 'News for {{firstName}}', previewText: 'This month at Acme', category: 'marketing' },
+    root: {
+      id: 'root',
+      type: 'section',
+      children: [
+        {
+          id: 'content',
+          type: 'section',
+          backgroundColor: '#FFFFFF',
+          children: [
+            { id: 'heading', type: 'heading', level: 2, text: 'Hello {{firstName}}' },
+            {
+              id: 'gold',
+              type: 'text',
+              text: 'Thanks for being a gold member',
+              condition: { variable: 'tier', operator: 'equals', value: 'gold' },
+            },
+            { id: 'cta', type: 'button', label: 'Shop now', href: '{{shopUrl}}' },
+            { id: 'hero', type: 'image', src: 'https://cdn.example.com/hero.png', alt: 'New arrivals' },
+            {
+              id: 'video',
+              type: 'video',
+              videoUrl: 'https://www.youtube.com/watch?v=abc123',
+              thumbnailSrc: 'https://cdn.example.com/video.png',
+              alt: 'Watch the launch',
+            },
+            { id: 'divider', type: 'divider' },
+            { id: 'spacer', type: 'spacer', height: 32 },
+            {
+              id: 'steps',
+              type: 'list',
+              listStyle: 'ordered',
+              items: [
+                { text: 'Pick a plan', items: [{ text: 'Monthly' }, { text: 'Yearly' }] },
+                { text: 'Check out' },
+              ],
+            },
+            {
+              id: 'items',
+              type: 'table',
+              dataVariable: 'items',
+              columns: [
+                { header: 'Product', cell: '{{item.name}}', width: 70 },
+                { header: 'Price', cell: '{{item.price}}', align: 'right' },
+              ],
+            },
+            {
+              id: 'picks',
+              type: 'repeat',
+              dataVariable: 'picks',
+              maxItems: 3,
+              emptyState: { id: 'no-picks', type: 'text', text: 'Nothing new this month' },
+              children: [
+                {
+                  id: 'pick',
+                  type: 'text',
+                  text: '{{item.title}} for {{firstName}}',
+                  condition: { variable: 'showPicks', operator: 'truthy' },
+                },
+              ],
+            },
+            {
+              id: 'social',
+              type: 'social',
+              iconStyle: 'mono',
+              iconSize: 24,
+              links: [
+                { network: 'x', url: 'https://x.com/acme' },
+                { network: 'github', url: 'https://github.com/acme' },
+              ],
+            },
+            {
+              id: 'footer',
+              type: 'footer',
+              legalText: 'You get this email because you signed up at acme.com',
+              postalAddress: 'Acme Inc.\n1 Main Street\nSpringfield',
+              unsubscribeVariable: 'unsubscribeUrl',
+              preferencesUrl: 'https://acme.com/preferences',
+            },
+          ],
+        },
+        {
+          id: 'promo',
+          type: 'section',
+          backgroundColor: '#F9FAFB',
+          condition: { variable: 'showPromo', operator: 'truthy' },
+          children: [
+            {
+              id: 'promo-row',
+              type: 'row',
+              stackOnMobile: false,
+              children: [
+                { id: 'promo-text', type: 'column', width: 60, children: [{ id: 'promo-copy', type: 'text', text: '20% off' }] },
+                {
+                  id: 'promo-image',
+                  type: 'column',
+                  width: 40,
+                  children: [{ id: 'promo-photo', type: 'image', src: 'https://cdn.example.com/promo.png', alt: 'Sale' }],
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    },
+  }
+}
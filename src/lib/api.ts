@@ -1,8 +1,12 @@
 import type {
+  Asset,
+  CreateAssetRequest,
   Email,
   Project,
   GenerateEmailRequest,
-  PaginatedResponse
+  PaginatedResponse,
+  UploadedFile,
+  ApiError
 } from '../types'
 import { API_BASE_URL } from './config'
 
@@ -123,11 +127,40 @@ class ApiClient {
     }
   }
 
+  /**
+   * Every email in a project, fetching page after page until the total is reached
+   */
+  async listAllEmails(projectId: string): Promise<Email[]> {
+    const emails: Email[] = []
+    for (;;) {
+      const page = await this.listEmails({ projectId, limit: 100, offset: emails.length })
+      emails.push(...page.emails)
+      if (page.emails.length === 0 || emails.length >= page.pagination.total) return emails
+    }
+  }
+
   async getEmail(id: string): Promise<Email> {
     const email: any = await this.request(`/emails/${id}`)
     return transformEmailResponse(email)
   }
 
+  async createEmail(
+    data: Pick<Email, 'meta' | 'jsonStructure' | 'variables'> & { prompt?: string; projectId?: string }
+  ): Promise<Email> {
+    const json = await this.request<{ email: unknown }>('/emails', {
+      method: 'POST',
+      body: JSON.stringify({
+        subject: data.meta.subject,
+        preview: data.meta.previewText,
+        json_state: data.jsonStructure,
+        variables: data.variables,
+        prompt: data.prompt || '',
+        project_id: data.projectId || null,
+      }),
+    })
+    return transformEmailResponse(json.email)
+  }
+
   async updateEmail(id: string, data: Partial<Email>): Promise<{ email: Email }> {
     return this.request(`/emails/${id}`, {
       method: 'PATCH',
@@ -348,6 +381,96 @@ class ApiClient {
       method: 'DELETE',
     })
   }
+
+  // Asset endpoints
+  async listAssets(projectId: string): Promise<{ assets: Asset[] }> {
+    return this.request(`/projects/${projectId}/assets`)
+  }
+
+  async createAsset(projectId: string, data: CreateAssetRequest): Promise<{ asset: Asset }> {
+    return this.request(`/projects/${projectId}/assets`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async updateAsset(id: string, data: Partial<Pick<Asset, 'alt' | 'tags'>>): Promise<{ asset: Asset }> {
+    return this.request(`/assets/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    })
+  }
+
+  async deleteAsset(id: string): Promise<void> {
+    return this.request(`/assets/${id}`, {
+      method: 'DELETE',
+    })
+  }
+
+  // Upload endpoints
+
+  /**
+   * Upload an image with progress reporting. Uses XMLHttpRequest because
+   * fetch cannot report upload progress.
+   *
+   * Rejects with an ApiError whose details carry the HTTP status (0 for
+   * network failures) so callers can decide whether to retry.
+   */
+  uploadImage(
+    file: File,
+    options: { onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<UploadedFile> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      const formData = new FormData()
+      formData.append('file', file)
+
+      xhr.open('POST', `${this.baseURL}/uploads/image`)
+      if (this.token) {
+        xhr.setRequestHeader('Authorization', `Bearer ${this.token}`)
+      }
+
+      xhr.upload.onprogress = (event) => {
+        if (event.lengthComputable) {
+          options.onProgress?.(Math.round((event.loaded / event.total) * 100))
+        }
+      }
+
+      xhr.onload = () => {
+        let json: (UploadedFile & Partial<ApiError>) | null = null
+        try {
+          json = JSON.parse(xhr.responseText)
+        } catch {
+          // Non-JSON body, handled below
+        }
+
+        if (xhr.status >= 200 && xhr.status < 300 && json) {
+          resolve(json)
+        } else {
+          reject({
+            error: json?.error || 'UploadFailed',
+            message: json?.message || 'Image upload failed',
+            details: { status: xhr.status },
+          })
+        }
+      }
+
+      xhr.onerror = () => {
+        reject({ error: 'NetworkError', message: 'Could not reach the server', details: { status: 0 } })
+      }
+
+      xhr.onabort = () => {
+        reject({ error: 'UploadCancelled', message: 'Upload cancelled', details: { status: 0 } })
+      }
+
+      // Retries reuse the signal, so each attempt must drop its listener when it ends
+      const abort = () => xhr.abort()
+      options.signal?.addEventListener('abort', abort, { once: true })
+      xhr.onloadend = () => options.signal?.removeEventListener('abort', abort)
+
+      xhr.send(formData)
+    })
+  }
 }
 
 export const api = new ApiClient(API_BASE_URL)
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { expandLoops, toLoopTemplate, wrapLoop } from './arrayVariables'
+
+describe('toLoopTemplate', () => {
+  it('qualifies top-level variables and conditions with @root', () => {
+    expect(toLoopTemplate('{{#if (eq tier "gold")}}{{item.name}} for {{firstName}}{{/if}}{{#if vip}}!{{/if}}')).toBe(
+      '{{#if (eq @root.tier "gold")}}{{this.name}} for {{@root.firstName}}{{/if}}{{#if @root.vip}}!{{/if}}'
+    )
+  })
+
+  it('leaves loop keywords alone', () => {
+    expect(toLoopTemplate('{{item}}{{else}}{{#if (lt @index 2)}}{{/if}}')).toBe(
+      '{{this}}{{else}}{{#if (lt @index 2)}}{{/if}}'
+    )
+  })
+})
+
+describe('expandLoops', () => {
+  const template = wrapLoop('products', toLoopTemplate('{{item.name}} for {{firstName}};'), 2, 'None for {{firstName}}')
+
+  it('fills elements in up to the cap and keeps @root references as plain variables', () => {
+    const products = JSON.stringify([{ name: 'Mug' }, { name: 'Cap' }, { name: 'Pen' }])
+    expect(expandLoops(template, { products })).toBe('Mug for {{firstName}};Cap for {{firstName}};')
+  })
+
+  it('keeps a single placeholder copy without test values', () => {
+    expect(expandLoops(template, {})).toBe('{{item.name}} for {{firstName}};')
+  })
+
+  it('shows the empty state for an empty array', () => {
+    expect(expandLoops(template, { products: '[]' })).toBe('None for {{firstName}}')
+  })
+})
+
+describe('expandLoops with nested loops', () => {
+  const inner = wrapLoop('lines', toLoopTemplate('<tr>{{item.id}}</tr>'))
+  const template = wrapLoop('orders', toLoopTemplate(`Order {{item.name}}: ${inner};`))
+
+  it('expands the inner loop once per outer element', () => {
+    const orders = JSON.stringify([{ name: 'A' }, { name: 'B' }])
+    const lines = JSON.stringify([{ id: 1 }, { id: 2 }])
+    expect(template).toContain('{{#each @root.lines}}')
+    expect(expandLoops(template, { orders, lines })).toBe(
+      'Order A: <tr>1</tr><tr>2</tr>;Order B: <tr>1</tr><tr>2</tr>;'
+    )
+  })
+
+  it('keeps placeholders for the loop that has no test values', () => {
+    const orders = JSON.stringify([{ name: 'A' }])
+    expect(expandLoops(template, { orders })).toBe('Order A: <tr>{{item.id}}</tr>;')
+  })
+})
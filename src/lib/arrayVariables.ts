@@ -0,0 +1,199 @@
+import type { TemplateNode } from './templateSyntax'
+import { parseTemplate } from './templateSyntax'
+import { wrapCondition } from './conditions'
+
+// {{item}} or {{item.field}}, optionally a dotted path like {{item.price.amount}}
+const ITEM_FIELD_REGEX = /\{\{item(?:\.([\w.]+))?\}\}/g
+// The same references after toLoopTemplate, inside a {{#each}} block
+const LOOP_FIELD_REGEX = /\{\{this(?:\.([\w.]+))?\}\}/g
+// Top-level variables in {{name}}, {{#if name}}, {{#if (eq name ...)}} and
+// {{#each name}} tags, which inside a loop would resolve against the element
+const ROOT_REFERENCE_REGEX = /\{\{(#if \(eq |#if |#each )?(?!this\b|else\b)(\w+)(?=[\s}])/g
+// The same references once toLoopTemplate has qualified them
+const LOOP_ROOT_REFERENCE_REGEX = /\{\{(#if \(eq |#if |#each )?@root\./g
+const LOOP_ELSE_TAG = '{{else}}'
+
+/**
+ * Parse a test value entered for an array variable. Returns null unless it
+ * is a JSON array.
+ */
+export function parseArrayVariable(value: string | undefined): unknown[] | null {
+  if (!value?.trim()) return null
+  try {
+    const parsed: unknown = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Look up a dotted field path on an array element, e.g. "price.amount".
+ * Without a path the element itself is used.
+ */
+export function getItemField(item: unknown, path?: string): string {
+  let value = item
+  for (const key of path ? path.split('.') : []) {
+    value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined
+  }
+  if (value === null || value === undefined) return ''
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+/**
+ * Fill in {{item.*}} references in a template from one array element
+ */
+export function substituteItemFields(
+  template: string,
+  item: unknown,
+  format: (value: string) => string = (value) => value
+): string {
+  return template.replace(ITEM_FIELD_REGEX, (_, path?: string) => format(getItemField(item, path)))
+}
+
+/**
+ * Field paths referenced as {{item.*}} in a template (e.g. ["name", "price"])
+ */
+export function extractItemFields(template: string): string[] {
+  return Array.from(template.matchAll(ITEM_FIELD_REGEX), (match) => match[1]).filter(
+    (path): path is string => Boolean(path)
+  )
+}
+
+/**
+ * Build an example array element with every field path set, nesting dotted
+ * paths, e.g. ["name", "price.amount"] -> { name: ..., price: { amount: ... } }
+ */
+export function buildSampleItem(
+  fields: string[],
+  valueFor: (path: string) => string
+): Record<string, unknown> {
+  const item: Record<string, unknown> = {}
+  for (const path of fields) {
+    const keys = path.split('.')
+    let target = item
+    for (const key of keys.slice(0, -1)) {
+      if (!target[key] || typeof target[key] !== 'object') target[key] = {}
+      target = target[key] as Record<string, unknown>
+    }
+    target[keys[keys.length - 1]] = valueFor(path)
+  }
+  return item
+}
+
+/**
+ * Rewrite a template for use inside a Handlebars {{#each}} block, which is
+ * how exports keep array data as a template: {{item.*}} references become
+ * {{this.*}}, and top-level variables and conditions become @root ones so
+ * they don't resolve against the element.
+ */
+export function toLoopTemplate(template: string): string {
+  return template
+    .replace(ITEM_FIELD_REGEX, (_, path?: string) => (path ? `{{this.${path}}}` : '{{this}}'))
+    .replace(ROOT_REFERENCE_REGEX, (_, tag = '', name: string) => `{{${tag}@root.${name}`)
+}
+
+/**
+ * Undo toLoopTemplate: {{this.*}} references become {{item.*}} again and
+ * @root references plain ones
+ */
+export function fromLoopTemplate(template: string): string {
+  return template
+    .replace(LOOP_ROOT_REFERENCE_REGEX, '{{$1')
+    .replace(LOOP_FIELD_REGEX, (_match, path?: string) => (path ? `{{item.${path}}}` : '{{item}}'))
+}
+
+/**
+ * Copy of a node, or any JSON value, with every string in it passed through map
+ */
+export function mapStrings<T>(value: T, map: (text: string) => string): T {
+  if (typeof value === 'string') return map(value) as T
+  if (Array.isArray(value)) return value.map((entry) => mapStrings(entry, map)) as T
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, mapStrings(entry, map)])) as T
+  }
+  return value
+}
+
+/**
+ * Copy of a node with {{item.*}} references in every text field filled in
+ * from one array element, for previewing repeated content
+ */
+export function bindItemFields<T>(value: T, item: unknown): T {
+  return mapStrings(value, (text) => substituteItemFields(text, item))
+}
+
+/**
+ * Copy of a node with every text field passed through fromLoopTemplate, for
+ * importing blocks back out of an exported {{#each}} block
+ */
+export function unbindLoopTemplate<T>(value: T): T {
+  return mapStrings(value, fromLoopTemplate)
+}
+
+/**
+ * Wrap a template in a {{#each}} block. A cap uses an lt helper, which the
+ * ESP exports translate into each provider's own, and the empty state becomes
+ * the loop's {{else}} branch. Handlebars renders that in the outer scope, so
+ * it needs no @root references.
+ */
+export function wrapLoop(variable: string, body: string, maxItems?: number, empty = ''): string {
+  const limited = maxItems ? `{{#if (lt @index ${maxItems})}}${body}{{/if}}` : body
+  return `{{#each ${variable}}}${limited}${empty ? `${LOOP_ELSE_TAG}${empty}` : ''}{{/each}}`
+}
+
+/**
+ * Expand exported {{#each}} blocks using test values, for previews and
+ * exports that fill variables in. Loops nest: a loop inside another goes over
+ * its own array once per outer element. A loop without a valid array is kept
+ * as a single copy with {{item.*}} placeholders, like any unfilled variable,
+ * and an empty array shows the loop's {{else}} branch. Test values are all
+ * top-level, so @root references become plain ones.
+ */
+export function expandLoops(
+  text: string,
+  variables: Record<string, string>,
+  format: (value: string) => string = (value) => value
+): string {
+  // item is the element of the innermost loop being filled in, if any
+  const expand = (nodes: TemplateNode[], item?: { value: unknown }): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return node.text
+          case 'variable':
+            return `{{${node.name}}}`
+          case 'itemField':
+            if (item) return format(getItemField(item.value, node.path))
+            return node.path ? `{{item.${node.path}}}` : '{{item}}'
+          case 'condition':
+            return wrapCondition(node.condition, expand(node.body, item))
+          case 'limit':
+            return expand(node.body, item)
+          case 'loop': {
+            // wrapLoop puts the item cap around the whole body
+            const [limit] = node.body
+            const capped = node.body.length === 1 && limit.type === 'limit' ? limit : undefined
+            const body = capped ? capped.body : node.body
+            const items = parseArrayVariable(variables[node.variable])
+            if (!items) return expand(body)
+            if (items.length === 0) return expand(node.empty, item)
+            return items
+              .slice(0, capped?.maxItems)
+              .map((value) => expand(body, { value }))
+              .join('')
+          }
+        }
+      })
+      .join('')
+
+  let nodes: TemplateNode[]
+  try {
+    nodes = parseTemplate(text)
+  } catch {
+    // Unbalanced tags typed into the content; there are no loops to expand reliably
+    return text
+  }
+  return expand(nodes)
+}
@@ -0,0 +1,46 @@
+import type { Asset, Email, EmailNode } from '../types'
+import { getNodeImageSource } from './emailImages'
+
+/**
+ * Assets matching a search over file name and alt text, carrying every selected tag
+ */
+export function filterAssets(assets: Asset[], query: string, tags: string[]): Asset[] {
+  const search = query.trim().toLowerCase()
+  return assets.filter(
+    (asset) =>
+      (!search ||
+        asset.fileName.toLowerCase().includes(search) ||
+        !!asset.alt?.toLowerCase().includes(search)) &&
+      tags.every((tag) => asset.tags.includes(tag))
+  )
+}
+
+export function collectAssetTags(assets: Asset[]): string[] {
+  return Array.from(new Set(assets.flatMap((asset) => asset.tags))).sort()
+}
+
+export function parseTags(input: string): string[] {
+  return Array.from(
+    new Set(
+      input
+        .split(',')
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
+}
+
+function usesImage(node: EmailNode, url: string): boolean {
+  return (
+    getNodeImageSource(node) === url ||
+    (node.type === 'repeat' && !!node.emptyState && usesImage(node.emptyState, url)) ||
+    !!node.children?.some((child) => usesImage(child, url))
+  )
+}
+
+/**
+ * Emails whose content still shows the given image URL
+ */
+export function findEmailsUsingAsset(emails: Email[], asset: Asset): Email[] {
+  return emails.filter((email) => email.jsonStructure?.root && usesImage(email.jsonStructure.root, asset.url))
+}
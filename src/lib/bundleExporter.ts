@@ -0,0 +1,59 @@
+import type { Email } from '../types/email'
+import { renderEmailHTML } from './htmlRenderer'
+import { renderEmailPlainText } from './plainTextRenderer'
+import { extractArrayVariablesFromJSON } from './variableParser'
+import { buildSampleItem, parseArrayVariable } from './arrayVariables'
+import { collectImageSources, fetchImages, replaceImageSources } from './emailImages'
+import { createZip } from './zip'
+import type { ZipEntry } from './zip'
+
+/**
+ * Placeholder used when no test value was entered for a variable
+ */
+function sampleValue(name: string): string {
+  const lower = name.toLowerCase()
+  if (lower.includes('email')) return 'jane@example.com'
+  if (lower.includes('url') || lower.includes('link')) return 'https://example.com'
+  if (lower.includes('name')) return 'Jane'
+  return `Sample ${name}`
+}
+
+/**
+ * Package an email for handoff: rendered HTML with local images, the plain-text
+ * part, the raw JSON structure and the template variables with sample values.
+ *
+ * Images that can't be fetched keep their original URL in the HTML and are
+ * listed in the returned warnings.
+ */
+export async function buildEmailBundle(
+  email: Email,
+  variables: Record<string, string> = {}
+): Promise<{ blob: Blob; warnings: string[] }> {
+  const { jsonStructure } = email
+  const { images, failed } = await fetchImages(collectImageSources(jsonStructure.root))
+  const paths = new Map(images.map((image) => [image.src, `images/${image.fileName}`]))
+
+  const localized = { ...jsonStructure, root: replaceImageSources(jsonStructure.root, paths) }
+  const sampleVariables = Object.fromEntries(
+    email.variables.map((name) => [name, variables[name] || sampleValue(name)])
+  )
+  // Array variables get their test rows, or one sample row using the fields the tables read
+  const sampleArrays = Object.fromEntries(
+    Object.entries(extractArrayVariablesFromJSON(jsonStructure.root)).map(([name, fields]) => [
+      name,
+      parseArrayVariable(variables[name]) ?? [
+        buildSampleItem(fields, (path) => sampleValue(path.split('.').pop() || path)),
+      ],
+    ])
+  )
+
+  const entries: ZipEntry[] = [
+    { path: 'index.html', data: renderEmailHTML(localized) },
+    { path: 'email.txt', data: renderEmailPlainText(jsonStructure) },
+    { path: 'email.json', data: JSON.stringify(jsonStructure, null, 2) },
+    { path: 'variables.json', data: JSON.stringify({ ...sampleVariables, ...sampleArrays }, null, 2) },
+    ...images.map((image) => ({ path: `images/${image.fileName}`, data: image.data })),
+  ]
+
+  return { blob: createZip(entries), warnings: failed }
+}
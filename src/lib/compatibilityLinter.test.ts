@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailJSON, EmailNode } from '../types/email'
+import { LINT_RULES, lintEmail } from './compatibilityLinter'
+
+function email(...children: EmailNode[]): EmailJSON {
+  return {
+    version: 2,
+    meta: { subject: 'Hello', previewText: '' },
+    root: { id: 'root', type: 'section', children },
+  }
+}
+
+const image: EmailNode = { id: 'image', type: 'image', src: 'https://cdn.example.com/a.png', alt: 'A', width: 600 }
+
+// One email that breaks each rule and one that passes it
+const cases: Record<string, [EmailJSON, EmailJSON]> = {
+  'section-border-radius': [
+    email({ id: 'section', type: 'section', borderRadius: '8px', children: [] }),
+    email({ id: 'section', type: 'section', borderRadius: '0', children: [] }),
+  ],
+  'image-missing-width': [
+    email({ ...image, width: undefined }),
+    email(image),
+  ],
+  'image-data-url': [
+    email({ ...image, src: 'data:image/png;base64,AAAA' }),
+    email(image),
+  ],
+  'image-missing-alt': [
+    email({ ...image, alt: ' ' }),
+    email(image),
+  ],
+  'long-body': [
+    email({ id: 'text', type: 'text', text: 'x'.repeat(110 * 1024) }),
+    email({ id: 'text', type: 'text', text: 'Short' }),
+  ],
+}
+
+describe('LINT_RULES', () => {
+  it('has a case for every rule', () => {
+    expect(Object.keys(cases).sort()).toEqual(LINT_RULES.map((rule) => rule.id).sort())
+  })
+
+  it.each(LINT_RULES.map((rule) => [rule.id, rule] as const))('%s flags a breaking email', (id, rule) => {
+    expect(rule.check(cases[id][0])).toHaveLength(1)
+  })
+
+  it.each(LINT_RULES.map((rule) => [rule.id, rule] as const))('%s accepts a compatible email', (id, rule) => {
+    expect(rule.check(cases[id][1])).toEqual([])
+  })
+
+  it('checks images inside a repeat block’s empty state', () => {
+    const repeat: EmailNode = { id: 'repeat', type: 'repeat', dataVariable: 'items', emptyState: { ...image, alt: '' } }
+    expect(lintEmail(email(repeat))).toEqual([
+      { ruleId: 'image-missing-alt', severity: 'warning', nodeId: 'image', message: 'Image has no alt text' },
+    ])
+  })
+})
+
+describe('lintEmail', () => {
+  const broken = email({ ...image, src: 'data:image/png;base64,AAAA', alt: '' })
+
+  it('tags issues with their rule and severity', () => {
+    expect(lintEmail(broken).map((issue) => [issue.ruleId, issue.severity])).toEqual([
+      ['image-data-url', 'error'],
+      ['image-missing-alt', 'warning'],
+    ])
+  })
+
+  it('skips disabled rules', () => {
+    expect(lintEmail(broken, ['image-missing-alt']).map((issue) => issue.ruleId)).toEqual(['image-data-url'])
+  })
+})
@@ -0,0 +1,129 @@
+import type { EmailJSON, EmailNode } from '../types/email'
+import { renderEmailHTML } from './htmlRenderer'
+import { GMAIL_CLIP_BYTES, getByteSize } from './emailSize'
+import { getNodeImageSource } from './emailImages'
+
+export type LintSeverity = 'error' | 'warning'
+
+export interface LintIssue {
+  ruleId: string
+  severity: LintSeverity
+  message: string
+  /** Offending node, when the issue belongs to a single block */
+  nodeId?: string
+}
+
+export interface LintRule {
+  id: string
+  label: string
+  description: string
+  /** Clients the construct breaks in */
+  clients: string[]
+  severity: LintSeverity
+  check: (email: EmailJSON) => Omit<LintIssue, 'ruleId' | 'severity'>[]
+}
+
+/**
+ * Every node in the email in document order, excluding the root
+ */
+function collectNodes(email: EmailJSON): EmailNode[] {
+  const nodes: EmailNode[] = []
+  const visit = (node: EmailNode) => {
+    nodes.push(node)
+    node.children?.forEach(visit)
+    if (node.type === 'repeat' && node.emptyState) visit(node.emptyState)
+  }
+  email.root.children?.forEach(visit)
+  return nodes
+}
+
+export const LINT_RULES: LintRule[] = [
+  {
+    id: 'section-border-radius',
+    label: 'Rounded sections',
+    description: 'Outlook on Windows ignores border-radius, so rounded sections render with square corners.',
+    clients: ['Outlook'],
+    severity: 'warning',
+    check: (email) =>
+      collectNodes(email)
+        .filter((node) => node.type === 'section' && !!node.borderRadius && parseInt(node.borderRadius) > 0)
+        .map((node) => ({
+          nodeId: node.id,
+          message: 'Section has rounded corners that Outlook will render square',
+        })),
+  },
+  {
+    id: 'image-missing-width',
+    label: 'Images without width',
+    description: 'Outlook renders images at their intrinsic size unless a width is set, which can break the layout.',
+    clients: ['Outlook'],
+    severity: 'warning',
+    check: (email) =>
+      collectNodes(email)
+        .filter((node) => (node.type === 'image' || node.type === 'video') && !!getNodeImageSource(node) && !node.width)
+        .map((node) => ({
+          nodeId: node.id,
+          message: 'Image has no explicit width',
+        })),
+  },
+  {
+    id: 'image-data-url',
+    label: 'Embedded data-URL images',
+    description: 'Gmail and Outlook.com strip images whose src is a data: URL. Host the image instead.',
+    clients: ['Gmail', 'Outlook.com'],
+    severity: 'error',
+    check: (email) =>
+      collectNodes(email)
+        .filter((node) => !!getNodeImageSource(node)?.trim().toLowerCase().startsWith('data:'))
+        .map((node) => ({
+          nodeId: node.id,
+          message: 'Image uses a data: URL, which Gmail blocks',
+        })),
+  },
+  {
+    id: 'image-missing-alt',
+    label: 'Images without alt text',
+    description: 'Outlook blocks images by default and shows the alt text in their place.',
+    clients: ['Outlook'],
+    severity: 'warning',
+    check: (email) =>
+      collectNodes(email)
+        .filter((node) => (node.type === 'image' || node.type === 'video') && !!getNodeImageSource(node) && !node.alt?.trim())
+        .map((node) => ({
+          nodeId: node.id,
+          message: 'Image has no alt text',
+        })),
+  },
+  {
+    id: 'long-body',
+    label: 'Very long body',
+    description: 'Gmail clips messages over 102KB, hiding the rest of the email and its unsubscribe link.',
+    clients: ['Gmail'],
+    severity: 'error',
+    check: (email) => {
+      const bytes = getByteSize(renderEmailHTML(email))
+      return bytes > GMAIL_CLIP_BYTES
+        ? [{ message: `Rendered HTML is ${Math.ceil(bytes / 1024)}KB, so Gmail will clip it` }]
+        : []
+    },
+  },
+]
+
+/**
+ * Run every enabled rule against an email and collect the issues found
+ */
+export function lintEmail(
+  email: EmailJSON,
+  disabledRuleIds: string[] = [],
+  rules: LintRule[] = LINT_RULES
+): LintIssue[] {
+  return rules
+    .filter((rule) => !disabledRuleIds.includes(rule.id))
+    .flatMap((rule) =>
+      rule.check(email).map((issue) => ({ ...issue, ruleId: rule.id, severity: rule.severity }))
+    )
+}
+
+export function getLintRule(id: string): LintRule | undefined {
+  return LINT_RULES.find((rule) => rule.id === id)
+}
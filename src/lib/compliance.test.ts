@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailJSON, EmailNode, FooterNode } from '../types/email'
+import { checkCompliance } from './compliance'
+
+const footer: FooterNode = {
+  id: 'footer',
+  type: 'footer',
+  postalAddress: '1 Main Street',
+  unsubscribeVariable: 'unsubscribeUrl',
+  preferencesUrl: 'https://example.com/preferences',
+  legalText: 'You signed up at example.com',
+}
+
+function marketingEmail(...children: EmailNode[]): EmailJSON {
+  return {
+    version: 2,
+    meta: { subject: 'News', previewText: '', category: 'marketing' },
+    root: { id: 'root', type: 'section', children },
+  }
+}
+
+describe('checkCompliance', () => {
+  it('accepts a complete footer every recipient gets', () => {
+    expect(checkCompliance(marketingEmail({ id: 'section', type: 'section', children: [footer] }))).toEqual([])
+  })
+
+  it('flags a footer inside a conditional section', () => {
+    const section: EmailNode = {
+      id: 'section',
+      type: 'section',
+      condition: { variable: 'isMember', operator: 'truthy' },
+      children: [footer],
+    }
+    expect(checkCompliance(marketingEmail(section))).toEqual([
+      'The footer or a block around it has a visibility condition, so some recipients would not get it',
+    ])
+  })
+
+  it.each<[string, EmailNode]>([
+    ['children', { id: 'repeat', type: 'repeat', dataVariable: 'items', children: [footer] }],
+    ['empty state', { id: 'repeat', type: 'repeat', dataVariable: 'items', emptyState: footer }],
+  ])('flags a footer in a repeat block’s %s', (_, repeat) => {
+    expect(checkCompliance(marketingEmail(repeat))).toEqual([
+      'The footer is inside a repeat block, so recipients would get it once per item or only when the list is empty',
+    ])
+  })
+
+  it('accepts a repeated footer when another one is shown once', () => {
+    const repeat: EmailNode = { id: 'repeat', type: 'repeat', dataVariable: 'items', children: [footer] }
+    expect(checkCompliance(marketingEmail(repeat, { ...footer, id: 'footer-2' }))).toEqual([])
+  })
+})
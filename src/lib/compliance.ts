@@ -0,0 +1,68 @@
+import type { EmailJSON, EmailMeta, EmailNode, FooterNode } from '../types/email'
+
+// Footer fields CAN-SPAM and GDPR require, with the name used when one is missing
+export const FOOTER_REQUIRED_FIELDS: {
+  key: 'postalAddress' | 'unsubscribeVariable' | 'preferencesUrl' | 'legalText'
+  label: string
+}[] = [
+  { key: 'postalAddress', label: 'postal address' },
+  { key: 'unsubscribeVariable', label: 'unsubscribe link' },
+  { key: 'preferencesUrl', label: 'preferences link' },
+  { key: 'legalText', label: 'legal text' },
+]
+
+export function isMarketingEmail(meta: EmailMeta): boolean {
+  return meta.category !== 'transactional'
+}
+
+/**
+ * Labels of the required fields a footer leaves empty
+ */
+export function missingFooterFields(node: FooterNode): string[] {
+  return FOOTER_REQUIRED_FIELDS.filter(({ key }) => !node[key]?.trim()).map(({ label }) => label)
+}
+
+/**
+ * Footer with where it sits: whether it or a block around it has a
+ * visibility condition, and whether it is inside a repeat block, where it
+ * shows once per item or, in the empty state, only when there are none
+ */
+interface PlacedFooter {
+  node: FooterNode
+  conditional: boolean
+  repeated: boolean
+}
+
+function collectFooters(node: EmailNode, conditional = false, repeated = false): PlacedFooter[] {
+  const hidden = conditional || Boolean(node.condition?.variable)
+  const inRepeat = repeated || node.type === 'repeat'
+  const own = node.type === 'footer' ? [{ node, conditional: hidden, repeated }] : []
+  const empty = node.type === 'repeat' && node.emptyState ? collectFooters(node.emptyState, hidden, true) : []
+  return [...own, ...(node.children || []).flatMap((child) => collectFooters(child, hidden, inRepeat)), ...empty]
+}
+
+/**
+ * Reasons a marketing email would break CAN-SPAM or GDPR: no footer, a
+ * footer with empty required fields, or one that not every recipient gets
+ * exactly once. Transactional emails need no footer, so they never have any.
+ */
+export function checkCompliance(email: EmailJSON): string[] {
+  if (!isMarketingEmail(email.meta)) return []
+
+  const footers = collectFooters(email.root)
+  if (footers.length === 0) {
+    return ['There is no compliance footer with an unsubscribe link and postal address']
+  }
+
+  // One complete footer that every recipient gets once is enough
+  if (footers.some(({ node, conditional, repeated }) => missingFooterFields(node).length === 0 && !conditional && !repeated)) {
+    return []
+  }
+
+  const { node, conditional, repeated } = footers[0]
+  return [
+    ...missingFooterFields(node).map((label) => `The footer has no ${label}`),
+    ...(conditional ? ['The footer or a block around it has a visibility condition, so some recipients would not get it'] : []),
+    ...(repeated ? ['The footer is inside a repeat block, so recipients would get it once per item or only when the list is empty'] : []),
+  ]
+}
@@ -0,0 +1,86 @@
+import type { VisibilityCondition } from '../types/email'
+import { parseArrayVariable } from './arrayVariables'
+
+export const CONDITION_OPERATORS: { id: VisibilityCondition['operator']; label: string }[] = [
+  { id: 'truthy', label: 'is true' },
+  { id: 'equals', label: 'equals' },
+  { id: 'notEmpty', label: 'is not empty' },
+]
+
+export const CONDITION_CLOSE_TAG = '{{/if}}'
+
+// Test values that stand in for the JSON false and 0 a sending service would get
+const FALSY_VALUES = ['false', '0']
+
+// Innermost {{#if name}} or {{#if (eq name "value")}} block, so nested ones expand inside out
+const CONDITION_REGEX =
+  /\{\{#if (?:(\w+)|\(eq (\w+) ("(?:[^"\\]|\\.)*")\))\}\}((?:(?!\{\{#if )[\s\S])*?)\{\{\/if\}\}/g
+
+/**
+ * Whether a block with this condition is shown for the given variable
+ * values. Blocks without a condition are always shown.
+ */
+export function evaluateCondition(
+  condition: VisibilityCondition | undefined,
+  variables: Record<string, string>
+): boolean {
+  if (!condition?.variable) return true
+  const value = variables[condition.variable] ?? ''
+  if (condition.operator === 'equals') return value === (condition.value ?? '')
+
+  // Array variables hold JSON, which is empty when it has no elements
+  const items = parseArrayVariable(value)
+  if (items) return items.length > 0
+  if (condition.operator === 'notEmpty') return value.trim() !== ''
+  return value.trim() !== '' && !FALSY_VALUES.includes(value.trim().toLowerCase())
+}
+
+/**
+ * Short description for the editor, e.g. "status equals "gold""
+ */
+export function describeCondition(condition: VisibilityCondition): string {
+  const operator = CONDITION_OPERATORS.find((option) => option.id === condition.operator)
+  const description = `${condition.variable} ${operator?.label ?? 'is true'}`
+  return condition.operator === 'equals' ? `${description} "${condition.value ?? ''}"` : description
+}
+
+/**
+ * Opening Handlebars tag for a condition. "Equals" uses an eq helper, which
+ * the ESP exports translate into each provider's own; "is true" and "is not
+ * empty" are both a plain {{#if}}, which is false for empty strings and arrays.
+ */
+export function conditionOpenTag(condition: VisibilityCondition): string {
+  return condition.operator === 'equals'
+    ? `{{#if (eq ${condition.variable} ${JSON.stringify(condition.value ?? '')})}}`
+    : `{{#if ${condition.variable}}}`
+}
+
+/**
+ * Wrap rendered output in a condition's {{#if}} block
+ */
+export function wrapCondition(condition: VisibilityCondition | undefined, content: string): string {
+  if (!condition?.variable || !content) return content
+  return `${conditionOpenTag(condition)}${content}${CONDITION_CLOSE_TAG}`
+}
+
+/**
+ * Evaluate exported {{#if}} blocks using test values, for previews and
+ * exports that fill variables in
+ */
+export function expandConditions(text: string, variables: Record<string, string>): string {
+  let result = text
+  let previous: string
+  do {
+    previous = result
+    result = result.replace(
+      CONDITION_REGEX,
+      (_, name: string | undefined, eqName: string | undefined, eqValue: string | undefined, body: string) => {
+        const condition: VisibilityCondition = eqName
+          ? { variable: eqName, operator: 'equals', value: JSON.parse(eqValue ?? '""') }
+          : { variable: name ?? '', operator: 'truthy' }
+        return evaluateCondition(condition, variables) ? body : ''
+      }
+    )
+  } while (result !== previous)
+  return result
+}
@@ -1 +1,9 @@
 export const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3000'
+
+// Exported emails load the social icons from here, so it must be an absolute,
+// publicly reachable URL. The fallback is the copies this app serves from
+// public/social-icons on its own origin, which works once the app is deployed
+// to a public host; exporting warns while it runs on localhost.
+export const SOCIAL_ICON_BASE_URL =
+  import.meta.env.VITE_SOCIAL_ICON_BASE_URL ||
+  `${typeof window === 'undefined' ? '' : window.location.origin}/social-icons`
@@ -0,0 +1,20 @@
+export type DarkModePreview = 'off' | 'apple-mail' | 'gmail'
+
+export const DARK_MODE_PREVIEWS: { id: DarkModePreview; label: string }[] = [
+  { id: 'off', label: 'Light' },
+  { id: 'apple-mail', label: 'Dark (Apple Mail)' },
+  { id: 'gmail', label: 'Dark (Gmail)' },
+]
+
+/**
+ * Gmail ignores dark-mode CSS and inverts the whole message itself.
+ * Rotating the hue back keeps brand colours recognisable, as Gmail does,
+ * and applying the filter again to images restores them.
+ */
+export const GMAIL_INVERSION_FILTER = 'invert(1) hue-rotate(180deg)'
+
+/**
+ * Apple Mail's own dark background and text colour, which show wherever the
+ * email sets no dark-mode colour of its own
+ */
+export const APPLE_MAIL_DARK_PALETTE = { backgroundColor: '#1C1C1E', color: '#F2F2F7' }
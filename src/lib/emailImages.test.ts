@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailNode } from '../types/email'
+import { collectImageSources, replaceImageSources } from './emailImages'
+import { getSocialIconUrl } from './socialIcons'
+
+const root: EmailNode = {
+  id: 'root',
+  type: 'section',
+  children: [
+    { id: 'logo', type: 'image', src: 'https://cdn.example.com/logo.png', alt: 'Logo' },
+    {
+      id: 'social',
+      type: 'social',
+      iconStyle: 'mono',
+      links: [
+        { network: 'facebook', url: 'https://facebook.com/example' },
+        { network: 'x', url: '' },
+      ],
+    },
+  ],
+}
+
+describe('collectImageSources', () => {
+  it('includes the icons of social links that have a URL', () => {
+    expect(collectImageSources(root)).toEqual([
+      'https://cdn.example.com/logo.png',
+      getSocialIconUrl('facebook', 'mono'),
+    ])
+  })
+})
+
+describe('replaceImageSources', () => {
+  it('points social links at the replacement icons', () => {
+    const replaced = replaceImageSources(root, new Map([[getSocialIconUrl('facebook', 'mono'), 'images/facebook.png']]))
+    const social = replaced.children?.[1]
+    expect(social?.type === 'social' && social.links).toEqual([
+      { network: 'facebook', url: 'https://facebook.com/example', iconSrc: 'images/facebook.png' },
+      { network: 'x', url: '' },
+    ])
+  })
+})
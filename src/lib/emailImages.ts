@@ -0,0 +1,107 @@
+import type { EmailNode } from '../types/email'
+import { getSocialLinkIconUrl, getSocialLinks } from './socialIcons'
+
+export interface FetchedImage {
+  src: string
+  fileName: string
+  mimeType: string
+  data: Uint8Array
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+}
+
+/**
+ * URL of the picture a node shows: an image's src or a video's thumbnail
+ */
+export function getNodeImageSource(node: EmailNode): string | undefined {
+  if (node.type === 'image') return node.src
+  if (node.type === 'video') return node.thumbnailSrc
+  return undefined
+}
+
+/**
+ * Distinct image URLs used anywhere in the tree, in document order,
+ * including social icons
+ */
+export function collectImageSources(root: EmailNode): string[] {
+  const sources = new Set<string>()
+  const visit = (node: EmailNode) => {
+    const source = getNodeImageSource(node)
+    if (source) sources.add(source)
+    if (node.type === 'social') {
+      getSocialLinks(node).forEach((link) => sources.add(getSocialLinkIconUrl(link, node.iconStyle)))
+    }
+    if (node.type === 'repeat' && node.emptyState) visit(node.emptyState)
+    node.children?.forEach(visit)
+  }
+  visit(root)
+  return Array.from(sources)
+}
+
+/**
+ * Copy of the tree with image URLs swapped according to the given map
+ */
+export function replaceImageSources(node: EmailNode, replacements: Map<string, string>): EmailNode {
+  const children = node.children?.map((child) => replaceImageSources(child, replacements))
+  const replaced =
+    node.type === 'image' && node.src && replacements.has(node.src)
+      ? { ...node, src: replacements.get(node.src) }
+      : node.type === 'video' && node.thumbnailSrc && replacements.has(node.thumbnailSrc)
+        ? { ...node, thumbnailSrc: replacements.get(node.thumbnailSrc) }
+        : node.type === 'repeat' && node.emptyState
+          ? { ...node, emptyState: replaceImageSources(node.emptyState, replacements) }
+          : node.type === 'social' && node.links
+            ? {
+                ...node,
+                links: node.links.map((link) => {
+                  const iconSrc = replacements.get(getSocialLinkIconUrl(link, node.iconStyle))
+                  return iconSrc ? { ...link, iconSrc } : link
+                }),
+              }
+            : node
+  return children ? { ...replaced, children } : replaced
+}
+
+function imageFileName(src: string, mimeType: string, index: number): string {
+  const urlName = src.startsWith('data:')
+    ? ''
+    : decodeURIComponent(new URL(src, window.location.href).pathname.split('/').pop() || '')
+  const base = urlName.replace(/\.[^.]+$/, '').replace(/[^\w-]+/g, '-').slice(0, 40) || 'image'
+  const extension = IMAGE_EXTENSIONS[mimeType] || urlName.split('.').pop() || 'bin'
+  return `${index + 1}-${base}.${extension}`
+}
+
+/**
+ * Download every image so it can be packaged with the email. Works for
+ * data: URLs too. Images that can't be fetched, e.g. from hosts without
+ * CORS headers, are returned in `failed` instead of aborting the export.
+ */
+export async function fetchImages(sources: string[]): Promise<{ images: FetchedImage[]; failed: string[] }> {
+  const images: FetchedImage[] = []
+  const failed: string[] = []
+
+  for (const [index, src] of sources.entries()) {
+    try {
+      const response = await fetch(src)
+      if (!response.ok) throw new Error(`HTTP ${response.status}`)
+      const blob = await response.blob()
+      images.push({
+        src,
+        fileName: imageFileName(src, blob.type, index),
+        mimeType: blob.type || 'application/octet-stream',
+        data: new Uint8Array(await blob.arrayBuffer()),
+      })
+    } catch (error) {
+      console.error('Failed to fetch image:', src, error)
+      failed.push(src.startsWith('data:') ? `Embedded image ${index + 1}` : src)
+    }
+  }
+
+  return { images, failed }
+}
@@ -0,0 +1,85 @@
+import type { EmailJSON, EmailNode } from '../types/email'
+import { renderBlockHTML, renderEmailHTML } from './htmlRenderer'
+import { getSocialLinks, getSocialNetworkLabel } from './socialIcons'
+
+/** Gmail clips message bodies larger than this and hides the rest behind a link */
+export const GMAIL_CLIP_BYTES = 102 * 1024
+
+/** Share of the clipping limit at which the budget starts warning */
+export const SIZE_WARNING_RATIO = 0.8
+
+export interface BlockSize {
+  nodeId: string
+  label: string
+  bytes: number
+}
+
+export interface EmailSizeReport {
+  totalBytes: number
+  /** Document shell, head and styles that don't belong to any block */
+  layoutBytes: number
+  blocks: BlockSize[]
+  status: 'ok' | 'warning' | 'clipped'
+}
+
+export function getByteSize(text: string): number {
+  return new TextEncoder().encode(text).length
+}
+
+export function formatBytes(bytes: number): string {
+  return bytes < 1024 ? `${bytes}B` : `${(bytes / 1024).toFixed(1)}KB`
+}
+
+function describeBlock(node: EmailNode): string {
+  const type = node.type.charAt(0).toUpperCase() + node.type.slice(1)
+  const summary =
+    node.type === 'heading' || node.type === 'text'
+      ? node.text
+      : node.type === 'button'
+        ? node.label
+        : node.type === 'image'
+          ? node.src?.startsWith('data:')
+            ? 'embedded data URL'
+            : node.alt || node.src?.split('/').pop()
+          : node.type === 'row'
+            ? `${node.children?.length ?? 0} columns`
+            : node.type === 'list'
+              ? node.items?.[0]?.text
+              : node.type === 'footer'
+                ? node.postalAddress
+                : node.type === 'social'
+                  ? getSocialLinks(node).map((link) => getSocialNetworkLabel(link.network)).join(', ')
+                  : node.type === 'video'
+                    ? node.alt || node.videoUrl
+                    : (node.type === 'table' || node.type === 'repeat') && node.dataVariable
+                      ? `${node.type === 'table' ? 'rows' : 'blocks'} from {{${node.dataVariable}}}`
+                      : undefined
+
+  if (!summary) return type
+  return `${type}: ${summary.length > 40 ? `${summary.slice(0, 40)}…` : summary}`
+}
+
+/**
+ * Estimate the size of the rendered HTML and attribute it to top-level blocks
+ */
+export function analyzeEmailSize(email: EmailJSON): EmailSizeReport {
+  const totalBytes = getByteSize(renderEmailHTML(email))
+  const blocks = (email.root.children || []).map((node) => ({
+    nodeId: node.id,
+    label: describeBlock(node),
+    bytes: getByteSize(renderBlockHTML(node)),
+  }))
+  const blockBytes = blocks.reduce((sum, block) => sum + block.bytes, 0)
+
+  return {
+    totalBytes,
+    layoutBytes: Math.max(totalBytes - blockBytes, 0),
+    blocks,
+    status:
+      totalBytes > GMAIL_CLIP_BYTES
+        ? 'clipped'
+        : totalBytes > GMAIL_CLIP_BYTES * SIZE_WARNING_RATIO
+          ? 'warning'
+          : 'ok',
+  }
+}
@@ -0,0 +1,226 @@
+import type { Email } from '../types/email'
+import { escapeHTML, renderEmailHTML } from './htmlRenderer'
+import { renderFilledPlainText } from './plainTextRenderer'
+import { substituteVariables } from './variableParser'
+import { expandLoops } from './arrayVariables'
+import { expandConditions } from './conditions'
+import { collectImageSources, fetchImages, replaceImageSources } from './emailImages'
+import type { FetchedImage } from './emailImages'
+import { generateId } from './utils'
+
+export interface EmlOptions {
+  from: string
+  to: string
+  /** Attach images to the message and reference them by Content-ID */
+  embedImages: boolean
+  unsubscribeUrl: string
+  unsubscribeMailto: string
+  /** Adds List-Unsubscribe-Post for RFC 8058 one-click unsubscribe */
+  oneClickUnsubscribe: boolean
+}
+
+export const DEFAULT_EML_OPTIONS: EmlOptions = {
+  from: 'Sender <sender@example.com>',
+  to: 'Recipient <recipient@example.com>',
+  embedImages: false,
+  unsubscribeUrl: '',
+  unsubscribeMailto: '',
+  oneClickUnsubscribe: false,
+}
+
+const CRLF = '\r\n'
+const MAX_LINE_LENGTH = 76
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+function wrapBase64(bytes: Uint8Array): string {
+  return toBase64(bytes).match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, 'g'))?.join(CRLF) ?? ''
+}
+
+/**
+ * RFC 2047 encoded-words for header values that aren't plain ASCII
+ */
+function encodeHeader(value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) return value
+
+  // Keep each encoded-word under the 75 character limit without splitting a character
+  const encoder = new TextEncoder()
+  const words: string[] = []
+  let chunk = ''
+  for (const char of value) {
+    if (encoder.encode(chunk + char).length > 45) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  if (chunk) words.push(chunk)
+
+  return words.map((word) => `=?UTF-8?B?${toBase64(encoder.encode(word))}?=`).join(`${CRLF} `)
+}
+
+/**
+ * Quoted-printable body encoding (RFC 2045), keeping lines within 76 characters
+ */
+function encodeQuotedPrintable(text: string): string {
+  const encoder = new TextEncoder()
+
+  return text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => {
+      const bytes = encoder.encode(line)
+      let output = ''
+      let current = ''
+
+      bytes.forEach((byte, index) => {
+        const isLast = index === bytes.length - 1
+        // Trailing whitespace must be encoded or transports may strip it
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && !isLast)
+        const encoded = literal
+          ? String.fromCharCode(byte)
+          : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`
+
+        if (current.length + encoded.length > MAX_LINE_LENGTH - 1) {
+          output += `${current}=${CRLF}`
+          current = ''
+        }
+        current += encoded
+      })
+
+      return output + current
+    })
+    .join(CRLF)
+}
+
+// Only the display name may be encoded; the address itself must stay ASCII
+function encodeAddress(value: string): string {
+  const match = value.match(/^(.*?)\s*<([^>]+)>$/)
+  if (!match) return value.trim()
+  return match[1] ? `${encodeHeader(match[1].replace(/^"|"$/g, ''))} <${match[2]}>` : `<${match[2]}>`
+}
+
+function formatDateHeader(date: Date): string {
+  return date.toUTCString().replace('GMT', '+0000')
+}
+
+function senderDomain(from: string): string {
+  return from.match(/@([\w.-]+)/)?.[1] || 'localhost'
+}
+
+function listUnsubscribeHeaders(options: EmlOptions): string[] {
+  const targets = [
+    options.unsubscribeMailto.trim() &&
+      `<${options.unsubscribeMailto.trim().replace(/^(?!mailto:)/, 'mailto:')}>`,
+    options.unsubscribeUrl.trim() && `<${options.unsubscribeUrl.trim()}>`,
+  ].filter(Boolean)
+
+  if (targets.length === 0) return []
+  return [
+    `List-Unsubscribe: ${targets.join(', ')}`,
+    ...(options.oneClickUnsubscribe && options.unsubscribeUrl.trim()
+      ? ['List-Unsubscribe-Post: List-Unsubscribe=One-Click']
+      : []),
+  ]
+}
+
+function textPart(contentType: string, body: string): string {
+  return [
+    `Content-Type: ${contentType}; charset=UTF-8`,
+    'Content-Transfer-Encoding: quoted-printable',
+    '',
+    encodeQuotedPrintable(body),
+  ].join(CRLF)
+}
+
+function imagePart(image: FetchedImage, contentId: string): string {
+  return [
+    `Content-Type: ${image.mimeType}; name="${image.fileName}"`,
+    'Content-Transfer-Encoding: base64',
+    `Content-ID: <${contentId}>`,
+    `Content-Disposition: inline; filename="${image.fileName}"`,
+    '',
+    wrapBase64(image.data),
+  ].join(CRLF)
+}
+
+function multipart(subtype: string, parts: string[]): string {
+  const boundary = `=_${subtype}_${generateId()}`
+  return [
+    `Content-Type: multipart/${subtype}; boundary="${boundary}"`,
+    '',
+    ...parts.map((part) => `--${boundary}${CRLF}${part}`),
+    `--${boundary}--`,
+  ].join(CRLF)
+}
+
+/**
+ * Build an RFC 5322 message with plain-text and HTML alternatives, ready to
+ * open in a desktop mail client or hand to an SMTP sink.
+ *
+ * The hidden preheader comes from the HTML renderer. Test variable values
+ * that have been filled in are substituted; the rest stay as {{placeholders}}.
+ */
+export async function buildEmlMessage(
+  email: Email,
+  options: EmlOptions = DEFAULT_EML_OPTIONS,
+  variables: Record<string, string> = {}
+): Promise<{ content: string; warnings: string[] }> {
+  const values = Object.fromEntries(Object.entries(variables).filter(([, value]) => value))
+  const htmlValues = Object.fromEntries(
+    Object.entries(values).map(([name, value]) => [name, escapeHTML(value)])
+  )
+  const { jsonStructure } = email
+  const domain = senderDomain(options.from)
+
+  let images: FetchedImage[] = []
+  let warnings: string[] = []
+  let root = jsonStructure.root
+  const contentIds = new Map<string, string>()
+
+  if (options.embedImages) {
+    const fetched = await fetchImages(collectImageSources(root))
+    images = fetched.images
+    warnings = fetched.failed
+    images.forEach((image) => contentIds.set(image.src, `${image.fileName}@${domain}`))
+    root = replaceImageSources(
+      root,
+      new Map(Array.from(contentIds, ([src, contentId]) => [src, `cid:${contentId}`]))
+    )
+  }
+
+  const html = substituteVariables(
+    expandConditions(expandLoops(renderEmailHTML({ ...jsonStructure, root }), values, escapeHTML), values),
+    htmlValues
+  )
+  const text = `${renderFilledPlainText(jsonStructure.root.children || [], values)}\n`
+
+  const htmlPart =
+    images.length > 0
+      ? multipart('related', [
+          textPart('text/html', html),
+          ...images.map((image) => imagePart(image, contentIds.get(image.src) ?? image.fileName)),
+        ])
+      : textPart('text/html', html)
+
+  const headers = [
+    `From: ${encodeAddress(options.from)}`,
+    `To: ${encodeAddress(options.to)}`,
+    `Subject: ${encodeHeader(substituteVariables(jsonStructure.meta.subject, values))}`,
+    `Date: ${formatDateHeader(new Date())}`,
+    `Message-ID: <${generateId()}@${domain}>`,
+    ...listUnsubscribeHeaders(options),
+    'MIME-Version: 1.0',
+  ]
+
+  const body = multipart('alternative', [textPart('text/plain', text), htmlPart])
+
+  return { content: [...headers, body].join(CRLF) + CRLF, warnings }
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { buildMailchimpMergeTags, renderEspTemplate } from './espExporters'
+import type { EspId } from './espExporters'
+import { createOrderConfirmation, toEmail } from './__fixtures__/emails'
+import type { OrderConfirmationOptions } from './__fixtures__/emails'
+
+// The most of the fixture each provider's template syntax can express
+const SUPPORTED: Record<EspId, OrderConfirmationOptions> = {
+  sendgrid: {},
+  mailgun: { itemLimit: false },
+  postmark: { comparisons: false, itemLimit: false },
+  ses: { comparisons: false, itemLimit: false },
+  mailchimp: { loops: false },
+}
+
+function render(id: EspId, options: OrderConfirmationOptions = {}) {
+  return renderEspTemplate(toEmail(createOrderConfirmation(options)), id)
+}
+
+describe('renderEspTemplate', () => {
+  it.each(Object.keys(SUPPORTED) as EspId[])('renders a %s template', (id) => {
+    expect(JSON.parse(render(id, SUPPORTED[id]))).toMatchSnapshot()
+  })
+
+  it.each(['postmark', 'ses'] as const)('rejects "equals" conditions for %s', (id) => {
+    expect(() => render(id, { itemLimit: false })).toThrow(/can't compare values/)
+  })
+
+  it.each(['mailgun', 'postmark', 'ses'] as const)('rejects capped loops for %s', (id) => {
+    expect(() => render(id, { comparisons: false })).toThrow(/can't limit how many items/)
+  })
+
+  it('rejects loops for mailchimp', () => {
+    expect(() => render('mailchimp')).toThrow(/no loops/)
+  })
+})
+
+describe('buildMailchimpMergeTags', () => {
+  it('gives variables that truncate to the same tag a numeric suffix', () => {
+    const tags = buildMailchimpMergeTags(['customerFirstName', 'customerFirstOrder', 'customerFirstVisit', 'firstName'])
+    expect(Object.fromEntries(tags)).toEqual({
+      customerFirstName: 'CUSTOMERFI',
+      customerFirstOrder: 'CUSTOMERF2',
+      customerFirstVisit: 'CUSTOMERF3',
+      firstName: 'FIRSTNAME',
+    })
+  })
+
+  it('keeps suffixed tags unique when the suffix itself collides', () => {
+    const tags = buildMailchimpMergeTags(['customerF2', 'customerFirstName', 'customerFirstOrder'])
+    expect(new Set(tags.values()).size).toBe(3)
+    expect([...tags.values()].every((tag) => tag.length <= 10)).toBe(true)
+  })
+})
@@ -0,0 +1,298 @@
+import type { Email } from '../types/email'
+import { renderEmailHTML } from './htmlRenderer'
+import { renderEmailPlainText } from './plainTextRenderer'
+import { collectTemplateVariables, parseTemplate, renderTemplate } from './templateSyntax'
+import type { TemplateDialect, TemplateScope } from './templateSyntax'
+
+export type EspId = 'sendgrid' | 'mailgun' | 'postmark' | 'ses' | 'mailchimp'
+
+export interface EspTemplateParts {
+  /** Identifier-safe template name derived from the subject */
+  name: string
+  subject: string
+  html: string
+  text: string
+  /** Variables used anywhere in the template, in order of first use */
+  variables: string[]
+}
+
+export interface EspAdapter {
+  id: EspId
+  label: string
+  /**
+   * This provider's syntax for our variables, conditions and loops, given
+   * all the variables the template uses
+   */
+  createDialect: (variables: string[]) => TemplateDialect
+  /** Request body for the provider's template create/upload API */
+  buildPayload: (parts: EspTemplateParts) => Record<string, unknown>
+}
+
+function isHtmlVariable(name: string, scope: TemplateScope): boolean {
+  return scope.html && /html$/i.test(name)
+}
+
+// Block helpers a Handlebars provider ships beyond if and each
+interface HandlebarsHelpers {
+  /** Compares a variable to a string, e.g. {{#equals tier "gold"}} */
+  equals?: string
+  /** Compares two numbers, used to cap loops with {{#lessThan @index 3}} */
+  lessThan?: string
+}
+
+/**
+ * Handlebars syntax. Values are HTML-escaped by the provider, except for
+ * variables named *Html, which are meant to carry markup and use {{{triple}}}
+ * braces in the HTML part. Inside a loop, top-level variables are read
+ * through @root so they don't resolve against the element.
+ */
+function createHandlebarsDialect(label: string, helpers: HandlebarsHelpers): TemplateDialect {
+  const reference = (name: string, scope: TemplateScope) => (scope.blocks.includes('loop') ? `@root.${name}` : name)
+  return {
+    variable: (name, scope) =>
+      isHtmlVariable(name, scope) ? `{{{${reference(name, scope)}}}}` : `{{${reference(name, scope)}}}`,
+    itemField: (path) => (path ? `{{this.${path}}}` : '{{this}}'),
+    condition: (condition, body, scope) => {
+      if (condition.operator !== 'equals') return `{{#if ${reference(condition.variable, scope)}}}${body}{{/if}}`
+      if (!helpers.equals) {
+        throw new Error(
+          `${label} templates can't compare values, so the condition "${condition.variable} equals ${JSON.stringify(condition.value ?? '')}" can't be exported. Use an "is true" condition on a flag variable instead.`
+        )
+      }
+      const value = JSON.stringify(condition.value ?? '')
+      return `{{#${helpers.equals} ${reference(condition.variable, scope)} ${value}}}${body}{{/${helpers.equals}}}`
+    },
+    limit: (maxItems, body) => {
+      if (!helpers.lessThan) {
+        throw new Error(
+          `${label} templates can't limit how many items a loop shows. Clear the repeat block's item limit and trim the array before sending instead.`
+        )
+      }
+      return `{{#${helpers.lessThan} @index ${maxItems}}}${body}{{/${helpers.lessThan}}}`
+    },
+    loop: (variable, body, empty, scope) =>
+      `{{#each ${reference(variable, scope)}}}${body}${empty ? `{{else}}${empty}` : ''}{{/each}}`,
+  }
+}
+
+/**
+ * Postmark's Mustachio: Handlebars-style variables and loops, but conditions
+ * are {{#name}} sections and there are no helpers. Every section opens a
+ * scope, so variables outside it are reached through ../
+ */
+const postmarkDialect: TemplateDialect = {
+  variable: (name, scope) => {
+    const reference = `${'../'.repeat(scope.blocks.length)}${name}`
+    return isHtmlVariable(name, scope) ? `{{{${reference}}}}` : `{{${reference}}}`
+  },
+  itemField: (path, scope) => {
+    const prefix = '../'.repeat(scope.blocks.length - 1 - scope.blocks.lastIndexOf('loop'))
+    return path ? `{{${prefix}${path}}}` : `{{${prefix || '.'}}}`
+  },
+  condition: (condition, body, scope) => {
+    if (condition.operator === 'equals') {
+      throw new Error(
+        `Postmark templates can't compare values, so the condition "${condition.variable} equals ${JSON.stringify(condition.value ?? '')}" can't be exported. Use an "is true" condition on a flag variable instead.`
+      )
+    }
+    const reference = `${'../'.repeat(scope.blocks.length)}${condition.variable}`
+    return `{{#${reference}}}${body}{{/${reference}}}`
+  },
+  limit: () => {
+    throw new Error(
+      "Postmark templates can't limit how many items a loop shows. Clear the repeat block's item limit and trim the array before sending instead."
+    )
+  },
+  // An inverted section after the loop stands in for the empty state
+  loop: (variable, body, empty, scope) => {
+    const reference = `${'../'.repeat(scope.blocks.length)}${variable}`
+    return `{{#each ${reference}}}${body}{{/each}}${empty ? `{{^${reference}}}${empty}{{/${reference}}}` : ''}`
+  },
+}
+
+const MAILCHIMP_TAG_LENGTH = 10
+
+/**
+ * Mailchimp merge tags are upper case, alphanumeric and at most 10 characters
+ */
+export function toMailchimpMergeTag(name: string): string {
+  return name.toUpperCase().replace(/[^A-Z0-9_]/g, '').slice(0, MAILCHIMP_TAG_LENGTH) || 'MERGE'
+}
+
+/**
+ * Merge tag for each variable. Truncating to 10 characters makes names like
+ * customerFirstName and customerFirstOrder collide, so later ones get a
+ * numeric suffix instead: CUSTOMERFI, CUSTOMERF2.
+ */
+export function buildMailchimpMergeTags(variables: string[]): Map<string, string> {
+  const tags = new Map<string, string>()
+  const used = new Set<string>()
+  for (const variable of variables) {
+    if (tags.has(variable)) continue
+    const base = toMailchimpMergeTag(variable)
+    let tag = base
+    for (let n = 2; used.has(tag); n++) {
+      tag = `${base.slice(0, MAILCHIMP_TAG_LENGTH - String(n).length)}${n}`
+    }
+    tags.set(variable, tag)
+    used.add(tag)
+  }
+  return tags
+}
+
+/**
+ * Mailchimp merge language: *|TAG|* variables and *|IF:TAG|* conditions.
+ * It has no loops, so tables and repeat blocks bound to an array can't be
+ * exported.
+ */
+function createMailchimpDialect(variables: string[]): TemplateDialect {
+  const tags = buildMailchimpMergeTags(variables)
+  const tag = (name: string) => tags.get(name) ?? toMailchimpMergeTag(name)
+  return {
+    // *|HTML:TAG|* keeps a value's markup instead of escaping it
+    variable: (name, scope) => (isHtmlVariable(name, scope) ? `*|HTML:${tag(name)}|*` : `*|${tag(name)}|*`),
+    itemField: () => {
+      throw new Error('Mailchimp merge tags have no loops, so array item fields can\'t be exported')
+    },
+    condition: (condition, body) => {
+      if (condition.operator !== 'equals') return `*|IF:${tag(condition.variable)}|*${body}*|END:IF|*`
+      const value = condition.value ?? ''
+      if (/[|*]/.test(value)) {
+        throw new Error(
+          `Mailchimp conditions can't compare against "${value}", since merge tags can't contain | or *`
+        )
+      }
+      return `*|IF:${tag(condition.variable)}=${value}|*${body}*|END:IF|*`
+    },
+    limit: () => {
+      throw new Error('Mailchimp merge tags have no loops, so a repeat block\'s item limit can\'t be exported')
+    },
+    loop: (variable) => {
+      throw new Error(
+        `Mailchimp merge tags have no loops, so the table or repeat block over "${variable}" can't be exported. Remove it, or export for a provider with Handlebars templates.`
+      )
+    },
+  }
+}
+
+export const ESP_ADAPTERS: EspAdapter[] = [
+  {
+    id: 'sendgrid',
+    label: 'SendGrid',
+    createDialect: () => createHandlebarsDialect('SendGrid', { equals: 'equals', lessThan: 'lessThan' }),
+    // Body for POST /v3/templates/{template_id}/versions (dynamic templates)
+    buildPayload: ({ name, subject, html, text }) => ({
+      name,
+      subject,
+      html_content: html,
+      plain_content: text,
+      generate_plain_content: false,
+      editor: 'code',
+      active: 1,
+    }),
+  },
+  {
+    id: 'mailgun',
+    label: 'Mailgun',
+    createDialect: () => createHandlebarsDialect('Mailgun', { equals: 'equal' }),
+    // Fields for POST /v3/{domain}/templates
+    buildPayload: ({ name, subject, html }) => ({
+      name,
+      description: subject,
+      template: html,
+      engine: 'handlebars',
+      headers: JSON.stringify({ Subject: subject }),
+    }),
+  },
+  {
+    id: 'postmark',
+    label: 'Postmark',
+    createDialect: () => postmarkDialect,
+    // Body for POST /templates
+    buildPayload: ({ name, subject, html, text }) => ({
+      Name: subject || name,
+      Alias: name,
+      Subject: subject,
+      HtmlBody: html,
+      TextBody: text,
+      TemplateType: 'Standard',
+    }),
+  },
+  {
+    id: 'ses',
+    label: 'Amazon SES',
+    createDialect: () => createHandlebarsDialect('Amazon SES', {}),
+    // Input for `aws ses create-template --cli-input-json`
+    buildPayload: ({ name, subject, html, text }) => ({
+      Template: {
+        TemplateName: name,
+        SubjectPart: subject,
+        HtmlPart: html,
+        TextPart: text,
+      },
+    }),
+  },
+  {
+    id: 'mailchimp',
+    label: 'Mailchimp',
+    createDialect: createMailchimpDialect,
+    // The template is the body for POST /3.0/templates, and each merge field
+    // the body for POST /3.0/lists/{list_id}/merge-fields so the audience has
+    // a field behind every tag. The subject is set on the campaign instead.
+    buildPayload: ({ name, html, variables }) => ({
+      template: {
+        name,
+        html,
+      },
+      merge_fields: Array.from(buildMailchimpMergeTags(variables), ([variable, tag]) => ({
+        tag,
+        name: variable,
+        type: 'text',
+      })),
+    }),
+  },
+]
+
+export function getEspAdapter(id: EspId): EspAdapter {
+  return ESP_ADAPTERS.find((adapter) => adapter.id === id) ?? ESP_ADAPTERS[0]
+}
+
+/**
+ * Template names are limited to letters, digits, dashes and underscores by most providers
+ */
+function toTemplateName(subject: string): string {
+  return (
+    subject
+      .replace(/\{\{(\w+)\}\}/g, '$1')
+      .trim()
+      .replace(/[^A-Za-z0-9_-]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 64) || 'email-template'
+  )
+}
+
+/**
+ * Render an email as a provider template payload, with variables, conditions
+ * and loops in the provider's template syntax. Throws when the email uses
+ * something the provider's syntax can't express.
+ */
+export function renderEspTemplate(email: Email, id: EspId): string {
+  const adapter = getEspAdapter(id)
+  const { jsonStructure } = email
+
+  const subject = parseTemplate(jsonStructure.meta.subject)
+  const html = parseTemplate(renderEmailHTML(jsonStructure))
+  const text = parseTemplate(renderEmailPlainText(jsonStructure))
+  const variables = collectTemplateVariables([...subject, ...html, ...text])
+  const dialect = adapter.createDialect(variables)
+
+  const payload = adapter.buildPayload({
+    name: toTemplateName(jsonStructure.meta.subject),
+    subject: renderTemplate(subject, dialect, false),
+    html: renderTemplate(html, dialect, true),
+    text: renderTemplate(text, dialect, false),
+    variables,
+  })
+
+  return JSON.stringify(payload, null, 2)
+}
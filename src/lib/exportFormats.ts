@@ -0,0 +1,142 @@
+import type { Email } from '../types/email'
+import { renderEmailHTML } from './htmlRenderer'
+import { renderEmailPlainText } from './plainTextRenderer'
+import { renderEmailMJML } from './mjmlExporter'
+import { renderEmailReactComponent, toComponentName } from './reactEmailExporter'
+import { buildEmailBundle } from './bundleExporter'
+import { buildEmlMessage } from './emlExporter'
+import { ESP_ADAPTERS, renderEspTemplate } from './espExporters'
+import type { EspId } from './espExporters'
+
+export type ExportFormatId = 'html' | 'text' | 'mjml' | 'react' | 'json' | 'zip' | 'eml' | EspId
+
+export interface ExportFile {
+  blob: Blob
+  /** Problems worth telling the user about, e.g. images that couldn't be included */
+  warnings: string[]
+}
+
+export interface ExportFormat {
+  id: ExportFormatId
+  label: string
+  extension: string
+  mimeType: string
+  /** Text output, which can also be copied to the clipboard */
+  render?: (email: Email) => string
+  /** Binary output for download-only formats */
+  renderFile?: (email: Email, variables: Record<string, string>) => Promise<ExportFile>
+  /** Overrides the default subject-based file name (without extension) */
+  fileName?: (email: Email) => string
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  {
+    id: 'html',
+    label: 'HTML',
+    extension: 'html',
+    mimeType: 'text/html',
+    render: (email) => renderEmailHTML(email.jsonStructure),
+  },
+  {
+    id: 'text',
+    label: 'Plain text',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    render: (email) => renderEmailPlainText(email.jsonStructure),
+  },
+  {
+    id: 'mjml',
+    label: 'MJML',
+    extension: 'mjml',
+    mimeType: 'text/plain',
+    render: (email) => renderEmailMJML(email.jsonStructure),
+  },
+  {
+    id: 'react',
+    label: 'React Email',
+    extension: 'tsx',
+    mimeType: 'text/plain',
+    render: (email) => renderEmailReactComponent(email.jsonStructure),
+    fileName: (email) => toComponentName(email.meta.subject),
+  },
+  {
+    id: 'json',
+    label: 'JSON',
+    extension: 'json',
+    mimeType: 'application/json',
+    render: (email) => JSON.stringify(email.jsonStructure, null, 2),
+  },
+  {
+    id: 'zip',
+    label: 'Bundle (ZIP)',
+    extension: 'zip',
+    mimeType: 'application/zip',
+    renderFile: (email, variables) => buildEmailBundle(email, variables),
+  },
+  {
+    id: 'eml',
+    label: 'Email message (.eml)',
+    extension: 'eml',
+    mimeType: 'message/rfc822',
+    renderFile: async (email, variables) => {
+      const { content, warnings } = await buildEmlMessage(email, undefined, variables)
+      return { blob: new Blob([content], { type: 'message/rfc822' }), warnings }
+    },
+  },
+  ...ESP_ADAPTERS.map(
+    (adapter): ExportFormat => ({
+      id: adapter.id,
+      label: `${adapter.label} template`,
+      extension: 'json',
+      mimeType: 'application/json',
+      render: (email) => renderEspTemplate(email, adapter.id),
+      fileName: (email) => `${email.meta.subject.trim().replace(/\s+/g, '-') || 'email'}-${adapter.id}`,
+    })
+  ),
+]
+
+export function getExportFormat(id: ExportFormatId): ExportFormat {
+  return EXPORT_FORMATS.find((format) => format.id === id) ?? EXPORT_FORMATS[0]
+}
+
+/**
+ * Produce the downloadable content for any format, text or binary
+ */
+export async function renderExportFile(
+  email: Email,
+  format: ExportFormat,
+  variables: Record<string, string> = {}
+): Promise<ExportFile> {
+  if (format.renderFile) {
+    return format.renderFile(email, variables)
+  }
+  return {
+    blob: new Blob([format.render?.(email) ?? ''], { type: format.mimeType }),
+    warnings: [],
+  }
+}
+
+/**
+ * Build a download file name from the email subject, e.g. "Welcome aboard" -> "Welcome-aboard.html"
+ */
+export function getExportFileName(email: Email, format: ExportFormat): string {
+  const base = format.fileName
+    ? format.fileName(email)
+    : email.meta.subject.trim().replace(/\s+/g, '-') || 'email'
+  return `${base}.${format.extension}`
+}
+
+/**
+ * Trigger a browser download for generated content
+ */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = fileName
+  document.body.appendChild(a)
+  a.click()
+  document.body.removeChild(a)
+  URL.revokeObjectURL(url)
+}
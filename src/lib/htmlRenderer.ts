@@ -0,0 +1,546 @@
+import type { EmailJSON, EmailNode, FooterNode, ListNode, TableNode, TextSpan } from '../types/email'
+import { getTextSpans } from './richText'
+import { getMarkedListItems } from './listItems'
+import { toLoopTemplate, wrapLoop } from './arrayVariables'
+import { wrapCondition } from './conditions'
+import { DEFAULT_SOCIAL_ICON_SIZE, getSocialLinkIconUrl, getSocialLinks, getSocialNetworkLabel } from './socialIcons'
+
+const CONTAINER_WIDTH = 600
+const FONT_FAMILY = "Arial, 'Helvetica Neue', Helvetica, sans-serif"
+const TEXT_COLOR = '#1F2937'
+const SMALL_PRINT_COLOR = '#6B7280'
+
+const LIST_INDENT = 24
+const SOCIAL_ICON_GAP = 8
+
+const HEADING_SIZES: Record<1 | 2 | 3, number> = {
+  1: 30,
+  2: 24,
+  3: 20,
+}
+
+/**
+ * Escape text for safe inclusion in HTML content and attribute values.
+ * {{variables}} are left untouched so the output stays a template.
+ */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+/**
+ * Build an inline style attribute value from a property map, skipping empty values
+ */
+function style(properties: Record<string, string | number | undefined>): string {
+  return Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}:${String(value).replace(/"/g, "'")}`)
+    .join(';')
+}
+
+/**
+ * Render formatted text as inline HTML. Links get an explicit colour and
+ * underline since some clients restyle bare anchors.
+ */
+export function renderInlineHTML(spans: TextSpan[], lineBreak = '<br>'): string {
+  return spans
+    .map((span) => {
+      const marks = span.marks || {}
+      let html = escapeHTML(span.text).replace(/\r?\n/g, lineBreak)
+      if (marks.bold) html = `<strong>${html}</strong>`
+      if (marks.italic) html = `<em>${html}</em>`
+      if (marks.underline) html = `<u>${html}</u>`
+      if (marks.link) {
+        const linkStyle = style({ color: marks.color || '#2563EB', 'text-decoration': 'underline' })
+        return `<a href="${escapeHTML(marks.link)}" target="_blank" style="${linkStyle}">${html}</a>`
+      }
+      if (marks.color) html = `<span style="${style({ color: marks.color })}">${html}</span>`
+      return html
+    })
+    .join('')
+}
+
+/**
+ * Render a list as one small table per item rather than ul/ol, whose
+ * indentation differs between clients and whose bullets Outlook can't colour
+ */
+export function renderListHTML(node: ListNode): string {
+  const markerWidth = node.listStyle === 'ordered' ? 32 : 20
+  const textStyle = style({
+    'font-family': FONT_FAMILY,
+    'font-size': '16px',
+    'line-height': '1.5',
+    color: TEXT_COLOR,
+  })
+  const markerStyle = style({
+    width: `${markerWidth}px`,
+    'font-family': FONT_FAMILY,
+    'font-size': '16px',
+    'line-height': '1.5',
+    'white-space': 'nowrap',
+    color: node.bulletColor || TEXT_COLOR,
+  })
+
+  return getMarkedListItems(node)
+    .map((item) => {
+      const indent = item.level * LIST_INDENT
+      return (
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tr>` +
+        (indent ? `<td width="${indent}" style="width:${indent}px"></td>` : '') +
+        `<td width="${markerWidth}" valign="top" style="${markerStyle}">${escapeHTML(item.marker)}</td>` +
+        `<td valign="top" style="${textStyle}">${renderInlineHTML([{ text: item.text }])}</td>` +
+        `</tr></table>`
+      )
+    })
+    .join('')
+}
+
+/**
+ * Render a table's rows: a header row plus a row template. When the table is
+ * bound to an array variable the template is wrapped in a Handlebars
+ * {{#each}} block, with {{item.*}} cells written as {{this.*}}.
+ */
+export function renderTableRowsHTML(node: TableNode): string {
+  const columns = node.columns || []
+  if (columns.length === 0) return ''
+  const borderColor = node.borderColor || '#E5E7EB'
+  const cellStyle = (align: string) =>
+    style({
+      padding: '8px',
+      'border-bottom': `1px solid ${borderColor}`,
+      'font-family': FONT_FAMILY,
+      'font-size': '14px',
+      'line-height': '1.5',
+      'text-align': align,
+      color: TEXT_COLOR,
+    })
+
+  const headerCells = columns
+    .map((column) => {
+      const align = column.align || 'left'
+      const width = column.width ? ` width="${column.width}%"` : ''
+      return `<th scope="col" align="${align}"${width} bgcolor="${escapeHTML(node.headerBackgroundColor || '#F3F4F6')}" style="${cellStyle(align)};font-weight:bold">${escapeHTML(column.header)}</th>`
+    })
+    .join('')
+  const cells = columns
+    .map((column) => {
+      const align = column.align || 'left'
+      const cell = node.dataVariable ? toLoopTemplate(column.cell) : column.cell
+      return `<td align="${align}" valign="top" style="${cellStyle(align)}">${escapeHTML(cell)}</td>`
+    })
+    .join('')
+  const bodyRow = `<tr>${cells}</tr>`
+
+  return `<tr>${headerCells}</tr>` + (node.dataVariable ? wrapLoop(node.dataVariable, bodyRow) : bodyRow)
+}
+
+/**
+ * Render a compliance footer's small print: legal text, postal address and
+ * the unsubscribe and preferences links, one paragraph each
+ */
+export function renderFooterHTML(node: FooterNode, lineBreak = '<br>'): string {
+  const textStyle = style({
+    'font-family': FONT_FAMILY,
+    'font-size': '12px',
+    'line-height': '1.5',
+    color: SMALL_PRINT_COLOR,
+  })
+  const linkStyle = style({ color: SMALL_PRINT_COLOR, 'text-decoration': 'underline' })
+  const links = [
+    node.unsubscribeVariable &&
+      `<a href="{{${node.unsubscribeVariable}}}" target="_blank" style="${linkStyle}">Unsubscribe</a>`,
+    node.preferencesUrl &&
+      `<a href="${escapeHTML(node.preferencesUrl)}" target="_blank" style="${linkStyle}">Manage preferences</a>`,
+  ].filter(Boolean)
+
+  const paragraphs = [node.legalText, node.postalAddress]
+    .map((text) => text?.trim())
+    .filter((text): text is string => Boolean(text))
+    .map((text) => escapeHTML(text).replace(/\r?\n/g, lineBreak))
+  if (links.length > 0) paragraphs.push(links.join(' &middot; '))
+
+  return paragraphs
+    .map((html, index) => {
+      const margin = index < paragraphs.length - 1 ? '0 0 8px' : '0'
+      return `<p style="margin:${margin};${textStyle}">${html}</p>`
+    })
+    .join('')
+}
+
+/**
+ * Dark-mode colour override for one element, emitted as a class-based rule
+ */
+interface DarkModeRule {
+  className: string
+  color?: string
+  backgroundColor?: string
+}
+
+/**
+ * Register a node's dark-mode colours and return the class attribute that
+ * targets them, or an empty string when the node has no overrides
+ */
+function darkModeClass(rules: DarkModeRule[], colors: Omit<DarkModeRule, 'className'>): string {
+  if (!colors.color && !colors.backgroundColor) return ''
+  const className = `dark-${rules.length + 1}`
+  rules.push({ className, ...colors })
+  return ` class="${className}"`
+}
+
+function cssColor(value: string): string {
+  return value.replace(/[;{}<>"]/g, '')
+}
+
+/**
+ * Style block for dark-mode overrides. Apple Mail and iOS Mail honour
+ * prefers-color-scheme; Outlook.com marks its dark mode with [data-ogsc]
+ * (text colour) and [data-ogsb] (background) attributes instead.
+ */
+function renderDarkModeStyles(rules: DarkModeRule[]): string {
+  const declarations = (rule: DarkModeRule) =>
+    [
+      rule.color && `color:${cssColor(rule.color)} !important`,
+      rule.backgroundColor && `background-color:${cssColor(rule.backgroundColor)} !important`,
+    ]
+      .filter(Boolean)
+      .join(';')
+
+  const mediaRules = rules.map((rule) => `.${rule.className}{${declarations(rule)}}`)
+  const outlookRules = rules.flatMap((rule) => [
+    ...(rule.color ? [`[data-ogsc] .${rule.className}{color:${cssColor(rule.color)} !important}`] : []),
+    ...(rule.backgroundColor
+      ? [`[data-ogsb] .${rule.className}{background-color:${cssColor(rule.backgroundColor)} !important}`]
+      : []),
+  ])
+
+  return [
+    '<style type="text/css">',
+    ':root{color-scheme:light dark;supported-color-schemes:light dark}',
+    `@media (prefers-color-scheme: dark){${mediaRules.join('')}}`,
+    ...outlookRules,
+    '</style>',
+  ].join('\n')
+}
+
+/**
+ * Stacks row columns on narrow screens. Clients without media query support,
+ * such as Outlook on Windows, keep the side-by-side layout.
+ */
+function renderResponsiveStyles(): string {
+  return [
+    '<style type="text/css">',
+    '@media only screen and (max-width:480px){.stack-column{display:block !important;width:100% !important;max-width:100% !important;padding-left:0 !important;padding-right:0 !important}}',
+    '</style>',
+  ].join('\n')
+}
+
+/**
+ * State collected while rendering the body that the document head depends on
+ */
+interface RenderContext {
+  darkRules: DarkModeRule[]
+  /** Set when any row stacks its columns on mobile */
+  hasStackedRows: boolean
+}
+
+/**
+ * Wrap block content in a full-width table row so every block is its own cell
+ */
+function row(content: string, cellStyle = ''): string {
+  return `<tr><td${cellStyle ? ` style="${cellStyle}"` : ''}>${content}</td></tr>`
+}
+
+/**
+ * Render a node, inside an {{#if}} block when it has a visibility condition
+ */
+function renderNode(node: EmailNode, context: RenderContext, maxWidth = CONTAINER_WIDTH): string {
+  return wrapCondition(node.condition, renderNodeContent(node, context, maxWidth))
+}
+
+/**
+ * maxWidth is the space available to the node, which is narrower inside
+ * columns. Outlook sizes images from their width attribute, so it's capped.
+ */
+function renderNodeContent(node: EmailNode, context: RenderContext, maxWidth: number): string {
+  switch (node.type) {
+    case 'heading': {
+      const level = node.level || 1
+      const headingStyle = style({
+        margin: '0',
+        'font-family': FONT_FAMILY,
+        'font-size': `${HEADING_SIZES[level]}px`,
+        'line-height': '1.25',
+        'font-weight': 'bold',
+        color: TEXT_COLOR,
+      })
+      const darkClass = darkModeClass(context.darkRules, { color: node.darkColor })
+      return row(
+        `<h${level}${darkClass} style="${headingStyle}">${renderInlineHTML(getTextSpans(node))}</h${level}>`,
+        'padding:0 0 16px 0'
+      )
+    }
+
+    case 'text': {
+      const textStyle = style({
+        margin: '0',
+        'font-family': FONT_FAMILY,
+        'font-size': '16px',
+        'line-height': '1.5',
+        color: TEXT_COLOR,
+      })
+      const darkClass = darkModeClass(context.darkRules, { color: node.darkColor })
+      return row(`<p${darkClass} style="${textStyle}">${renderInlineHTML(getTextSpans(node))}</p>`, 'padding:0 0 16px 0')
+    }
+
+    case 'button': {
+      const linkStyle = style({
+        display: 'inline-block',
+        padding: '12px 24px',
+        'font-family': FONT_FAMILY,
+        'font-size': '16px',
+        'font-weight': 'bold',
+        color: '#FFFFFF',
+        'text-decoration': 'none',
+        'border-radius': '8px',
+      })
+      const target = node.target ? ` target="${node.target}"` : ''
+      const cellClass = darkModeClass(context.darkRules, { backgroundColor: node.darkBackgroundColor })
+      const linkClass = darkModeClass(context.darkRules, { color: node.darkColor })
+      // Bulletproof button: the cell carries the colour so Outlook still shows it
+      const button =
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0"><tr>` +
+        `<td${cellClass} align="center" bgcolor="#2563EB" style="border-radius:8px">` +
+        `<a${linkClass} href="${escapeHTML(node.href || '#')}"${target} style="${linkStyle}">${escapeHTML(node.label || '')}</a>` +
+        `</td></tr></table>`
+      return row(button, 'padding:0 0 16px 0')
+    }
+
+    case 'image': {
+      if (!node.src) return ''
+      const width = Math.min(node.width || maxWidth, maxWidth)
+      const imageStyle = style({
+        display: 'block',
+        width: '100%',
+        'max-width': `${width}px`,
+        height: 'auto',
+        border: '0',
+        outline: 'none',
+        'text-decoration': 'none',
+      })
+      const height = node.height ? ` height="${node.height}"` : ''
+      return row(
+        `<img src="${escapeHTML(node.src)}" alt="${escapeHTML(node.alt || '')}" width="${width}"${height} style="${imageStyle}">`,
+        'padding:0 0 16px 0'
+      )
+    }
+
+    case 'video': {
+      if (!node.thumbnailSrc) return ''
+      const width = Math.min(node.width || maxWidth, maxWidth)
+      const imageStyle = style({
+        display: 'block',
+        width: '100%',
+        'max-width': `${width}px`,
+        height: 'auto',
+        border: '0',
+        outline: 'none',
+        'text-decoration': 'none',
+      })
+      const height = node.height ? ` height="${node.height}"` : ''
+      const image = `<img src="${escapeHTML(node.thumbnailSrc)}" alt="${escapeHTML(node.alt || '')}" width="${width}"${height} style="${imageStyle}">`
+      return row(
+        node.videoUrl ? `<a href="${escapeHTML(node.videoUrl)}" target="_blank">${image}</a>` : image,
+        'padding:0 0 16px 0'
+      )
+    }
+
+    case 'divider': {
+      const rule = style({
+        'border-top': `${node.thickness || 1}px solid ${node.color || '#E5E7EB'}`,
+        'font-size': '0',
+        'line-height': '0',
+      })
+      const divider =
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="${node.width || 100}%" align="center">` +
+        `<tr><td style="${rule}">&nbsp;</td></tr></table>`
+      return row(divider, 'padding:16px 0')
+    }
+
+    case 'list':
+      return row(renderListHTML(node), 'padding:0 0 16px 0')
+
+    case 'table': {
+      const rows = renderTableRowsHTML(node)
+      if (!rows) return ''
+      return row(
+        `<table border="0" cellpadding="0" cellspacing="0" width="100%" style="border-collapse:collapse">${rows}</table>`,
+        'padding:0 0 16px 0'
+      )
+    }
+
+    case 'spacer': {
+      const height = node.height || 20
+      return row('&nbsp;', style({ height: `${height}px`, 'font-size': '0', 'line-height': `${height}px` }))
+    }
+
+    case 'section': {
+      const backgroundColor = node.backgroundColor || '#FFFFFF'
+      const sectionStyle = style({
+        padding: node.padding || '20px',
+        'border-radius': node.borderRadius,
+        'background-color': backgroundColor,
+      })
+      const darkClass = darkModeClass(context.darkRules, { backgroundColor: node.darkBackgroundColor })
+      const section =
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">` +
+        `<tr><td${darkClass} bgcolor="${escapeHTML(backgroundColor)}" style="${sectionStyle}">` +
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">` +
+        (node.children || []).map((child) => renderNode(child, context, maxWidth)).join('') +
+        `</table></td></tr></table>`
+      return row(section, 'padding:0 0 16px 0')
+    }
+
+    case 'row': {
+      const columns = node.children || []
+      const gap = node.gap ?? 16
+      const stack = node.stackOnMobile !== false
+      if (stack) context.hasStackedRows = true
+
+      const cells = columns.map((column, index) => {
+        const width = (column.type === 'column' && column.width) || Math.round(100 / columns.length)
+        const content = column.type === 'column' ? column.children || [] : [column]
+        const columnWidth = Math.floor((maxWidth * width) / 100 - gap / 2)
+        const cellStyle = style({
+          width: `${width}%`,
+          'padding-left': index > 0 ? `${gap / 2}px` : undefined,
+          'padding-right': index < columns.length - 1 ? `${gap / 2}px` : undefined,
+        })
+        return (
+          `<td${stack ? ' class="stack-column"' : ''} width="${width}%" valign="${node.verticalAlign || 'top'}" style="${cellStyle}">` +
+          `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">` +
+          content.map((child) => renderNode(child, context, columnWidth)).join('') +
+          `</table></td>`
+        )
+      })
+
+      return row(
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%"><tr>${cells.join('')}</tr></table>`
+      )
+    }
+
+    case 'footer': {
+      const footer = renderFooterHTML(node)
+      if (!footer) return ''
+      return row(footer, 'padding:24px 0 0 0;border-top:1px solid #E5E7EB;text-align:center')
+    }
+
+    case 'social': {
+      const links = getSocialLinks(node)
+      if (links.length === 0) return ''
+      const size = node.iconSize || DEFAULT_SOCIAL_ICON_SIZE
+      const align = node.align || 'center'
+      const iconStyle = style({ display: 'block', border: '0', outline: 'none', 'text-decoration': 'none' })
+      const cells = links.map((link, index) => {
+        const src = getSocialLinkIconUrl(link, node.iconStyle)
+        const alt = getSocialNetworkLabel(link.network)
+        return (
+          `<td${index > 0 ? ` style="padding-left:${SOCIAL_ICON_GAP}px"` : ''}>` +
+          `<a href="${escapeHTML(link.url)}" target="_blank">` +
+          `<img src="${escapeHTML(src)}" alt="${escapeHTML(alt)}" width="${size}" height="${size}" style="${iconStyle}">` +
+          `</a></td>`
+        )
+      })
+      return row(
+        `<table role="presentation" border="0" cellpadding="0" cellspacing="0" align="${align}"><tr>${cells.join('')}</tr></table>`,
+        `padding:0 0 16px 0;text-align:${align}`
+      )
+    }
+
+    case 'repeat': {
+      // The repeated blocks are rows of the surrounding table, so no wrapper is needed
+      const content = (node.children || []).map((child) => renderNode(child, context, maxWidth)).join('')
+      const empty = node.emptyState ? renderNode(node.emptyState, context, maxWidth) : ''
+      if (!node.dataVariable) return content
+      return wrapLoop(node.dataVariable, toLoopTemplate(content), node.maxItems, empty)
+    }
+
+    default:
+      return ''
+  }
+}
+
+/**
+ * Render a single block as it appears in the email body, without the
+ * surrounding document. Used to attribute message size to blocks.
+ */
+export function renderBlockHTML(node: EmailNode): string {
+  return renderNode(node, { darkRules: [], hasStackedRows: false })
+}
+
+/**
+ * Render an email JSON structure to client-safe HTML.
+ *
+ * Layout is table-based with inline styles only, which is what Gmail,
+ * Outlook and Apple Mail reliably support. Variables are kept as
+ * {{placeholders}} so the output can be filled in by any sending service,
+ * conditional blocks are wrapped in Handlebars {{#if}} blocks and repeated
+ * content in {{#each}} blocks.
+ */
+export function renderEmailHTML(email: EmailJSON): string {
+  const { meta, root } = email
+  const context: RenderContext = { darkRules: [], hasStackedRows: false }
+  const { darkRules } = context
+  const containerClass =
+    root.type === 'section' ? darkModeClass(darkRules, { backgroundColor: root.darkBackgroundColor }) : ''
+  const blocks = (root.children || []).map((node) => renderNode(node, context)).join('')
+  const containerBackground = escapeHTML(
+    root.type === 'section' && root.backgroundColor ? root.backgroundColor : '#FFFFFF'
+  )
+
+  // Only opt in to dark mode when the email defines colours for it, otherwise
+  // declaring support would stop clients from adapting the email themselves
+  const darkModeHead = darkRules.length
+    ? [
+        '<meta name="color-scheme" content="light dark">',
+        '<meta name="supported-color-schemes" content="light dark">',
+        renderDarkModeStyles(darkRules),
+      ]
+    : []
+
+  // Hidden preheader text shown by clients next to the subject line
+  const preheader = meta.previewText
+    ? `<div style="display:none;max-height:0;overflow:hidden;mso-hide:all">${escapeHTML(meta.previewText)}</div>`
+    : ''
+
+  return [
+    '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">',
+    '<html xmlns="http://www.w3.org/1999/xhtml" lang="en">',
+    '<head>',
+    '<meta http-equiv="Content-Type" content="text/html; charset=UTF-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1.0">',
+    '<meta http-equiv="X-UA-Compatible" content="IE=edge">',
+    `<title>${escapeHTML(meta.subject)}</title>`,
+    ...darkModeHead,
+    ...(context.hasStackedRows ? [renderResponsiveStyles()] : []),
+    '</head>',
+    `<body style="margin:0;padding:0;background-color:#F3F4F6">`,
+    preheader,
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%" bgcolor="#F3F4F6">`,
+    `<tr><td align="center" style="padding:24px 12px">`,
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="${CONTAINER_WIDTH}" style="width:100%;max-width:${CONTAINER_WIDTH}px">`,
+    `<tr><td${containerClass} bgcolor="${containerBackground}" style="padding:32px;background-color:${containerBackground}">`,
+    `<table role="presentation" border="0" cellpadding="0" cellspacing="0" width="100%">`,
+    blocks,
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</td></tr>',
+    '</table>',
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
@@ -0,0 +1,163 @@
+export type CropPresetId = 'original' | 'landscape' | 'square' | 'banner'
+
+export interface CropPreset {
+  id: CropPresetId
+  label: string
+  /** Width divided by height; undefined keeps the original framing */
+  ratio?: number
+}
+
+export const CROP_PRESETS: CropPreset[] = [
+  { id: 'original', label: 'Original' },
+  { id: 'landscape', label: '16:9', ratio: 16 / 9 },
+  { id: 'square', label: '1:1', ratio: 1 },
+  { id: 'banner', label: 'Banner (3:1)', ratio: 3 },
+]
+
+export type OutputFormat = 'image/jpeg' | 'image/webp'
+
+export interface ProcessImageOptions {
+  ratio?: number
+  /** Output is never wider than this; images are only scaled down */
+  maxWidth: number
+  format: OutputFormat
+  /** Encoder quality between 0 and 1 */
+  quality: number
+}
+
+export interface ProcessedImage {
+  file: File
+  width: number
+  height: number
+}
+
+export function loadImage(file: Blob): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file)
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      resolve(image)
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not read this image'))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * Largest centred rectangle with the given aspect ratio
+ */
+export function getCropRect(
+  width: number,
+  height: number,
+  ratio?: number
+): { x: number; y: number; width: number; height: number } {
+  if (!ratio) return { x: 0, y: 0, width, height }
+
+  if (width / height > ratio) {
+    const cropWidth = Math.round(height * ratio)
+    return { x: Math.round((width - cropWidth) / 2), y: 0, width: cropWidth, height }
+  }
+  const cropHeight = Math.round(width / ratio)
+  return { x: 0, y: Math.round((height - cropHeight) / 2), width, height: cropHeight }
+}
+
+// Browsers without a WebP encoder fall back to PNG, so name the file after what was produced
+function replaceExtension(fileName: string, mimeType: string): string {
+  const base = fileName.replace(/\.[^.]+$/, '') || 'image'
+  const extension = mimeType === 'image/jpeg' ? 'jpg' : mimeType.replace('image/', '')
+  return `${base}.${extension}`
+}
+
+/**
+ * Crop, downscale and re-encode an image with a canvas
+ */
+export async function processImage(file: File, options: ProcessImageOptions): Promise<ProcessedImage> {
+  const image = await loadImage(file)
+  const crop = getCropRect(image.naturalWidth, image.naturalHeight, options.ratio)
+  const scale = Math.min(1, options.maxWidth / crop.width)
+  const width = Math.max(1, Math.round(crop.width * scale))
+  const height = Math.max(1, Math.round(crop.height * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported in this browser')
+
+  // JPEG has no alpha channel, so transparent areas would turn black
+  if (options.format === 'image/jpeg') {
+    context.fillStyle = '#FFFFFF'
+    context.fillRect(0, 0, width, height)
+  }
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, width, height)
+
+  const blob = await new Promise<Blob | null>((resolve) =>
+    canvas.toBlob(resolve, options.format, options.quality)
+  )
+  if (!blob) throw new Error('Could not encode the image')
+
+  return {
+    file: new File([blob], replaceExtension(file.name, blob.type), { type: blob.type }),
+    width,
+    height,
+  }
+}
+
+/**
+ * Draw a play button in the middle of a video thumbnail, so the linked
+ * image reads as a video in clients that can't play one. The result is a
+ * JPEG no wider than maxWidth.
+ */
+export async function addPlayOverlay(file: File, maxWidth: number): Promise<ProcessedImage> {
+  const image = await loadImage(file)
+  const scale = Math.min(1, maxWidth / image.naturalWidth)
+  const width = Math.max(1, Math.round(image.naturalWidth * scale))
+  const height = Math.max(1, Math.round(image.naturalHeight * scale))
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas is not supported in this browser')
+
+  context.fillStyle = '#FFFFFF'
+  context.fillRect(0, 0, width, height)
+  context.imageSmoothingQuality = 'high'
+  context.drawImage(image, 0, 0, width, height)
+
+  // Dark disc with a white triangle, shifted right so it looks centred
+  const radius = Math.max(12, Math.min(width, height) * 0.14)
+  const centerX = width / 2
+  const centerY = height / 2
+  context.fillStyle = 'rgba(0, 0, 0, 0.6)'
+  context.beginPath()
+  context.arc(centerX, centerY, radius, 0, Math.PI * 2)
+  context.fill()
+  context.strokeStyle = 'rgba(255, 255, 255, 0.9)'
+  context.lineWidth = Math.max(2, radius * 0.08)
+  context.stroke()
+
+  const side = radius * 0.9
+  context.fillStyle = '#FFFFFF'
+  context.beginPath()
+  context.moveTo(centerX - side * 0.35, centerY - side / 2)
+  context.lineTo(centerX - side * 0.35, centerY + side / 2)
+  context.lineTo(centerX + side * 0.55, centerY)
+  context.closePath()
+  context.fill()
+
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/jpeg', 0.85))
+  if (!blob) throw new Error('Could not encode the image')
+
+  const base = file.name.replace(/\.[^.]+$/, '') || 'video'
+  return {
+    file: new File([blob], `${base}-play.jpg`, { type: blob.type }),
+    width,
+    height,
+  }
+}
@@ -0,0 +1,203 @@
+import type { EmailNode } from '../../types/email'
+import type { ImportAdapter, ImportResult } from './types'
+import { ImportReporter, createImportResult, toPixels } from './shared'
+import { convertHTMLFragment } from './html'
+import { generateId } from '../utils'
+
+// Subset of the Beefree page JSON that the importer reads
+interface BeefreeModule {
+  type?: string
+  descriptor?: {
+    heading?: { text?: string; title?: string }
+    text?: { html?: string }
+    paragraph?: { html?: string }
+    list?: { html?: string }
+    html?: { html?: string }
+    button?: { label?: string; href?: string; target?: string }
+    image?: { src?: string; alt?: string; href?: string; width?: string; height?: string }
+    divider?: { style?: { 'border-top'?: string; width?: string } }
+    spacer?: { style?: { height?: string } }
+  }
+}
+
+interface BeefreeRow {
+  columns?: { modules?: BeefreeModule[] }[]
+  container?: { style?: { 'background-color'?: string; 'background-image'?: string } }
+  content?: { style?: { 'background-color'?: string; padding?: string } }
+}
+
+interface BeefreePage {
+  title?: string
+  description?: string
+  rows?: BeefreeRow[]
+}
+
+const MODULE_PREFIX = 'mailup-bee-newsletter-modules-'
+
+function stripHTML(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return doc.body.textContent?.replace(/\s+/g, ' ').trim() || ''
+}
+
+/**
+ * Beefree exports are either the page itself or wrapped as { page } / { json: { page } }
+ */
+function findPage(data: unknown): BeefreePage | undefined {
+  const candidate = data as { page?: BeefreePage; json?: { page?: BeefreePage } }
+  const page = candidate?.page ?? candidate?.json?.page
+  return Array.isArray(page?.rows) ? page : undefined
+}
+
+/**
+ * Parse a shorthand border such as "1px solid #BBBBBB"
+ */
+function parseBorder(border: string | undefined): { thickness?: number; color?: string } {
+  if (!border) return {}
+  const [width, , color] = border.trim().split(/\s+/)
+  return { thickness: toPixels(width), color }
+}
+
+function convertModule(module: BeefreeModule, reporter: ImportReporter): EmailNode[] {
+  const type = (module.type || '').replace(MODULE_PREFIX, '')
+  const descriptor = module.descriptor || {}
+
+  switch (type) {
+    case 'heading': {
+      const text = stripHTML(descriptor.heading?.text || '')
+      const level = Number(descriptor.heading?.title?.replace('h', '')) || 1
+      if (level > 3) reporter.add('heading', `${descriptor.heading?.title} was imported as a level 3 heading`)
+      return text
+        ? [{ id: generateId(), type: 'heading', level: Math.min(level, 3) as 1 | 2 | 3, text }]
+        : []
+    }
+
+    case 'text':
+      return convertHTMLFragment(descriptor.text?.html || '', reporter)
+
+    case 'paragraph':
+      return convertHTMLFragment(descriptor.paragraph?.html || '', reporter)
+
+    case 'list':
+      return convertHTMLFragment(descriptor.list?.html || '', reporter)
+
+    case 'html':
+      reporter.add('html', 'Custom HTML was imported on a best-effort basis')
+      return convertHTMLFragment(descriptor.html?.html || '', reporter)
+
+    case 'button': {
+      const label = stripHTML(descriptor.button?.label || '')
+      return label
+        ? [{
+            id: generateId(),
+            type: 'button',
+            label,
+            href: descriptor.button?.href || '',
+            target: descriptor.button?.target === '_self' ? '_self' : '_blank',
+          }]
+        : []
+    }
+
+    case 'image': {
+      const image = descriptor.image
+      if (!image?.src) {
+        reporter.add('image', 'Image without a src was skipped')
+        return []
+      }
+      if (image.href) {
+        reporter.add('image', `Link around image ${image.src} was dropped`)
+      }
+      return [{
+        id: generateId(),
+        type: 'image',
+        src: image.src,
+        alt: image.alt || '',
+        width: toPixels(image.width),
+        height: toPixels(image.height),
+      }]
+    }
+
+    case 'divider': {
+      const style = descriptor.divider?.style
+      const { thickness, color } = parseBorder(style?.['border-top'])
+      return [{
+        id: generateId(),
+        type: 'divider',
+        color: color || '#E5E7EB',
+        thickness: thickness || 1,
+        width: Number.parseInt(style?.width || '') || 100,
+      }]
+    }
+
+    case 'spacer':
+      return [{
+        id: generateId(),
+        type: 'spacer',
+        height: toPixels(descriptor.spacer?.style?.height) || 20,
+      }]
+
+    default:
+      reporter.add(type || 'unknown', `"${type}" module has no equivalent block and was dropped`)
+      return []
+  }
+}
+
+function convertRow(row: BeefreeRow, reporter: ImportReporter): EmailNode[] {
+  const columns = row.columns || []
+  if (columns.length > 1) {
+    reporter.add('row', 'Multi-column row was flattened into a single column')
+  }
+  if (row.container?.style?.['background-image'] && row.container.style['background-image'] !== 'none') {
+    reporter.add('row', 'Row background image was dropped')
+  }
+
+  const children = columns.flatMap((column) =>
+    (column.modules || []).flatMap((module) => convertModule(module, reporter))
+  )
+  if (children.length === 0) return []
+
+  const backgroundColor =
+    row.content?.style?.['background-color'] || row.container?.style?.['background-color']
+  if (!backgroundColor || backgroundColor === 'transparent') return children
+
+  return [{
+    id: generateId(),
+    type: 'section',
+    backgroundColor,
+    padding: row.content?.style?.padding || '20px',
+    children,
+  }]
+}
+
+/**
+ * Convert a Beefree page JSON export into an EmailJSON tree.
+ * Rows with a background colour become sections; columns are flattened.
+ */
+export function importBeefreeDesign(json: string): ImportResult {
+  const page = findPage(JSON.parse(json))
+  if (!page?.rows) {
+    throw new Error('Not a Beefree design: missing page.rows')
+  }
+
+  const reporter = new ImportReporter()
+  const children = page.rows.flatMap((row) => convertRow(row, reporter))
+
+  return createImportResult(
+    { subject: page.title?.trim() || 'Imported email', previewText: page.description?.trim() || '' },
+    children,
+    reporter
+  )
+}
+
+export const beefreeImportAdapter: ImportAdapter = {
+  id: 'beefree',
+  label: 'Beefree design JSON',
+  extensions: ['.json'],
+  detect: (_fileName, content) => {
+    try {
+      return !!findPage(JSON.parse(content))
+    } catch {
+      return false
+    }
+  },
+  import: importBeefreeDesign,
+}
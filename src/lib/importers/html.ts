@@ -0,0 +1,379 @@
+import type { EmailNode, SectionNode } from '../../types/email'
+import type { ImportAdapter, ImportResult } from './types'
+import { ImportReporter, createImportResult, toPixels } from './shared'
+import { generateId } from '../utils'
+
+// Elements that never carry email content
+const IGNORED_TAGS = new Set(['head', 'title', 'meta', 'link', 'base', 'template', 'noscript'])
+
+// Elements whose content flows inline inside a paragraph
+const INLINE_TAGS = new Set([
+  'a', 'abbr', 'b', 'big', 'br', 'code', 'em', 'font', 'i', 'label', 'mark',
+  's', 'small', 'span', 'strike', 'strong', 'sub', 'sup', 'u',
+])
+
+// Block-level wrappers whose children are imported in order
+const CONTAINER_TAGS = new Set([
+  'article', 'aside', 'body', 'center', 'div', 'figure', 'footer', 'header',
+  'main', 'nav', 'section', 'table', 'tbody', 'td', 'tfoot', 'th', 'thead', 'tr',
+])
+
+const TEXT_TAGS = new Set(['p', 'blockquote', 'pre', 'address', 'figcaption', 'caption'])
+
+const TRANSPARENT_COLORS = new Set(['', 'transparent', 'none', 'inherit', 'initial'])
+
+function getStyle(element: Element, property: string): string {
+  return (element as HTMLElement).style?.getPropertyValue(property).trim() ?? ''
+}
+
+function getBackgroundColor(element: Element): string | undefined {
+  const color = (
+    getStyle(element, 'background-color') ||
+    element.getAttribute('bgcolor') ||
+    ''
+  ).trim()
+  return TRANSPARENT_COLORS.has(color.toLowerCase()) ? undefined : color
+}
+
+function collapseWhitespace(text: string): string {
+  return text.replace(/[ \t\r\n\f]+/g, ' ')
+}
+
+/**
+ * Heuristic for anchors that are styled as call-to-action buttons
+ */
+function isButtonLink(anchor: Element): boolean {
+  if (anchor.querySelector('img')) return false
+  if (getBackgroundColor(anchor)) return true
+  if (/\b(btn|button|cta)\b/i.test(anchor.getAttribute('class') || '')) return true
+
+  const display = getStyle(anchor, 'display')
+  const hasPadding = !!getStyle(anchor, 'padding') || !!getStyle(anchor, 'padding-top')
+  if (hasPadding && (display === 'block' || display === 'inline-block')) return true
+  if (hasPadding && getStyle(anchor, 'border-radius')) return true
+
+  // Bulletproof buttons: the coloured cell holds nothing but the link
+  const cell = anchor.closest('td')
+  return (
+    !!cell &&
+    !!getBackgroundColor(cell) &&
+    cell.textContent?.trim() === anchor.textContent?.trim()
+  )
+}
+
+function hasBlockContent(element: Element): boolean {
+  return Array.from(element.children).some((child) => {
+    const tag = child.tagName.toLowerCase()
+    if (tag === 'a') return isButtonLink(child) || !!child.querySelector('img')
+    return !INLINE_TAGS.has(tag) || hasBlockContent(child)
+  })
+}
+
+/**
+ * Converts a parsed HTML document into email nodes, collecting everything
+ * it could not map into a report along the way.
+ */
+class HTMLEmailImporter {
+  private reporter: ImportReporter
+
+  constructor(reporter: ImportReporter) {
+    this.reporter = reporter
+  }
+
+  private addReport(element: string, message: string) {
+    this.reporter.add(element, message)
+  }
+
+  /**
+   * Collect the text of an inline run, turning <br> into line breaks
+   */
+  private inlineText(node: Node): string {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return collapseWhitespace(node.textContent || '')
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return ''
+
+    const element = node as Element
+    const tag = element.tagName.toLowerCase()
+    if (tag === 'br') return '\n'
+    if (tag === 'a' && element.getAttribute('href')) {
+      this.addReport('a', `Inline link to ${element.getAttribute('href')} was dropped; its text was kept`)
+    }
+    return this.childText(element)
+  }
+
+  private childText(element: Element): string {
+    return Array.from(element.childNodes).map((child) => this.inlineText(child)).join('')
+  }
+
+  private textNode(text: string): EmailNode | null {
+    const cleaned = text
+      .split('\n')
+      .map((line) => line.trim())
+      .join('\n')
+      .trim()
+    return cleaned ? { id: generateId(), type: 'text', text: cleaned } : null
+  }
+
+  private convertImage(image: Element, link?: Element): EmailNode | null {
+    const src = image.getAttribute('src') || ''
+    const width = toPixels(image.getAttribute('width')) ?? toPixels(getStyle(image, 'width'))
+    const height = toPixels(image.getAttribute('height')) ?? toPixels(getStyle(image, 'height'))
+
+    if (!src) {
+      this.addReport('img', 'Image without a src was skipped')
+      return null
+    }
+    if ((width !== undefined && width <= 1) || (height !== undefined && height <= 1)) {
+      this.addReport('img', 'Tracking pixel was removed')
+      return null
+    }
+    if (link?.getAttribute('href')) {
+      this.addReport('a', `Link around image ${src} was dropped`)
+    }
+
+    return {
+      id: generateId(),
+      type: 'image',
+      src,
+      alt: image.getAttribute('alt') || '',
+      width,
+      height,
+    }
+  }
+
+  private convertDivider(rule: Element): EmailNode {
+    const borderColor =
+      getStyle(rule, 'border-top-color') || getStyle(rule, 'border-color') || getStyle(rule, 'background-color')
+    const thickness =
+      toPixels(getStyle(rule, 'border-top-width')) ?? toPixels(getStyle(rule, 'height')) ?? toPixels(rule.getAttribute('size'))
+    const width = rule.getAttribute('width') || getStyle(rule, 'width')
+
+    return {
+      id: generateId(),
+      type: 'divider',
+      color: borderColor || rule.getAttribute('color') || '#E5E7EB',
+      thickness: thickness || 1,
+      width: width.endsWith('%') ? Number.parseInt(width) : 100,
+    }
+  }
+
+  /**
+   * Convert a container's children, grouping inline runs into text nodes
+   */
+  convertChildren(parent: Element): EmailNode[] {
+    const nodes: EmailNode[] = []
+    let inlineRun = ''
+
+    const flush = () => {
+      const text = this.textNode(inlineRun)
+      if (text) nodes.push(text)
+      inlineRun = ''
+    }
+
+    for (const child of Array.from(parent.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE) {
+        inlineRun += this.inlineText(child)
+        continue
+      }
+      if (child.nodeType !== Node.ELEMENT_NODE) continue
+
+      const element = child as Element
+      const tag = element.tagName.toLowerCase()
+
+      if (INLINE_TAGS.has(tag) && !hasBlockContent(element) && !(tag === 'a' && isButtonLink(element))) {
+        inlineRun += this.inlineText(element)
+        continue
+      }
+
+      flush()
+      nodes.push(...this.convertElement(element))
+    }
+
+    flush()
+    return nodes
+  }
+
+  private convertElement(element: Element): EmailNode[] {
+    const tag = element.tagName.toLowerCase()
+
+    if (IGNORED_TAGS.has(tag)) return []
+
+    if (tag === 'style') {
+      this.addReport('style', 'Embedded <style> rules were dropped; only inline styles are read')
+      return []
+    }
+
+    if (/^h[1-6]$/.test(tag)) {
+      const text = this.inlineText(element).trim()
+      if (!text) return []
+      if (Number(tag[1]) > 3) {
+        this.addReport(tag, `<${tag}> was imported as a level 3 heading`)
+      }
+      return [{
+        id: generateId(),
+        type: 'heading',
+        level: Math.min(Number(tag[1]), 3) as 1 | 2 | 3,
+        text,
+      }]
+    }
+
+    if (TEXT_TAGS.has(tag)) {
+      if (hasBlockContent(element)) return this.convertChildren(element)
+      const text = this.textNode(this.inlineText(element))
+      return text ? [text] : []
+    }
+
+    if (tag === 'ul' || tag === 'ol') {
+      const items = Array.from(element.querySelectorAll(':scope > li'))
+      const text = items
+        .map((item, index) => `${tag === 'ol' ? `${index + 1}.` : '•'} ${this.inlineText(item).trim()}`)
+        .join('\n')
+      this.addReport(tag, 'List was imported as plain text')
+      const node = this.textNode(text)
+      return node ? [node] : []
+    }
+
+    if (tag === 'hr') return [this.convertDivider(element)]
+
+    if (tag === 'img') {
+      const image = this.convertImage(element)
+      return image ? [image] : []
+    }
+
+    if (tag === 'a') {
+      const image = element.querySelector('img')
+      if (image) {
+        const converted = this.convertImage(image, element)
+        return converted ? [converted] : []
+      }
+      if (isButtonLink(element)) {
+        const label = this.childText(element).trim()
+        return label
+          ? [{
+              id: generateId(),
+              type: 'button',
+              label,
+              href: element.getAttribute('href') || '',
+              target: element.getAttribute('target') === '_self' ? '_self' : '_blank',
+            }]
+          : []
+      }
+      return this.convertChildren(element)
+    }
+
+    if (CONTAINER_TAGS.has(tag) || INLINE_TAGS.has(tag)) {
+      return this.convertContainer(element)
+    }
+
+    this.addReport(tag, `<${tag}> elements are not supported and were dropped`)
+    return []
+  }
+
+  private convertContainer(element: Element): EmailNode[] {
+    const tag = element.tagName.toLowerCase()
+
+    if (tag === 'tr') {
+      const columns = Array.from(element.children).filter((cell) => cell.textContent?.trim() || cell.querySelector('img'))
+      if (columns.length > 1) {
+        this.addReport('tr', 'Multi-column row was flattened into a single column')
+      }
+    }
+
+    const children = this.convertChildren(element)
+
+    if (children.length === 0) {
+      // Empty cells with a top border are table-based dividers
+      if (getStyle(element, 'border-top-style') && getStyle(element, 'border-top-style') !== 'none') {
+        return [this.convertDivider(element)]
+      }
+
+      // Empty cells with an explicit height are spacing in table layouts
+      const height = toPixels(element.getAttribute('height')) ?? toPixels(getStyle(element, 'height'))
+      return height && height >= 8 ? [{ id: generateId(), type: 'spacer', height }] : []
+    }
+
+    const backgroundColor = getBackgroundColor(element)
+    if (!backgroundColor || tag === 'body') return children
+
+    // A coloured cell around a lone button is the button's own background
+    if (children.length === 1 && children[0].type === 'button') return children
+
+    // Collapse wrappers that only hold a single nested section
+    if (children.length === 1 && children[0].type === 'section') {
+      const inner = children[0] as SectionNode
+      return [{ ...inner, backgroundColor: inner.backgroundColor || backgroundColor }]
+    }
+
+    return [{
+      id: generateId(),
+      type: 'section',
+      backgroundColor,
+      padding: getStyle(element, 'padding') || (element.getAttribute('cellpadding') ? `${element.getAttribute('cellpadding')}px` : '20px'),
+      borderRadius: getStyle(element, 'border-radius') || undefined,
+      children,
+    }]
+  }
+}
+
+/**
+ * Find the hidden preheader text most HTML emails carry at the top of the body
+ */
+function findPreviewText(doc: Document): string {
+  const hidden = Array.from(doc.body.querySelectorAll('div, span')).find((element) => {
+    const display = getStyle(element, 'display')
+    return display === 'none' || getStyle(element, 'max-height') === '0' || getStyle(element, 'mso-hide') === 'all'
+  })
+  if (!hidden) return ''
+  const text = collapseWhitespace(hidden.textContent || '').trim()
+  hidden.remove()
+  return text
+}
+
+/**
+ * Convert an HTML fragment (e.g. the rich text inside another builder's
+ * text module) into email nodes, reporting into the caller's reporter.
+ */
+export function convertHTMLFragment(html: string, reporter: ImportReporter): EmailNode[] {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return new HTMLEmailImporter(reporter).convertChildren(doc.body)
+}
+
+/**
+ * Parse an HTML email into an EmailJSON tree.
+ *
+ * This is a best-effort mapping: headings, paragraphs, images, <hr> and
+ * button-styled anchors are recognised, table and div wrappers with a
+ * background colour become sections, and anything else is listed in the
+ * returned report.
+ */
+export function importHTMLEmail(html: string): ImportResult {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  const reporter = new ImportReporter()
+
+  const previewText = findPreviewText(doc)
+  const subject =
+    doc.title.trim() ||
+    doc.body.querySelector('h1, h2')?.textContent?.trim() ||
+    'Imported email'
+
+  let children = new HTMLEmailImporter(reporter).convertChildren(doc.body)
+  let backgroundColor: string | undefined
+
+  // The outermost content card maps onto the root section itself
+  if (children.length === 1 && children[0].type === 'section') {
+    backgroundColor = children[0].backgroundColor
+    children = children[0].children || []
+  }
+
+  return createImportResult({ subject, previewText }, children, reporter, backgroundColor)
+}
+
+export const htmlImportAdapter: ImportAdapter = {
+  id: 'html',
+  label: 'HTML',
+  extensions: ['.html', '.htm'],
+  detect: (fileName, content) =>
+    /\.html?$/i.test(fileName) || /^\s*(<!doctype html|<html)/i.test(content),
+  import: importHTMLEmail,
+}
@@ -0,0 +1,33 @@
+import type { ImportAdapter, ImportFormatId } from './types'
+import { htmlImportAdapter } from './html'
+import { mjmlImportAdapter } from './mjml'
+import { unlayerImportAdapter } from './unlayer'
+import { beefreeImportAdapter } from './beefree'
+
+export type { ImportAdapter, ImportFormatId, ImportReportEntry, ImportResult } from './types'
+
+// MJML is checked before HTML because an .mjml file also looks like markup
+export const IMPORT_ADAPTERS: ImportAdapter[] = [
+  mjmlImportAdapter,
+  htmlImportAdapter,
+  unlayerImportAdapter,
+  beefreeImportAdapter,
+]
+
+export function getImportAdapter(id: ImportFormatId): ImportAdapter {
+  return IMPORT_ADAPTERS.find((adapter) => adapter.id === id) ?? htmlImportAdapter
+}
+
+/**
+ * Pick the adapter for a file from its name and content
+ */
+export function detectImportAdapter(fileName: string, content: string): ImportAdapter | undefined {
+  return IMPORT_ADAPTERS.find((adapter) => adapter.detect(fileName, content))
+}
+
+/**
+ * All extensions accepted by at least one adapter, for the file picker
+ */
+export const IMPORT_FILE_EXTENSIONS = Array.from(
+  new Set(IMPORT_ADAPTERS.flatMap((adapter) => adapter.extensions))
+).join(',')
@@ -0,0 +1,483 @@
+import type {
+  ColumnNode,
+  EmailNode,
+  FooterNode,
+  ListNode,
+  RowNode,
+  SectionNode,
+  SocialLink,
+  SocialNode,
+  TableColumn,
+  TableNode,
+} from '../../types/email'
+import type { ImportAdapter, ImportResult } from './types'
+import { ImportReporter, createImportResult, toPixels } from './shared'
+import { convertHTMLFragment } from './html'
+import { generateId } from '../utils'
+import { FOOTER_CLASS, LIST_CLASS, VIDEO_CLASS } from '../mjmlExporter'
+import { parseBlockTag } from '../templateSyntax'
+import type { TemplateBlock } from '../templateSyntax'
+import { fromLoopTemplate, unbindLoopTemplate } from '../arrayVariables'
+import { nestListItems } from '../listItems'
+import { DEFAULT_SOCIAL_ICON_SIZE, SOCIAL_NETWORKS } from '../socialIcons'
+
+// Components with no equivalent block; their content is dropped
+const UNSUPPORTED_COMPONENTS = new Set([
+  'mj-accordion', 'mj-carousel', 'mj-hero', 'mj-include', 'mj-navbar',
+])
+
+// Indent per nesting level of an exported list item, in px
+const LIST_INDENT = 24
+const ICON_URL_REGEX = /\/(color|mono|outline)\/(\w+)\.png$/
+const LOOP_TAG_REGEX = /\{\{#each (?:@root\.)?(\w+)\}\}/
+const VARIABLE_HREF_REGEX = /^\{\{(\w+)\}\}$/
+
+/**
+ * Block opened by an mj-raw template tag, collecting the components up to
+ * its closing tag
+ */
+interface TemplateFrame {
+  block: TemplateBlock | null
+  nodes: EmailNode[]
+  empty: EmailNode[]
+  inEmpty: boolean
+  maxItems?: number
+}
+
+function attr(element: Element, name: string): string | undefined {
+  return element.getAttribute(name)?.trim() || undefined
+}
+
+/**
+ * MJML allows self-closing tags (<mj-image />) which the HTML parser would
+ * treat as open tags, swallowing every following sibling. Expand them first.
+ */
+function expandSelfClosingTags(mjml: string): string {
+  return mjml.replace(/<(mj-[\w-]+)([^>]*?)\/>/g, '<$1$2></$1>')
+}
+
+/**
+ * mj-table rows outside a <table> would be dropped by the HTML parser, so
+ * keep them in a <template>, which parses its content as a table would
+ */
+function wrapTableContent(mjml: string): string {
+  return mjml.replace(/(<mj-table\b[^>]*>)([\s\S]*?)(<\/mj-table>)/g, '$1<template>$2</template>$3')
+}
+
+function toPercent(value: string | undefined): number | undefined {
+  const match = value?.match(/^(\d+(?:\.\d+)?)%$/)
+  return match ? Math.round(Number(match[1])) : undefined
+}
+
+function hasClass(element: Element, className: string): boolean {
+  return (attr(element, 'css-class') || '').split(/\s+/).includes(className)
+}
+
+function styleValue(element: Element, property: string): string | undefined {
+  const match = element.getAttribute('style')?.match(new RegExp(`(?:^|;)\\s*${property}:\\s*([^;]+)`))
+  return match?.[1].trim()
+}
+
+/**
+ * Lines of a paragraph, with <br> as line breaks
+ */
+function paragraphText(paragraph: Element): string {
+  paragraph.querySelectorAll('br').forEach((br) => br.replaceWith('\n'))
+  return paragraph.textContent?.trim() || ''
+}
+
+/**
+ * Rebuild a list from the one-table-per-item layout the MJML exporter renders:
+ * an optional indent cell, the marker cell and the item text
+ */
+function convertList(element: Element): ListNode {
+  const rows = Array.from(element.querySelectorAll('tr')).map((row) => Array.from(row.children))
+  const items = rows.map((cells) => {
+    const indent = cells.length > 2 ? toPixels(attr(cells[0], 'width')) || 0 : 0
+    return { text: cells[cells.length - 1]?.textContent?.trim() || '', level: Math.round(indent / LIST_INDENT) }
+  })
+  const firstMarker = rows[0]?.[rows[0].length - 2]
+  return {
+    id: generateId(),
+    type: 'list',
+    listStyle: /^\w+\.$/.test(firstMarker?.textContent?.trim() || '') ? 'ordered' : 'unordered',
+    items: nestListItems(items),
+    bulletColor: firstMarker && styleValue(firstMarker, 'color'),
+  }
+}
+
+/**
+ * Rebuild a compliance footer from its small print: the linked paragraph
+ * holds the unsubscribe variable and preferences URL, and the others the
+ * legal text and postal address, in that order
+ */
+function convertFooter(element: Element, reporter: ImportReporter): FooterNode {
+  const footer: FooterNode = { id: generateId(), type: 'footer' }
+  const texts: string[] = []
+
+  for (const paragraph of Array.from(element.querySelectorAll('p'))) {
+    const links = Array.from(paragraph.querySelectorAll('a'))
+    if (links.length === 0) {
+      texts.push(paragraphText(paragraph))
+      continue
+    }
+    for (const link of links) {
+      const href = attr(link, 'href') || ''
+      const variable = href.match(VARIABLE_HREF_REGEX)
+      if (variable) footer.unsubscribeVariable = variable[1]
+      else if (href) footer.preferencesUrl = href
+    }
+  }
+
+  if (texts.length === 1) {
+    reporter.add('mj-text', 'Footer small print was imported as the postal address')
+  }
+  footer.postalAddress = texts[texts.length - 1]
+  footer.legalText = texts.length > 1 ? texts[0] : undefined
+  return footer
+}
+
+/**
+ * Rebuild a table from its header row and row template. Rows between
+ * {{#each}} tags are bound to that array variable.
+ */
+function convertTable(element: Element, reporter: ImportReporter): TableNode | null {
+  const content = element.querySelector('template')?.content
+  const rows = content ? Array.from(content.querySelectorAll('tr')) : []
+  const headerRow = rows.find((row) => row.querySelector('th'))
+  const bodyRows = rows.filter((row) => row !== headerRow)
+  if (!headerRow && bodyRows.length === 0) return null
+  if (bodyRows.length > 1) {
+    reporter.add('mj-table', 'Only the first table row was kept as the row template')
+  }
+
+  const dataVariable = content?.textContent?.match(LOOP_TAG_REGEX)?.[1]
+  const headers = headerRow ? Array.from(headerRow.children) : []
+  const cells = bodyRows[0] ? Array.from(bodyRows[0].children) : []
+  const columns: TableColumn[] = Array.from({ length: Math.max(headers.length, cells.length) }, (_, index) => {
+    const header = headers[index]
+    const cell = cells[index]?.textContent?.trim() || ''
+    const align = attr(header || cells[index], 'align')
+    return {
+      header: header?.textContent?.trim() || '',
+      cell: dataVariable ? fromLoopTemplate(cell) : cell,
+      align: align === 'center' || align === 'right' ? align : undefined,
+      width: header ? toPercent(attr(header, 'width')) : undefined,
+    }
+  })
+
+  return {
+    id: generateId(),
+    type: 'table',
+    dataVariable,
+    columns,
+    headerBackgroundColor: headers[0] && attr(headers[0], 'bgcolor'),
+    borderColor: headers[0] && styleValue(headers[0], 'border-bottom')?.match(/#\w+/)?.[0],
+  }
+}
+
+function convertSocial(element: Element, reporter: ImportReporter): SocialNode | null {
+  let iconStyle: SocialNode['iconStyle']
+  const links: SocialLink[] = []
+
+  for (const child of Array.from(element.querySelectorAll('mj-social-element'))) {
+    const icon = attr(child, 'src')?.match(ICON_URL_REGEX)
+    const name = icon?.[2] || attr(child, 'name')?.replace(/-noshare$/, '').replace(/^twitter$/, 'x')
+    const network = SOCIAL_NETWORKS.find(({ id }) => id === name)?.id
+    if (!network) {
+      reporter.add('mj-social-element', `Social link to an unsupported network (${name || 'unnamed'}) was dropped`)
+      continue
+    }
+    iconStyle ??= icon?.[1] as SocialNode['iconStyle']
+    links.push({ network, url: attr(child, 'href') || '' })
+  }
+  if (links.length === 0) return null
+
+  const iconSize = toPixels(attr(element, 'icon-size'))
+  const align = attr(element, 'align')
+  return {
+    id: generateId(),
+    type: 'social',
+    links,
+    iconStyle: iconStyle === 'color' ? undefined : iconStyle,
+    iconSize: iconSize === DEFAULT_SOCIAL_ICON_SIZE ? undefined : iconSize,
+    align: align === 'left' || align === 'right' ? align : undefined,
+  }
+}
+
+/**
+ * Turn the blocks inside a closed template tag into the nodes they stand
+ * for: conditions go onto each block, a cap onto the enclosing loop, and a
+ * loop becomes a repeat block
+ */
+function closeTemplateBlock(frame: TemplateFrame, parent: TemplateFrame, reporter: ImportReporter): EmailNode[] {
+  const block = frame.block
+  if (block?.type === 'condition') {
+    for (const node of frame.nodes) {
+      if (node.condition) {
+        reporter.add('mj-raw', `Nested condition on ${block.condition.variable} was dropped`)
+      } else {
+        node.condition = block.condition
+      }
+    }
+    return frame.nodes
+  }
+
+  if (block?.type === 'limit') {
+    if (parent.block?.type === 'loop') parent.maxItems = block.maxItems
+    else reporter.add('mj-raw', 'Item limit outside a {{#each}} block was dropped')
+    return frame.nodes
+  }
+
+  if (block?.type === 'loop') {
+    return [{
+      id: generateId(),
+      type: 'repeat',
+      dataVariable: block.variable,
+      maxItems: frame.maxItems,
+      emptyState:
+        frame.empty.length > 1
+          ? { id: generateId(), type: 'section', children: frame.empty }
+          : frame.empty[0],
+      children: unbindLoopTemplate(frame.nodes),
+    }]
+  }
+
+  return frame.nodes
+}
+
+/**
+ * Convert sibling components, reading mj-raw {{#if}} and {{#each}} tags as
+ * the conditions and repeat blocks around the components between them
+ */
+function convertComponents(elements: Element[], reporter: ImportReporter): EmailNode[] {
+  const root: TemplateFrame = { block: null, nodes: [], empty: [], inEmpty: false }
+  const open = [root]
+  const push = (nodes: EmailNode[]) => {
+    const frame = open[open.length - 1]
+    ;(frame.inEmpty ? frame.empty : frame.nodes).push(...nodes)
+  }
+
+  for (const element of elements) {
+    const tag = element.textContent?.trim() || ''
+    if (element.tagName.toLowerCase() !== 'mj-raw' || !/^\{\{.*\}\}$/.test(tag)) {
+      push(convertComponent(element, reporter))
+      continue
+    }
+
+    const frame = open[open.length - 1]
+    const block = parseBlockTag(tag)
+    if (block) {
+      open.push({ block, nodes: [], empty: [], inEmpty: false })
+    } else if (tag === '{{else}}' && frame.block?.type === 'loop' && !frame.inEmpty) {
+      frame.inEmpty = true
+    } else if (
+      (tag === '{{/each}}' && frame.block?.type === 'loop') ||
+      (tag === '{{/if}}' && frame.block && frame.block.type !== 'loop')
+    ) {
+      open.pop()
+      push(closeTemplateBlock(frame, open[open.length - 1], reporter))
+    } else {
+      reporter.add('mj-raw', `Template tag ${tag} was dropped`)
+    }
+  }
+
+  while (open.length > 1) {
+    const frame = open.pop()!
+    reporter.add('mj-raw', 'A template block was never closed, so its condition or loop was dropped')
+    push([...frame.nodes, ...frame.empty])
+  }
+  return root.nodes
+}
+
+function convertComponent(element: Element, reporter: ImportReporter): EmailNode[] {
+  const tag = element.tagName.toLowerCase()
+
+  switch (tag) {
+    case 'mj-text':
+      if (hasClass(element, LIST_CLASS)) return [convertList(element)]
+      if (hasClass(element, FOOTER_CLASS)) return [convertFooter(element, reporter)]
+      return convertHTMLFragment(element.innerHTML, reporter)
+
+    case 'mj-raw':
+      reporter.add(tag, 'Raw HTML was imported on a best-effort basis')
+      return convertHTMLFragment(element.innerHTML, reporter)
+
+    case 'mj-button': {
+      const label = element.textContent?.replace(/\s+/g, ' ').trim() || ''
+      if (!label) return []
+      return [{
+        id: generateId(),
+        type: 'button',
+        label,
+        href: attr(element, 'href') || '',
+        target: attr(element, 'target') === '_self' ? '_self' : '_blank',
+      }]
+    }
+
+    case 'mj-image': {
+      const src = attr(element, 'src')
+      if (!src) {
+        reporter.add(tag, 'Image without a src was skipped')
+        return []
+      }
+      if (hasClass(element, VIDEO_CLASS)) {
+        return [{
+          id: generateId(),
+          type: 'video',
+          videoUrl: attr(element, 'href'),
+          thumbnailSrc: src,
+          alt: attr(element, 'alt') || '',
+          width: toPixels(attr(element, 'width')),
+          height: toPixels(attr(element, 'height')),
+        }]
+      }
+      if (attr(element, 'href')) {
+        reporter.add(tag, `Link around image ${src} was dropped`)
+      }
+      return [{
+        id: generateId(),
+        type: 'image',
+        src,
+        alt: attr(element, 'alt') || '',
+        width: toPixels(attr(element, 'width')),
+        height: toPixels(attr(element, 'height')),
+      }]
+    }
+
+    case 'mj-divider':
+      // The footer's rule is part of the footer block
+      if (hasClass(element, FOOTER_CLASS)) return []
+      return [{
+        id: generateId(),
+        type: 'divider',
+        color: attr(element, 'border-color') || '#E5E7EB',
+        thickness: toPixels(attr(element, 'border-width')) || 1,
+        width: toPercent(attr(element, 'width')) ?? 100,
+      }]
+
+    case 'mj-spacer':
+      return [{ id: generateId(), type: 'spacer', height: toPixels(attr(element, 'height')) || 20 }]
+
+    case 'mj-table': {
+      const table = convertTable(element, reporter)
+      return table ? [table] : []
+    }
+
+    case 'mj-social': {
+      const social = convertSocial(element, reporter)
+      return social ? [social] : []
+    }
+
+    case 'mj-column':
+    case 'mj-group':
+      return convertComponents(Array.from(element.children), reporter)
+
+    case 'mj-section':
+      return [isRow(element) ? convertRow(element, reporter) : convertSection(element, reporter)]
+
+    case 'mj-wrapper':
+      return [convertSection(element, reporter)]
+
+    default:
+      if (UNSUPPORTED_COMPONENTS.has(tag)) {
+        reporter.add(tag, `<${tag}> has no equivalent block and was dropped`)
+      } else {
+        reporter.add(tag, `Unknown element <${tag}> was dropped`)
+      }
+      return []
+  }
+}
+
+function sectionColumns(element: Element): Element[] {
+  return Array.from(element.querySelectorAll(':scope > mj-column, :scope > mj-group > mj-column'))
+}
+
+/**
+ * Sections laid out as columns: an mj-group, several columns or a column
+ * given a width
+ */
+function isRow(element: Element): boolean {
+  const columns = sectionColumns(element)
+  return (
+    Boolean(element.querySelector(':scope > mj-group')) ||
+    columns.length > 1 ||
+    columns.some((column) => attr(column, 'width'))
+  )
+}
+
+function convertRow(element: Element, reporter: ImportReporter): RowNode {
+  const columns = sectionColumns(element)
+  const backgroundColor = attr(element, 'background-color')
+  if (backgroundColor && backgroundColor.toUpperCase() !== '#FFFFFF') {
+    reporter.add('mj-section', 'Background colour of a multi-column section was dropped')
+  }
+  const gap = toPixels(attr(columns[0], 'padding-right'))
+  const verticalAlign = attr(columns[0], 'vertical-align')
+
+  return {
+    id: generateId(),
+    type: 'row',
+    gap: gap === undefined ? undefined : gap * 2,
+    verticalAlign: verticalAlign === 'middle' || verticalAlign === 'bottom' ? verticalAlign : undefined,
+    stackOnMobile: element.querySelector(':scope > mj-group') ? false : undefined,
+    children: columns.map((column): ColumnNode => ({
+      id: generateId(),
+      type: 'column',
+      width: toPercent(attr(column, 'width')),
+      children: convertComponents(Array.from(column.children), reporter),
+    })),
+  }
+}
+
+function convertSection(element: Element, reporter: ImportReporter): SectionNode {
+  if (attr(element, 'background-url')) {
+    reporter.add(element.tagName.toLowerCase(), 'Background image was dropped')
+  }
+
+  return {
+    id: generateId(),
+    type: 'section',
+    backgroundColor: attr(element, 'background-color') || '#FFFFFF',
+    padding: attr(element, 'padding') || '20px',
+    borderRadius: attr(element, 'border-radius'),
+    children: convertComponents(Array.from(element.children), reporter),
+  }
+}
+
+/**
+ * Parse an MJML document into an EmailJSON tree.
+ *
+ * mj-section and mj-wrapper become sections, or rows when laid out in
+ * columns, and mj-text content goes through the HTML importer. The lists,
+ * footers, tables, social links, video thumbnails and mj-raw {{#if}} and
+ * {{#each}} tags the MJML exporter writes are imported as those blocks again.
+ */
+export function importMJMLEmail(mjml: string): ImportResult {
+  const doc = new DOMParser().parseFromString(wrapTableContent(expandSelfClosingTags(mjml)), 'text/html')
+  const reporter = new ImportReporter()
+
+  const subject = doc.querySelector('mj-title')?.textContent?.trim() || 'Imported email'
+  const previewText = doc.querySelector('mj-preview')?.textContent?.trim() || ''
+
+  const body = doc.querySelector('mj-body')
+  if (!body) {
+    reporter.add('mj-body', 'Document has no <mj-body>')
+  }
+
+  if (doc.querySelector('mj-style')) {
+    reporter.add('mj-style', 'CSS classes from <mj-style> were dropped')
+  }
+
+  const children = body ? convertComponents(Array.from(body.children), reporter) : []
+
+  return createImportResult({ subject, previewText }, children, reporter)
+}
+
+export const mjmlImportAdapter: ImportAdapter = {
+  id: 'mjml',
+  label: 'MJML',
+  extensions: ['.mjml'],
+  detect: (fileName, content) => /\.mjml$/i.test(fileName) || /^\s*<mjml[\s>]/i.test(content),
+  import: importMJMLEmail,
+}
@@ -0,0 +1,56 @@
+import type { EmailMeta, EmailNode } from '../../types/email'
+import type { ImportReportEntry, ImportResult } from './types'
+import { generateId } from '../utils'
+
+/**
+ * Collects import report entries, skipping exact duplicates
+ */
+export class ImportReporter {
+  entries: ImportReportEntry[] = []
+  private seen = new Set<string>()
+
+  add(element: string, message: string) {
+    const key = `${element}:${message}`
+    if (this.seen.has(key)) return
+    this.seen.add(key)
+    this.entries.push({ element, message })
+  }
+}
+
+/**
+ * Parse a CSS or attribute length such as "600px" or "600" into pixels
+ */
+export function toPixels(value: string | number | null | undefined): number | undefined {
+  if (value === null || value === undefined) return undefined
+  if (typeof value === 'number') return Number.isFinite(value) ? Math.round(value) : undefined
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)(px)?$/)
+  return match ? Math.round(Number(match[1])) : undefined
+}
+
+/**
+ * Wrap imported blocks in an EmailJSON document with a fresh root section
+ */
+export function createImportResult(
+  meta: EmailMeta,
+  children: EmailNode[],
+  reporter: ImportReporter,
+  backgroundColor?: string
+): ImportResult {
+  if (children.length === 0) {
+    reporter.add('body', 'No content could be imported')
+  }
+
+  return {
+    email: {
+      meta,
+      root: {
+        id: generateId(),
+        type: 'section',
+        backgroundColor,
+        children,
+      },
+      version: 2,
+    },
+    report: reporter.entries,
+  }
+}
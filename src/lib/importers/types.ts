@@ -0,0 +1,27 @@
+import type { EmailJSON } from '../../types/email'
+
+export type ImportFormatId = 'html' | 'mjml' | 'unlayer' | 'beefree'
+
+export interface ImportReportEntry {
+  element: string
+  message: string
+}
+
+export interface ImportResult {
+  email: EmailJSON
+  report: ImportReportEntry[]
+}
+
+/**
+ * One adapter per source format. Adapters must return a valid EmailJSON with
+ * fresh node ids and list everything they dropped or approximated.
+ */
+export interface ImportAdapter {
+  id: ImportFormatId
+  label: string
+  /** File extensions this adapter accepts, used for the file picker */
+  extensions: string[]
+  /** Whether the file looks like this adapter's format */
+  detect: (fileName: string, content: string) => boolean
+  import: (content: string) => ImportResult
+}
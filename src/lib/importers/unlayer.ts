@@ -0,0 +1,178 @@
+import type { EmailNode } from '../../types/email'
+import type { ImportAdapter, ImportResult } from './types'
+import { ImportReporter, createImportResult, toPixels } from './shared'
+import { convertHTMLFragment } from './html'
+import { generateId } from '../utils'
+
+// Subset of the Unlayer design JSON that the importer reads
+interface UnlayerContent {
+  type?: string
+  values?: {
+    text?: string
+    headingType?: string
+    href?: string | { values?: { href?: string; target?: string } }
+    src?: { url?: string; width?: number | string; height?: number | string }
+    altText?: string
+    action?: { values?: { href?: string } }
+    border?: { borderTopWidth?: string; borderTopColor?: string }
+    width?: string
+    html?: string
+  }
+}
+
+interface UnlayerRow {
+  columns?: { contents?: UnlayerContent[] }[]
+  values?: {
+    backgroundColor?: string
+    columnsBackgroundColor?: string
+    padding?: string
+    backgroundImage?: { url?: string }
+  }
+}
+
+interface UnlayerDesign {
+  body?: {
+    rows?: UnlayerRow[]
+    values?: { backgroundColor?: string; preheaderText?: string }
+  }
+}
+
+function stripHTML(html: string): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+  return doc.body.textContent?.replace(/\s+/g, ' ').trim() || ''
+}
+
+function getLink(values: UnlayerContent['values']): { href: string; target?: string } {
+  const href = values?.href
+  if (typeof href === 'string') return { href }
+  return { href: href?.values?.href || '', target: href?.values?.target }
+}
+
+function convertContent(content: UnlayerContent, reporter: ImportReporter): EmailNode[] {
+  const values = content.values || {}
+
+  switch (content.type) {
+    case 'text':
+      return convertHTMLFragment(values.text || '', reporter)
+
+    case 'heading': {
+      const text = stripHTML(values.text || '')
+      const level = Number(values.headingType?.replace('h', '')) || 1
+      if (level > 3) reporter.add('heading', `${values.headingType} was imported as a level 3 heading`)
+      return text
+        ? [{ id: generateId(), type: 'heading', level: Math.min(level, 3) as 1 | 2 | 3, text }]
+        : []
+    }
+
+    case 'button': {
+      const label = stripHTML(values.text || '')
+      const { href, target } = getLink(values)
+      return label
+        ? [{
+            id: generateId(),
+            type: 'button',
+            label,
+            href,
+            target: target === '_self' ? '_self' : '_blank',
+          }]
+        : []
+    }
+
+    case 'image': {
+      const src = values.src?.url
+      if (!src) {
+        reporter.add('image', 'Image without a src was skipped')
+        return []
+      }
+      if (values.action?.values?.href) {
+        reporter.add('image', `Link around image ${src} was dropped`)
+      }
+      return [{
+        id: generateId(),
+        type: 'image',
+        src,
+        alt: values.altText || '',
+        width: toPixels(values.src?.width),
+        height: toPixels(values.src?.height),
+      }]
+    }
+
+    case 'divider':
+      return [{
+        id: generateId(),
+        type: 'divider',
+        color: values.border?.borderTopColor || '#E5E7EB',
+        thickness: toPixels(values.border?.borderTopWidth) || 1,
+        width: Number.parseInt(values.width || '') || 100,
+      }]
+
+    case 'html':
+      reporter.add('html', 'Custom HTML was imported on a best-effort basis')
+      return convertHTMLFragment(values.html || '', reporter)
+
+    default:
+      reporter.add(content.type || 'unknown', `"${content.type}" content has no equivalent block and was dropped`)
+      return []
+  }
+}
+
+function convertRow(row: UnlayerRow, reporter: ImportReporter): EmailNode[] {
+  const columns = row.columns || []
+  if (columns.length > 1) {
+    reporter.add('row', 'Multi-column row was flattened into a single column')
+  }
+  if (row.values?.backgroundImage?.url) {
+    reporter.add('row', 'Row background image was dropped')
+  }
+
+  const children = columns.flatMap((column) =>
+    (column.contents || []).flatMap((content) => convertContent(content, reporter))
+  )
+  if (children.length === 0) return []
+
+  const backgroundColor = row.values?.columnsBackgroundColor || row.values?.backgroundColor
+  if (!backgroundColor || backgroundColor === 'transparent') return children
+
+  return [{
+    id: generateId(),
+    type: 'section',
+    backgroundColor,
+    padding: row.values?.padding || '20px',
+    children,
+  }]
+}
+
+/**
+ * Convert an Unlayer design JSON export into an EmailJSON tree.
+ * Rows with a background colour become sections; columns are flattened.
+ */
+export function importUnlayerDesign(json: string): ImportResult {
+  const design = JSON.parse(json) as UnlayerDesign
+  if (!Array.isArray(design.body?.rows)) {
+    throw new Error('Not an Unlayer design: missing body.rows')
+  }
+
+  const reporter = new ImportReporter()
+  const children = design.body.rows.flatMap((row) => convertRow(row, reporter))
+
+  return createImportResult(
+    // Unlayer designs do not carry a subject line
+    { subject: 'Imported email', previewText: design.body.values?.preheaderText || '' },
+    children,
+    reporter
+  )
+}
+
+export const unlayerImportAdapter: ImportAdapter = {
+  id: 'unlayer',
+  label: 'Unlayer design JSON',
+  extensions: ['.json'],
+  detect: (_fileName, content) => {
+    try {
+      return Array.isArray((JSON.parse(content) as UnlayerDesign).body?.rows)
+    } catch {
+      return false
+    }
+  },
+  import: importUnlayerDesign,
+}
@@ -0,0 +1,91 @@
+import type { ListItem, ListNode } from '../types/email'
+
+export const MAX_LIST_DEPTH = 3
+
+const BULLETS = ['•', '◦', '▪']
+
+/**
+ * List item as edited and rendered: one line with its nesting level
+ */
+export interface FlatListItem {
+  text: string
+  level: number
+}
+
+export interface MarkedListItem extends FlatListItem {
+  marker: string
+}
+
+export function flattenListItems(items: ListItem[], level = 0): FlatListItem[] {
+  return items.flatMap((item) => [
+    { text: item.text, level },
+    ...flattenListItems(item.items || [], level + 1),
+  ])
+}
+
+/**
+ * Rebuild the nested structure from flat lines. An item indented more than
+ * one level past the item before it becomes that item's child.
+ */
+export function nestListItems(flat: FlatListItem[]): ListItem[] {
+  const root: ListItem[] = []
+  const parents: { level: number; item: ListItem }[] = []
+
+  for (const { text, level } of flat) {
+    while (parents.length > 0 && parents[parents.length - 1].level >= level) parents.pop()
+    const item: ListItem = { text }
+    const parent = parents[parents.length - 1]
+    if (parent) {
+      parent.item.items = [...(parent.item.items || []), item]
+    } else {
+      root.push(item)
+    }
+    parents.push({ level, item })
+  }
+
+  return root
+}
+
+function toLetters(n: number): string {
+  let letters = ''
+  for (let value = n; value > 0; value = Math.floor((value - 1) / 26)) {
+    letters = String.fromCharCode(97 + ((value - 1) % 26)) + letters
+  }
+  return letters
+}
+
+function toRoman(n: number): string {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ]
+  let remaining = n
+  return numerals
+    .map(([value, numeral]) => {
+      const count = Math.floor(remaining / value)
+      remaining -= count * value
+      return numeral.repeat(count)
+    })
+    .join('')
+}
+
+/**
+ * Bullet or number for an item. Nested ordered lists count 1. / a. / i.
+ */
+export function getListMarker(listStyle: ListNode['listStyle'], level: number, index: number): string {
+  if (listStyle !== 'ordered') return BULLETS[level % BULLETS.length]
+  const formats = [String, toLetters, toRoman]
+  return `${formats[level % formats.length](index + 1)}.`
+}
+
+/**
+ * Flatten a list node's items in reading order, with the marker for each
+ */
+export function getMarkedListItems(node: ListNode): MarkedListItem[] {
+  const visit = (items: ListItem[], level: number): MarkedListItem[] =>
+    items.flatMap((item, index) => [
+      { text: item.text, level, marker: getListMarker(node.listStyle, level, index) },
+      ...visit(item.items || [], level + 1),
+    ])
+  return visit(node.items || [], 0)
+}
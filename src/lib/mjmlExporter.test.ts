@@ -0,0 +1,43 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import mjml2html from 'mjml'
+import type { EmailNode } from '../types/email'
+import { renderEmailMJML } from './mjmlExporter'
+import { importMJMLEmail } from './importers/mjml'
+import { createEveryBlockEmail } from './__fixtures__/emails'
+
+// Fields that make up a block's structure and content, leaving out ids and
+// styling the exporter fills in with defaults
+const STRUCTURE_FIELDS = [
+  'type', 'condition', 'level', 'text', 'label', 'href', 'src', 'alt', 'videoUrl', 'thumbnailSrc',
+  'listStyle', 'items', 'dataVariable', 'columns', 'maxItems', 'links', 'iconStyle', 'iconSize',
+  'legalText', 'postalAddress', 'unsubscribeVariable', 'preferencesUrl', 'stackOnMobile',
+]
+
+function summarize(node: EmailNode): Record<string, unknown> {
+  const summary: Record<string, unknown> = {}
+  for (const field of STRUCTURE_FIELDS) {
+    const value = (node as unknown as Record<string, unknown>)[field]
+    if (value !== undefined) summary[field] = value
+  }
+  if (node.type === 'column') summary.width = node.width
+  if (node.type === 'repeat' && node.emptyState) summary.emptyState = summarize(node.emptyState)
+  if (node.children) summary.children = node.children.map(summarize)
+  return summary
+}
+
+describe('renderEmailMJML', () => {
+  const email = createEveryBlockEmail()
+  const mjml = renderEmailMJML(email)
+
+  it('renders valid MJML for every block type', () => {
+    const { errors } = mjml2html(mjml, { validationLevel: 'soft' })
+    expect(errors).toEqual([])
+  })
+
+  it('imports back into the same blocks', () => {
+    const { email: imported, report } = importMJMLEmail(mjml)
+    expect(imported.root.children?.map(summarize)).toEqual(email.root.children?.map(summarize))
+    expect(report).toEqual([])
+  })
+})
@@ -0,0 +1,351 @@
+import type { EmailJSON, EmailNode, RowNode, SectionNode } from '../types/email'
+import { escapeHTML, renderFooterHTML, renderInlineHTML, renderListHTML, renderTableRowsHTML } from './htmlRenderer'
+import { getTextSpans } from './richText'
+import { CONDITION_CLOSE_TAG, conditionOpenTag } from './conditions'
+import { toLoopTemplate } from './arrayVariables'
+import { DEFAULT_SOCIAL_ICON_SIZE, getSocialLinkIconUrl, getSocialLinks, getSocialNetworkLabel } from './socialIcons'
+
+const FONT_FAMILY = 'Arial, Helvetica, sans-serif'
+const TEXT_COLOR = '#1F2937'
+
+const HEADING_SIZES: Record<1 | 2 | 3, number> = {
+  1: 30,
+  2: 24,
+  3: 20,
+}
+
+// Mark the components built from blocks MJML has no component for, so the
+// MJML importer can turn them back into those blocks
+export const LIST_CLASS = 'email-list'
+export const FOOTER_CLASS = 'email-footer'
+export const VIDEO_CLASS = 'email-video'
+
+/**
+ * Build an MJML attribute string, skipping empty values
+ */
+function attributes(values: Record<string, string | number | undefined>): string {
+  return Object.entries(values)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([name, value]) => ` ${name}="${escapeHTML(String(value))}"`)
+    .join('')
+}
+
+function indent(lines: string[], depth: number): string[] {
+  return lines.map((line) => `${'  '.repeat(depth)}${line}`)
+}
+
+/**
+ * Wrap a node's MJML in its visibility condition. mj-raw passes the {{#if}}
+ * tags through untouched, which is how MJML supports template logic.
+ */
+function conditional(node: EmailNode, lines: string[]): string[] {
+  if (!node.condition?.variable || lines.length === 0) return lines
+  return [
+    `<mj-raw>${conditionOpenTag(node.condition)}</mj-raw>`,
+    ...lines,
+    `<mj-raw>${CONDITION_CLOSE_TAG}</mj-raw>`,
+  ]
+}
+
+function renderContent(node: EmailNode): string[] {
+  return conditional(node, renderContentNode(node))
+}
+
+/**
+ * Render a content node as MJML column content. Sections and rows nested
+ * inside a column cannot be expressed in MJML, so their children are flattened.
+ */
+function renderContentNode(node: EmailNode): string[] {
+  switch (node.type) {
+    case 'heading': {
+      const level = node.level || 1
+      const size = HEADING_SIZES[level]
+      return [
+        `<mj-text${attributes({ 'font-size': `${size}px`, 'font-weight': 'bold', 'line-height': '1.25', 'padding-bottom': '16px' })}>`,
+        `  <h${level} style="margin:0;font-size:${size}px">${renderInlineHTML(getTextSpans(node), '<br />')}</h${level}>`,
+        '</mj-text>',
+      ]
+    }
+
+    case 'text':
+      return [
+        `<mj-text${attributes({ 'font-size': '16px', 'line-height': '1.5', 'padding-bottom': '16px' })}>`,
+        `  ${renderInlineHTML(getTextSpans(node), '<br />')}`,
+        '</mj-text>',
+      ]
+
+    case 'button':
+      return [
+        `<mj-button${attributes({
+          href: node.href || '#',
+          target: node.target,
+          'background-color': '#2563EB',
+          color: '#FFFFFF',
+          'border-radius': '8px',
+          'font-weight': 'bold',
+          align: 'left',
+        })}>`,
+        `  ${escapeHTML(node.label || '')}`,
+        '</mj-button>',
+      ]
+
+    case 'image':
+      if (!node.src) return []
+      return [
+        `<mj-image${attributes({
+          src: node.src,
+          alt: node.alt || '',
+          width: node.width ? `${node.width}px` : undefined,
+          height: node.height ? `${node.height}px` : undefined,
+        })} />`,
+      ]
+
+    case 'video':
+      if (!node.thumbnailSrc) return []
+      return [
+        `<mj-image${attributes({
+          src: node.thumbnailSrc,
+          href: node.videoUrl,
+          alt: node.alt || '',
+          width: node.width ? `${node.width}px` : undefined,
+          height: node.height ? `${node.height}px` : undefined,
+          'css-class': VIDEO_CLASS,
+        })} />`,
+      ]
+
+    case 'divider':
+      return [
+        `<mj-divider${attributes({
+          'border-color': node.color || '#E5E7EB',
+          'border-width': `${node.thickness || 1}px`,
+          width: `${node.width || 100}%`,
+        })} />`,
+      ]
+
+    case 'list':
+      return [
+        `<mj-text${attributes({ 'padding-bottom': '16px', 'css-class': LIST_CLASS })}>`,
+        `  ${renderListHTML(node)}`,
+        '</mj-text>',
+      ]
+
+    case 'table': {
+      const rows = renderTableRowsHTML(node)
+      if (!rows) return []
+      return [
+        `<mj-table${attributes({ cellpadding: '0', cellspacing: '0', width: '100%', 'padding-bottom': '16px' })}>`,
+        `  ${rows}`,
+        '</mj-table>',
+      ]
+    }
+
+    case 'footer': {
+      const footer = renderFooterHTML(node, '<br />')
+      if (!footer) return []
+      return [
+        `<mj-divider${attributes({ 'border-color': '#E5E7EB', 'border-width': '1px', 'padding-bottom': '24px', 'css-class': FOOTER_CLASS })} />`,
+        `<mj-text${attributes({ align: 'center', 'font-size': '12px', 'line-height': '1.5', color: '#6B7280', 'css-class': FOOTER_CLASS })}>`,
+        `  ${footer}`,
+        '</mj-text>',
+      ]
+    }
+
+    case 'social': {
+      const links = getSocialLinks(node)
+      if (links.length === 0) return []
+      return [
+        `<mj-social${attributes({
+          mode: 'horizontal',
+          align: node.align || 'center',
+          'icon-size': `${node.iconSize || DEFAULT_SOCIAL_ICON_SIZE}px`,
+          'inner-padding': '4px',
+          'padding-bottom': '16px',
+        })}>`,
+        // Without a name, mj-social-element uses the given icon and no background
+        ...links.map(
+          (link) =>
+            `  <mj-social-element${attributes({
+              src: getSocialLinkIconUrl(link, node.iconStyle),
+              href: link.url,
+              alt: getSocialNetworkLabel(link.network),
+              'border-radius': '0',
+            })}></mj-social-element>`
+        ),
+        '</mj-social>',
+      ]
+    }
+
+    case 'spacer':
+      return [`<mj-spacer${attributes({ height: `${node.height || 20}px` })} />`]
+
+    case 'section':
+    case 'row':
+    case 'column':
+      return (node.children || []).flatMap(renderContent)
+
+    case 'repeat': {
+      const content = (node.children || []).flatMap(renderContent)
+      if (!node.dataVariable || content.length === 0) return content
+      const empty = node.emptyState ? renderContent(node.emptyState) : []
+      return [
+        `<mj-raw>{{#each ${node.dataVariable}}}</mj-raw>`,
+        ...(node.maxItems ? [`<mj-raw>{{#if (lt @index ${node.maxItems})}}</mj-raw>`] : []),
+        ...content.map(toLoopTemplate),
+        ...(node.maxItems ? [`<mj-raw>${CONDITION_CLOSE_TAG}</mj-raw>`] : []),
+        ...(empty.length > 0 ? ['<mj-raw>{{else}}</mj-raw>', ...empty] : []),
+        '<mj-raw>{{/each}}</mj-raw>',
+      ]
+    }
+
+    default:
+      return []
+  }
+}
+
+function sectionAttributes(node: SectionNode): string {
+  return attributes({
+    'background-color': node.backgroundColor || '#FFFFFF',
+    padding: node.padding || '20px',
+    'border-radius': node.borderRadius,
+  })
+}
+
+/**
+ * Render an mj-section with a single column holding the given content nodes
+ */
+function renderSection(children: EmailNode[], sectionAttrs: string): string[] {
+  return [
+    `<mj-section${sectionAttrs}>`,
+    '  <mj-column>',
+    ...indent(children.flatMap(renderContent), 2),
+    '  </mj-column>',
+    '</mj-section>',
+  ]
+}
+
+/**
+ * Render a row as an mj-section with one mj-column per column. MJML stacks
+ * columns on mobile by default; an mj-group keeps them side by side.
+ */
+function renderRow(node: RowNode, sectionAttrs: string): string[] {
+  const columns = node.children || []
+  const gap = node.gap ?? 16
+
+  const renderedColumns = columns.flatMap((column, index) => {
+    const width = (column.type === 'column' && column.width) || Math.round(100 / columns.length)
+    const content = column.type === 'column' ? column.children || [] : [column]
+    return [
+      `<mj-column${attributes({
+        width: `${width}%`,
+        'vertical-align': node.verticalAlign || 'top',
+        'padding-left': index > 0 ? `${gap / 2}px` : undefined,
+        'padding-right': index < columns.length - 1 ? `${gap / 2}px` : undefined,
+      })}>`,
+      ...indent(content.flatMap(renderContent), 1),
+      '</mj-column>',
+    ]
+  })
+
+  return [
+    `<mj-section${sectionAttrs}>`,
+    ...(node.stackOnMobile === false
+      ? ['  <mj-group>', ...indent(renderedColumns, 2), '  </mj-group>']
+      : indent(renderedColumns, 1)),
+    '</mj-section>',
+  ]
+}
+
+/**
+ * Split a block list into sections: consecutive content blocks share an
+ * implicit section, and each SectionNode or RowNode becomes its own mj-section.
+ */
+function renderSections(
+  blocks: EmailNode[],
+  implicitAttrs: string,
+  renderNested: (node: SectionNode) => string[]
+): string[] {
+  const output: string[] = []
+  let pending: EmailNode[] = []
+
+  const flush = () => {
+    if (pending.length > 0) {
+      output.push(...renderSection(pending, implicitAttrs))
+      pending = []
+    }
+  }
+
+  for (const block of blocks) {
+    if (block.type === 'section') {
+      flush()
+      output.push(...conditional(block, renderNested(block)))
+    } else if (block.type === 'row') {
+      flush()
+      output.push(...conditional(block, renderRow(block, implicitAttrs)))
+    } else {
+      pending.push(block)
+    }
+  }
+
+  flush()
+  return output
+}
+
+/**
+ * Render a top-level SectionNode. A section that itself contains sections or
+ * rows becomes an mj-wrapper so each inner section keeps its own styling.
+ */
+function renderTopLevelSection(node: SectionNode): string[] {
+  const children = node.children || []
+  if (!children.some((child) => child.type === 'section' || child.type === 'row')) {
+    return renderSection(children, sectionAttributes(node))
+  }
+
+  return [
+    `<mj-wrapper${sectionAttributes(node)}>`,
+    ...indent(
+      renderSections(children, '', (inner) =>
+        renderSection(inner.children || [], sectionAttributes(inner))
+      ),
+      1
+    ),
+    '</mj-wrapper>',
+  ]
+}
+
+/**
+ * Convert an email JSON structure into an MJML document.
+ *
+ * Sections map to mj-section/mj-column, rows to an mj-section with one
+ * mj-column per column, buttons to mj-button, images and linked video
+ * thumbnails to mj-image, dividers to mj-divider, spacers to mj-spacer,
+ * social links to mj-social with the bundled icons and the compliance
+ * footer to a rule followed by small-print mj-text. Variables are kept as
+ * {{placeholders}}, and conditional and repeated blocks sit between mj-raw
+ * {{#if}} and {{#each}} tags.
+ */
+export function renderEmailMJML(email: EmailJSON): string {
+  const { meta, root } = email
+  // Blocks outside any section sit on the same white card as the HTML renderer
+  const containerAttrs = attributes({
+    'background-color':
+      root.type === 'section' && root.backgroundColor ? root.backgroundColor : '#FFFFFF',
+    padding: '16px 32px',
+  })
+
+  return [
+    '<mjml>',
+    '  <mj-head>',
+    `    <mj-title>${escapeHTML(meta.subject)}</mj-title>`,
+    ...(meta.previewText ? [`    <mj-preview>${escapeHTML(meta.previewText)}</mj-preview>`] : []),
+    '    <mj-attributes>',
+    `      <mj-all${attributes({ 'font-family': FONT_FAMILY })} />`,
+    `      <mj-text${attributes({ color: TEXT_COLOR })} />`,
+    '    </mj-attributes>',
+    '  </mj-head>',
+    `  <mj-body${attributes({ 'background-color': '#F3F4F6', width: '600px' })}>`,
+    ...indent(renderSections(root.children || [], containerAttrs, renderTopLevelSection), 2),
+    '  </mj-body>',
+    '</mjml>',
+    '',
+  ].join('\n')
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailNode } from '../types/email'
+import { DEFAULT_LINE_WIDTH, renderFilledPlainText } from './plainTextRenderer'
+
+describe('renderFilledPlainText', () => {
+  it('wraps text after filling in long values', () => {
+    const blocks: EmailNode[] = [{ id: 'intro', type: 'text', text: 'Hi {{firstName}}, {{message}}' }]
+    const text = renderFilledPlainText(blocks, {
+      firstName: 'Alexandra',
+      message: 'your order has shipped and should arrive within three to five working days.',
+    })
+    expect(text.split('\n').every((line) => line.length <= DEFAULT_LINE_WIDTH)).toBe(true)
+    expect(text.replace(/\n/g, ' ')).toBe(
+      'Hi Alexandra, your order has shipped and should arrive within three to five working days.'
+    )
+  })
+
+  it('wraps each element of a repeat block and leaves out hidden blocks', () => {
+    const blocks: EmailNode[] = [
+      {
+        id: 'items',
+        type: 'repeat',
+        dataVariable: 'items',
+        children: [{ id: 'item', type: 'text', text: '{{item.title}}: {{item.description}}' }],
+      },
+      { id: 'vip', type: 'text', text: 'VIP only', condition: { variable: 'isVip', operator: 'truthy' } },
+    ]
+    const description = 'A long description that on its own takes up most of the line width.'
+    const text = renderFilledPlainText(blocks, {
+      items: JSON.stringify([{ title: 'Lamp', description }, { title: 'Desk', description }]),
+    })
+    expect(text).toBe(
+      'Lamp: A long description that on its own takes up most of the line\nwidth.\n\n' +
+        'Desk: A long description that on its own takes up most of the line\nwidth.'
+    )
+  })
+})
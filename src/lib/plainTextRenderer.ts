@@ -0,0 +1,235 @@
+import type { EmailJSON, EmailNode } from '../types/email'
+import { getTextSpans, spansToPlainText } from './richText'
+import { getMarkedListItems } from './listItems'
+import { bindItemFields, expandLoops, mapStrings, parseArrayVariable, toLoopTemplate, wrapLoop } from './arrayVariables'
+import { evaluateCondition, expandConditions, wrapCondition } from './conditions'
+import { substituteVariables } from './variableParser'
+import { getSocialLinks, getSocialNetworkLabel } from './socialIcons'
+
+export const DEFAULT_LINE_WIDTH = 72
+
+/**
+ * Word-wrap a paragraph at the given width. Words longer than the width
+ * (URLs, long {{variables}}) are kept whole on their own line.
+ */
+export function wrapText(text: string, lineWidth = DEFAULT_LINE_WIDTH): string {
+  return text
+    .split(/\r?\n/)
+    .map((paragraph) => {
+      const words = paragraph.split(/\s+/).filter(Boolean)
+      const lines: string[] = []
+      let current = ''
+
+      for (const word of words) {
+        if (!current) {
+          current = word
+        } else if (current.length + 1 + word.length <= lineWidth) {
+          current += ` ${word}`
+        } else {
+          lines.push(current)
+          current = word
+        }
+      }
+
+      if (current) lines.push(current)
+      return lines.join('\n')
+    })
+    .join('\n')
+}
+
+/**
+ * Upper-case text while leaving {{variables}} and (link URLs) as written
+ */
+function toUpperCase(text: string): string {
+  return text
+    .split(/(\{\{[\w.]+\}\}|\([a-z][\w+.-]*:[^)\s]*\))/)
+    .map((part, index) => (index % 2 === 1 ? part : part.toUpperCase()))
+    .join('')
+}
+
+function underline(text: string, char: string): string {
+  const longestLine = Math.max(...text.split('\n').map((line) => line.length))
+  return `${text}\n${char.repeat(longestLine)}`
+}
+
+/**
+ * Render a node's paragraphs, as one {{#if}} block when it has a visibility condition
+ */
+function renderNode(node: EmailNode, lineWidth: number): string[] {
+  const paragraphs = renderNodeContent(node, lineWidth)
+  if (!node.condition?.variable || paragraphs.length === 0) return paragraphs
+  return [wrapCondition(node.condition, paragraphs.join('\n\n'))]
+}
+
+function renderNodeContent(node: EmailNode, lineWidth: number): string[] {
+  switch (node.type) {
+    case 'heading': {
+      const text = spansToPlainText(getTextSpans(node)).trim()
+      if (!text) return []
+      const level = node.level || 1
+      if (level === 1) return [underline(wrapText(toUpperCase(text), lineWidth), '=')]
+      if (level === 2) return [underline(wrapText(text, lineWidth), '-')]
+      return [wrapText(toUpperCase(text), lineWidth)]
+    }
+
+    case 'text': {
+      const text = spansToPlainText(getTextSpans(node)).trim()
+      return text ? [wrapText(text, lineWidth)] : []
+    }
+
+    case 'button': {
+      const label = (node.label || '').trim()
+      if (!node.href) return label ? [wrapText(label, lineWidth)] : []
+      return [wrapText(label ? `${label}: ${node.href}` : node.href, lineWidth)]
+    }
+
+    case 'image':
+      return node.alt ? [wrapText(`[${node.alt.trim()}]`, lineWidth)] : []
+
+    case 'video': {
+      if (!node.videoUrl) return node.alt ? [wrapText(`[${node.alt.trim()}]`, lineWidth)] : []
+      return [wrapText(`${node.alt?.trim() || 'Watch the video'}: ${node.videoUrl}`, lineWidth)]
+    }
+
+    case 'list': {
+      const lines = getMarkedListItems(node).map((item) => {
+        // Hanging indent so wrapped lines align with the item text
+        const prefix = `${'  '.repeat(item.level)}${item.marker} `
+        return wrapText(item.text.trim(), lineWidth - prefix.length)
+          .split('\n')
+          .map((line, index) => (index === 0 ? prefix : ' '.repeat(prefix.length)) + line)
+          .join('\n')
+      })
+      return lines.length > 0 ? [lines.join('\n')] : []
+    }
+
+    case 'table': {
+      const columns = node.columns || []
+      if (columns.length === 0) return []
+      const header = columns.map((column) => column.header.trim()).join(' | ')
+      const cells = columns.map((column) => column.cell.trim()).join(' | ')
+      // The line break sits inside the loop so each element gets its own line
+      const rows = node.dataVariable ? wrapLoop(node.dataVariable, `\n${toLoopTemplate(cells)}`) : `\n${cells}`
+      return [`${header}\n${'-'.repeat(Math.min(header.length, lineWidth))}${rows}`]
+    }
+
+    case 'footer': {
+      const links = [
+        node.unsubscribeVariable && `Unsubscribe: {{${node.unsubscribeVariable}}}`,
+        node.preferencesUrl && `Manage preferences: ${node.preferencesUrl}`,
+      ].filter((line): line is string => Boolean(line))
+      const paragraphs = [node.legalText, node.postalAddress]
+        .map((text) => text?.trim())
+        .filter((text): text is string => Boolean(text))
+        .map((text) => wrapText(text, lineWidth))
+      if (links.length > 0) paragraphs.push(links.join('\n'))
+      return paragraphs.length > 0 ? ['-'.repeat(lineWidth), ...paragraphs] : []
+    }
+
+    case 'social': {
+      const links = getSocialLinks(node).map((link) => `${getSocialNetworkLabel(link.network)}: ${link.url.trim()}`)
+      return links.length > 0 ? [links.join('\n')] : []
+    }
+
+    case 'divider':
+      return ['-'.repeat(lineWidth)]
+
+    case 'spacer':
+      return []
+
+    case 'section':
+    case 'row':
+    case 'column':
+      // Columns read top to bottom, left column first
+      return (node.children || []).flatMap((child) => renderNode(child, lineWidth))
+
+    case 'repeat': {
+      const paragraphs = (node.children || []).flatMap((child) => renderNode(child, lineWidth))
+      if (!node.dataVariable || paragraphs.length === 0) return paragraphs
+      const empty = node.emptyState ? renderNode(node.emptyState, lineWidth).join('\n\n') : ''
+      // Each element starts its own paragraph; the extra breaks are collapsed when filled in
+      const body = `\n\n${toLoopTemplate(paragraphs.join('\n\n'))}`
+      return [wrapLoop(node.dataVariable, body, node.maxItems, empty)]
+    }
+
+    default:
+      return []
+  }
+}
+
+/**
+ * Render a list of blocks to plain text, one paragraph per block
+ */
+export function renderBlocksPlainText(
+  blocks: EmailNode[],
+  lineWidth = DEFAULT_LINE_WIDTH
+): string {
+  return blocks.flatMap((block) => renderNode(block, lineWidth)).join('\n\n')
+}
+
+/**
+ * Render an email JSON structure to the plain-text alternative part.
+ *
+ * Headings are upper-cased and/or underlined, links are followed by their
+ * URL in brackets, lists keep their bullets or numbers, tables become one
+ * "a | b" line per row, buttons and videos become "Label: href", images
+ * fall back to their alt text, social links become "Network: URL" lines,
+ * dividers become rules and the footer's links are spelled out below its
+ * small print.
+ * Variables are kept as {{placeholders}}, array-bound table rows and
+ * repeated blocks as {{#each}} blocks and conditional blocks as {{#if}}
+ * blocks.
+ */
+export function renderEmailPlainText(
+  email: EmailJSON,
+  lineWidth = DEFAULT_LINE_WIDTH
+): string {
+  return `${renderBlocksPlainText(email.root.children || [], lineWidth)}\n`
+}
+
+/**
+ * Fill rendered plain text in with test values: loops, conditions and
+ * variables. Loops go first, since their item caps are {{#if}} tags too.
+ * Hidden blocks leave their paragraph breaks behind, so runs of blank lines
+ * are collapsed.
+ */
+export function fillPlainText(text: string, variables: Record<string, string>): string {
+  const expanded = expandConditions(expandLoops(text, variables), variables)
+  return substituteVariables(expanded, variables).replace(/\n{3,}/g, '\n\n')
+}
+
+/**
+ * Blocks as a recipient with the given values gets them: hidden blocks are
+ * left out and repeat blocks with a valid array are expanded, one copy of
+ * their blocks per element
+ */
+function resolveBlocks(blocks: EmailNode[], variables: Record<string, string>): EmailNode[] {
+  return blocks.flatMap((block): EmailNode[] => {
+    if (!evaluateCondition(block.condition, variables)) return []
+    if (block.type === 'repeat' && block.dataVariable) {
+      const items = parseArrayVariable(variables[block.dataVariable])
+      if (items?.length === 0) return block.emptyState ? resolveBlocks([block.emptyState], variables) : []
+      if (items) {
+        const copies = items
+          .slice(0, block.maxItems)
+          .flatMap((item) => (block.children || []).map((child) => bindItemFields(child, item)))
+        return resolveBlocks(copies, variables)
+      }
+    }
+    return block.children ? [{ ...block, children: resolveBlocks(block.children, variables) } as EmailNode] : [block]
+  })
+}
+
+/**
+ * Render blocks to plain text with test values filled in. The values go in
+ * before the text is wrapped, so long ones don't push lines past the width;
+ * fillPlainText then handles what is left, such as array-bound table rows.
+ */
+export function renderFilledPlainText(
+  blocks: EmailNode[],
+  variables: Record<string, string>,
+  lineWidth = DEFAULT_LINE_WIDTH
+): string {
+  const filled = mapStrings(resolveBlocks(blocks, variables), (text) => substituteVariables(text, variables))
+  return fillPlainText(renderBlocksPlainText(filled, lineWidth), variables)
+}
@@ -0,0 +1,43 @@
+export type PreviewDeviceId = 'mobile-small' | 'mobile' | 'tablet' | 'full'
+
+export interface PreviewDevice {
+  id: PreviewDeviceId
+  label: string
+  /** Portrait screen size in CSS pixels; undefined fills the preview pane */
+  width?: number
+  height?: number
+}
+
+export const PREVIEW_DEVICES: PreviewDevice[] = [
+  { id: 'mobile-small', label: 'Mobile (320px)', width: 320, height: 568 },
+  { id: 'mobile', label: 'Mobile (375px)', width: 375, height: 667 },
+  { id: 'tablet', label: 'Tablet (600px)', width: 600, height: 800 },
+  { id: 'full', label: 'Full width' },
+]
+
+export interface PreviewDeviceSettings {
+  deviceId: PreviewDeviceId
+  rotated: boolean
+}
+
+export const DEFAULT_PREVIEW_DEVICE_SETTINGS: PreviewDeviceSettings = {
+  deviceId: 'full',
+  rotated: false,
+}
+
+export function getPreviewDevice(id: PreviewDeviceId): PreviewDevice {
+  return PREVIEW_DEVICES.find((device) => device.id === id) ?? PREVIEW_DEVICES[PREVIEW_DEVICES.length - 1]
+}
+
+/**
+ * Screen size for a device, with width and height swapped in landscape
+ */
+export function getScreenSize(
+  device: PreviewDevice,
+  rotated: boolean
+): { width?: number; height?: number } {
+  if (!device.width || !device.height) return {}
+  return rotated
+    ? { width: device.height, height: device.width }
+    : { width: device.width, height: device.height }
+}
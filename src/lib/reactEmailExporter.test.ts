@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+import type { EmailJSON } from '../types/email'
+import { renderEmailReactComponent } from './reactEmailExporter'
+
+const email: EmailJSON = {
+  version: 2,
+  meta: { subject: 'Your order {{orderNumber}} is confirmed', previewText: 'Thanks, {{firstName}}' },
+  root: {
+    id: 'root',
+    type: 'section',
+    children: [
+      { id: 'logo', type: 'image', src: '{{logoUrl}}', alt: 'Logo' },
+      { id: 'track', type: 'button', label: 'Track order', href: 'https://shop.example.com/orders/{{orderId}}' },
+      { id: 'receipt', type: 'button', label: 'Receipt', href: '{{receiptUrl}}' },
+    ],
+  },
+}
+
+describe('renderEmailReactComponent', () => {
+  const source = renderEmailReactComponent(email)
+
+  it('makes variables in the subject, links and image sources props', () => {
+    expect(source).toContain('({ orderNumber, firstName, logoUrl, orderId, receiptUrl }: YourOrderIsConfirmedEmailProps)')
+    for (const name of ['orderNumber', 'firstName', 'logoUrl', 'orderId', 'receiptUrl']) {
+      expect(source).toContain(`  ${name}: string`)
+    }
+  })
+
+  it('renders them as prop expressions', () => {
+    expect(source).toContain('<title>{`Your order ${orderNumber} is confirmed`}</title>')
+    expect(source).toContain('<Img src={logoUrl} alt="Logo"')
+    expect(source).toContain('<Button href={`https://shop.example.com/orders/${orderId}`}')
+    expect(source).toContain('<Button href={receiptUrl}')
+  })
+})
@@ -0,0 +1,594 @@
+import type { EmailJSON, EmailNode, TextSpan, VisibilityCondition } from '../types/email'
+import { extractArrayVariablesFromJSON, extractVariables, extractVariablesFromJSON } from './variableParser'
+import { buildSampleItem } from './arrayVariables'
+import { getTextSpans } from './richText'
+import { getMarkedListItems } from './listItems'
+import { DEFAULT_SOCIAL_ICON_SIZE, getSocialLinkIconUrl, getSocialLinks, getSocialNetworkLabel } from './socialIcons'
+
+const FONT_FAMILY = "Arial, 'Helvetica Neue', Helvetica, sans-serif"
+const TEXT_COLOR = '#1F2937'
+const SMALL_PRINT_COLOR = '#6B7280'
+
+const HEADING_SIZES: Record<1 | 2 | 3, number> = {
+  1: 30,
+  2: 24,
+  3: 20,
+}
+
+// Same breakpoint as the HTML renderer's stacked columns
+const STACKED_COLUMNS_CSS =
+  '@media only screen and (max-width:480px){.stack-column{display:block !important;width:100% !important;padding-left:0 !important;padding-right:0 !important}}'
+
+const LIST_INDENT = 24
+const SOCIAL_ICON_GAP = 8
+
+const VARIABLE_REGEX = /\{\{(\w+)\}\}/g
+const ITEM_FIELD_REGEX = /^\{\{item(?:\.([\w.]+))?\}\}$/
+const IDENTIFIER_REGEX = /^[A-Za-z_$][\w$]*$/
+
+function jsString(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n')}'`
+}
+
+/**
+ * Build a JSX style object literal, e.g. {{ margin: '0', color: '#000' }}
+ */
+function styleProp(properties: Record<string, string | undefined>): string {
+  const entries = Object.entries(properties)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(([property, value]) => `${property}: ${jsString(value as string)}`)
+  return `style={{ ${entries.join(', ')} }}`
+}
+
+/**
+ * Derive a PascalCase component name from the subject line,
+ * e.g. "Welcome aboard, {{firstName}}!" -> "WelcomeAboardEmail"
+ */
+export function toComponentName(subject: string): string {
+  const words = subject
+    .replace(VARIABLE_REGEX, ' ')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .slice(0, 5)
+  const base = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('')
+  if (!base || /^\d/.test(base)) return 'GeneratedEmail'
+  return base.endsWith('Email') ? base : `${base}Email`
+}
+
+/**
+ * Property access for a dotted field path, e.g. "price.amount" -> ".price.amount"
+ */
+function fieldAccessor(path: string): string {
+  return path
+    .split('.')
+    .map((key) => (IDENTIFIER_REGEX.test(key) ? `.${key}` : `[${jsString(key)}]`))
+    .join('')
+}
+
+function objectKey(key: string): string {
+  return IDENTIFIER_REGEX.test(key) ? key : jsString(key)
+}
+
+/**
+ * TypeScript type of a sample array element, e.g. { name: string; price: { amount: string } }
+ */
+function sampleItemType(item: Record<string, unknown>): string {
+  const fields = Object.entries(item).map(([key, value]) =>
+    `${objectKey(key)}: ${value && typeof value === 'object' ? sampleItemType(value as Record<string, unknown>) : 'string'}`
+  )
+  return `{ ${fields.join('; ')} }`
+}
+
+/**
+ * JS literal of a sample array element, e.g. { name: 'name', price: { amount: 'price.amount' } }
+ */
+function sampleItemLiteral(item: Record<string, unknown>): string {
+  const fields = Object.entries(item).map(([key, value]) =>
+    `${objectKey(key)}: ${value && typeof value === 'object' ? sampleItemLiteral(value as Record<string, unknown>) : jsString(String(value))}`
+  )
+  return `{ ${fields.join(', ')} }`
+}
+
+interface RenderContext {
+  props: Set<string>
+  /** Array props that tables and repeaters map over */
+  arrays: Set<string>
+  /** Set while rendering inside a .map() over an array prop, where {{item.*}} reads the element */
+  inLoop: boolean
+  /** Set when any row stacks its columns on mobile */
+  hasStackedRows: boolean
+}
+
+/**
+ * JS expression for a {{variable}} or {{item.*}} reference, or null when it
+ * isn't a prop or loop element in this context
+ */
+function referenceExpression(reference: string, context: RenderContext): string | null {
+  const item = reference.match(ITEM_FIELD_REGEX)
+  if (item && context.inLoop) return `item${item[1] ? fieldAccessor(item[1]) : ''}`
+  const variable = reference.match(/^\{\{(\w+)\}\}$/)
+  return variable && context.props.has(variable[1]) ? variable[1] : null
+}
+
+/**
+ * Render nodes as the body of a .map() over an array prop
+ */
+function renderInLoop(nodes: EmailNode[], context: RenderContext): string[] {
+  const outer = context.inLoop
+  context.inLoop = true
+  const lines = nodes.flatMap((node) => renderNode(node, context))
+  context.inLoop = outer
+  return lines
+}
+
+/**
+ * Render text as JSX children: known {{variables}} become {prop} expressions
+ * and, inside a loop, {{item.*}} becomes a read of the element. Anything JSX
+ * would misread is emitted as a string literal.
+ */
+function renderJSXText(text: string, context: RenderContext): string {
+  return text
+    .split(/(\{\{\w+\}\}|\{\{item\.[\w.]+\}\}|\r?\n)/)
+    .filter(Boolean)
+    .map((part) => {
+      if (part === '\n' || part === '\r\n') return '<br />'
+      const expression = referenceExpression(part, context)
+      if (expression) return `{${expression}}`
+      return /[{}<>&]|^\s|\s$/.test(part) ? `{${jsString(part)}}` : part
+    })
+    .join('')
+}
+
+/**
+ * Render a string as a JS expression: the prop itself when the string is just
+ * a reference, or a template literal when it contains some, e.g.
+ * `https://example.com/${userId}`
+ */
+function renderJSXExpression(value: string, context: RenderContext): string {
+  const reference = referenceExpression(value.trim(), context)
+  if (reference) return reference
+  let usesProps = false
+  const template = value
+    .replace(/\\/g, '\\\\')
+    .replace(/`/g, '\\`')
+    .replace(/\$\{/g, '\\${')
+    .replace(/\{\{\w+\}\}|\{\{item\.[\w.]+\}\}/g, (match) => {
+      const expression = referenceExpression(match, context)
+      if (!expression) return match
+      usesProps = true
+      return `\${${expression}}`
+    })
+  return usesProps ? `\`${template}\`` : jsString(value)
+}
+
+function renderJSXAttribute(name: string, value: string, context: RenderContext): string {
+  const expression = renderJSXExpression(value, context)
+  // JSX string attributes have no escapes, so anything unusual goes in braces
+  return !expression.startsWith("'") || /["\\\n]/.test(value)
+    ? `${name}={${expression}}`
+    : `${name}="${value}"`
+}
+
+/**
+ * Render formatted text as JSX, wrapping marked runs in inline elements
+ */
+function renderJSXSpans(spans: TextSpan[], context: RenderContext): string {
+  return spans
+    .map((span) => {
+      const marks = span.marks || {}
+      let jsx = renderJSXText(span.text, context)
+      if (marks.bold) jsx = `<strong>${jsx}</strong>`
+      if (marks.italic) jsx = `<em>${jsx}</em>`
+      if (marks.underline) jsx = `<u>${jsx}</u>`
+      if (marks.link) {
+        const style = styleProp({ color: marks.color || '#2563EB', textDecoration: 'underline' })
+        return `<Link ${renderJSXAttribute('href', marks.link, context)} ${style}>${jsx}</Link>`
+      }
+      if (marks.color) jsx = `<span ${styleProp({ color: marks.color })}>${jsx}</span>`
+      return jsx
+    })
+    .join('')
+}
+
+function indent(lines: string[], depth: number): string[] {
+  return lines.map((line) => `${'  '.repeat(depth)}${line}`)
+}
+
+/**
+ * JS expression for a visibility condition, or null when its variable isn't a prop
+ */
+function conditionExpression(condition: VisibilityCondition | undefined, context: RenderContext): string | null {
+  if (!condition?.variable) return null
+  const { variable } = condition
+  if (context.arrays.has(variable)) return `${variable}.length > 0`
+  if (!context.props.has(variable)) return null
+  return condition.operator === 'equals' ? `${variable} === ${jsString(condition.value ?? '')}` : variable
+}
+
+/**
+ * Render a node, guarded by its visibility condition when it has one
+ */
+function renderNode(node: EmailNode, context: RenderContext): string[] {
+  const lines = renderNodeContent(node, context)
+  const test = conditionExpression(node.condition, context)
+  if (!test || lines.length === 0) return lines
+  return [`{${test} && (`, ...indent(lines, 1), ')}']
+}
+
+function renderNodeContent(node: EmailNode, context: RenderContext): string[] {
+  switch (node.type) {
+    case 'heading': {
+      const level = node.level || 1
+      const style = styleProp({
+        margin: '0 0 16px',
+        fontSize: `${HEADING_SIZES[level]}px`,
+        lineHeight: '1.25',
+        fontWeight: 'bold',
+        color: TEXT_COLOR,
+      })
+      return [
+        `<Heading as="h${level}" ${style}>`,
+        `  ${renderJSXSpans(getTextSpans(node), context)}`,
+        '</Heading>',
+      ]
+    }
+
+    case 'text': {
+      const style = styleProp({
+        margin: '0 0 16px',
+        fontSize: '16px',
+        lineHeight: '1.5',
+        color: TEXT_COLOR,
+      })
+      return [`<Text ${style}>`, `  ${renderJSXSpans(getTextSpans(node), context)}`, '</Text>']
+    }
+
+    case 'button': {
+      const style = styleProp({
+        display: 'inline-block',
+        padding: '12px 24px',
+        backgroundColor: '#2563EB',
+        color: '#FFFFFF',
+        fontWeight: 'bold',
+        borderRadius: '8px',
+        textDecoration: 'none',
+      })
+      const target = node.target ? ` target="${node.target}"` : ''
+      return [
+        `<Section style={{ margin: '0 0 16px' }}>`,
+        `  <Button ${renderJSXAttribute('href', node.href || '#', context)}${target} ${style}>`,
+        `    ${renderJSXText(node.label || '', context)}`,
+        '  </Button>',
+        '</Section>',
+      ]
+    }
+
+    case 'image': {
+      if (!node.src) return []
+      const size = [
+        node.width ? ` width={${node.width}}` : '',
+        node.height ? ` height={${node.height}}` : '',
+      ].join('')
+      return [
+        `<Img ${renderJSXAttribute('src', node.src, context)} ${renderJSXAttribute('alt', node.alt || '', context)}${size} ${styleProp({ display: 'block', maxWidth: '100%', height: 'auto', margin: '0 0 16px' })} />`,
+      ]
+    }
+
+    case 'video': {
+      if (!node.thumbnailSrc) return []
+      const size = [
+        node.width ? ` width={${node.width}}` : '',
+        node.height ? ` height={${node.height}}` : '',
+      ].join('')
+      const image = `<Img ${renderJSXAttribute('src', node.thumbnailSrc, context)} ${renderJSXAttribute('alt', node.alt || '', context)}${size} ${styleProp({ display: 'block', maxWidth: '100%', height: 'auto' })} />`
+      if (!node.videoUrl) return [`<Section style={{ margin: '0 0 16px' }}>`, `  ${image}`, '</Section>']
+      return [
+        `<Section style={{ margin: '0 0 16px' }}>`,
+        `  <Link ${renderJSXAttribute('href', node.videoUrl, context)}>`,
+        `    ${image}`,
+        '  </Link>',
+        '</Section>',
+      ]
+    }
+
+    case 'list': {
+      const markerWidth = node.listStyle === 'ordered' ? 32 : 20
+      const items = getMarkedListItems(node).flatMap((item) => {
+        const offset = item.level * LIST_INDENT
+        const markerStyle = styleProp({
+          width: `${markerWidth}px`,
+          paddingLeft: offset ? `${offset}px` : undefined,
+          verticalAlign: 'top',
+          fontSize: '16px',
+          lineHeight: '1.5',
+          color: node.bulletColor || TEXT_COLOR,
+        })
+        const textStyle = styleProp({ verticalAlign: 'top', fontSize: '16px', lineHeight: '1.5', color: TEXT_COLOR })
+        return [
+          '<Row>',
+          `  <Column ${markerStyle}>${renderJSXText(item.marker, context)}</Column>`,
+          `  <Column ${textStyle}>${renderJSXText(item.text, context)}</Column>`,
+          '</Row>',
+        ]
+      })
+      return [`<Section style={{ margin: '0 0 16px' }}>`, ...indent(items, 1), '</Section>']
+    }
+
+    case 'table': {
+      const columns = node.columns || []
+      if (columns.length === 0) return []
+      const borderColor = node.borderColor || '#E5E7EB'
+      const inLoop = Boolean(node.dataVariable && context.arrays.has(node.dataVariable))
+      const outer = context.inLoop
+      context.inLoop = inLoop
+      const cellStyle = (align: string, header: boolean, width?: number) =>
+        styleProp({
+          width: width ? `${width}%` : undefined,
+          padding: '8px',
+          borderBottom: `1px solid ${borderColor}`,
+          backgroundColor: header ? node.headerBackgroundColor || '#F3F4F6' : undefined,
+          fontSize: '14px',
+          lineHeight: '1.5',
+          fontWeight: header ? 'bold' : undefined,
+          textAlign: align,
+          color: TEXT_COLOR,
+        })
+
+      const headerCells = columns.map(
+        (column) =>
+          `<th scope="col" ${cellStyle(column.align || 'left', true, column.width)}>${renderJSXText(column.header, context)}</th>`
+      )
+      const cells = columns.map(
+        (column) => `<td ${cellStyle(column.align || 'left', false)}>${renderJSXText(column.cell, context)}</td>`
+      )
+      context.inLoop = outer
+      const bodyRows = inLoop
+        ? [
+            `{${node.dataVariable}.map((item, index) => (`,
+            '  <tr key={index}>',
+            ...indent(cells, 2),
+            '  </tr>',
+            '))}',
+          ]
+        : ['<tr>', ...indent(cells, 1), '</tr>']
+
+      return [
+        `<table width="100%" cellPadding={0} cellSpacing={0} ${styleProp({ borderCollapse: 'collapse', margin: '0 0 16px' })}>`,
+        '  <tbody>',
+        '    <tr>',
+        ...indent(headerCells, 3),
+        '    </tr>',
+        ...indent(bodyRows, 2),
+        '  </tbody>',
+        '</table>',
+      ]
+    }
+
+    case 'divider':
+      return [
+        `<Hr ${styleProp({
+          borderColor: node.color || '#E5E7EB',
+          borderTopWidth: `${node.thickness || 1}px`,
+          width: `${node.width || 100}%`,
+          margin: '16px auto',
+        })} />`,
+      ]
+
+    case 'footer': {
+      const linkStyle = styleProp({ color: SMALL_PRINT_COLOR, textDecoration: 'underline' })
+      const links = [
+        node.unsubscribeVariable &&
+          `<Link ${renderJSXAttribute('href', `{{${node.unsubscribeVariable}}}`, context)} ${linkStyle}>Unsubscribe</Link>`,
+        node.preferencesUrl &&
+          `<Link ${renderJSXAttribute('href', node.preferencesUrl, context)} ${linkStyle}>Manage preferences</Link>`,
+      ].filter(Boolean)
+      const paragraphs = [node.legalText, node.postalAddress]
+        .map((text) => text?.trim())
+        .filter((text): text is string => Boolean(text))
+        .map((text) => renderJSXText(text, context))
+      if (links.length > 0) paragraphs.push(links.join(' · '))
+      if (paragraphs.length === 0) return []
+
+      const textStyle = (last: boolean) =>
+        styleProp({ margin: last ? '0' : '0 0 8px', fontSize: '12px', lineHeight: '1.5', color: SMALL_PRINT_COLOR })
+      return [
+        `<Section ${styleProp({ borderTop: '1px solid #E5E7EB', padding: '24px 0 0', textAlign: 'center' })}>`,
+        ...paragraphs.map((jsx, index) => `  <Text ${textStyle(index === paragraphs.length - 1)}>${jsx}</Text>`),
+        '</Section>',
+      ]
+    }
+
+    case 'social': {
+      const links = getSocialLinks(node)
+      if (links.length === 0) return []
+      const size = node.iconSize || DEFAULT_SOCIAL_ICON_SIZE
+      return [
+        `<Section ${styleProp({ margin: '0 0 16px', textAlign: node.align || 'center' })}>`,
+        ...links.flatMap((link, index) => [
+          `  <Link ${renderJSXAttribute('href', link.url, context)}>`,
+          `    <Img src="${getSocialLinkIconUrl(link, node.iconStyle)}" alt="${getSocialNetworkLabel(link.network)}" width={${size}} height={${size}} ${styleProp({
+            display: 'inline-block',
+            marginLeft: index > 0 ? `${SOCIAL_ICON_GAP}px` : undefined,
+          })} />`,
+          '  </Link>',
+        ]),
+        '</Section>',
+      ]
+    }
+
+    case 'spacer':
+      return [`<Section ${styleProp({ height: `${node.height || 20}px` })} />`]
+
+    case 'section':
+      return [
+        `<Section ${styleProp({
+          backgroundColor: node.backgroundColor || '#FFFFFF',
+          padding: node.padding || '20px',
+          borderRadius: node.borderRadius,
+          margin: '0 0 16px',
+        })}>`,
+        ...indent((node.children || []).flatMap((child) => renderNode(child, context)), 1),
+        '</Section>',
+      ]
+
+    case 'row': {
+      const columns = node.children || []
+      const gap = node.gap ?? 16
+      const stack = node.stackOnMobile !== false
+      if (stack) context.hasStackedRows = true
+
+      const renderedColumns = columns.flatMap((column, index) => {
+        const width = (column.type === 'column' && column.width) || Math.round(100 / columns.length)
+        const content = column.type === 'column' ? column.children || [] : [column]
+        const style = styleProp({
+          width: `${width}%`,
+          verticalAlign: node.verticalAlign || 'top',
+          paddingLeft: index > 0 ? `${gap / 2}px` : undefined,
+          paddingRight: index < columns.length - 1 ? `${gap / 2}px` : undefined,
+        })
+        return [
+          `<Column${stack ? ' className="stack-column"' : ''} ${style}>`,
+          ...indent(content.flatMap((child) => renderNode(child, context)), 1),
+          '</Column>',
+        ]
+      })
+
+      return ['<Row>', ...indent(renderedColumns, 1), '</Row>']
+    }
+
+    case 'repeat': {
+      const children = node.children || []
+      if (!node.dataVariable || !context.arrays.has(node.dataVariable)) {
+        return children.flatMap((child) => renderNode(child, context))
+      }
+      const content = renderInLoop(children, context)
+      if (content.length === 0) return []
+      const items = node.maxItems ? `${node.dataVariable}.slice(0, ${node.maxItems})` : node.dataVariable
+      const map = `${items}.map((item, index) => (`
+      const element = ['  <Section key={index}>', ...indent(content, 2), '  </Section>']
+      if (!node.emptyState) return ['<Section>', `  {${map}`, ...indent(element, 1), '  ))}', '</Section>']
+
+      // The empty state shows instead of the elements, like a Handlebars {{else}}
+      return [
+        '<Section>',
+        `  {${node.dataVariable}.length === 0 ? (`,
+        '    <Section>',
+        ...indent(renderNode(node.emptyState, context), 3),
+        '    </Section>',
+        '  ) : (',
+        `    ${map}`,
+        ...indent(element, 2),
+        '    ))',
+        '  )}',
+        '</Section>',
+      ]
+    }
+
+    default:
+      return []
+  }
+}
+
+/**
+ * Generate React Email component source (.tsx) from an email JSON structure.
+ *
+ * Every {{variable}} in the subject, preview text and blocks, including link
+ * and image URLs, becomes a typed string prop, and PreviewProps are filled
+ * with the variable names so the template renders in the React Email dev
+ * server straight away. Array variables bound to tables and repeaters become
+ * typed array props with a one-element sample, and conditional blocks are
+ * rendered behind a `prop && (...)` guard.
+ */
+export function renderEmailReactComponent(email: EmailJSON): string {
+  const { meta, root } = email
+  const componentName = toComponentName(meta.subject)
+  const propsName = `${componentName}Props`
+  const arrayFields = extractArrayVariablesFromJSON(root)
+  // The subject and preview text are rendered too, so their variables are props as well
+  const variables = Array.from(
+    new Set([...extractVariables(`${meta.subject} ${meta.previewText ?? ''}`), ...extractVariablesFromJSON(root)])
+  ).filter((name) => IDENTIFIER_REGEX.test(name) && !(name in arrayFields))
+  const arrays = Object.entries(arrayFields)
+    .filter(([name]) => IDENTIFIER_REGEX.test(name))
+    .map(([name, fields]) => ({ name, sample: buildSampleItem(fields, (path) => path) }))
+  const propNames = [...variables, ...arrays.map(({ name }) => name)]
+  const context: RenderContext = {
+    props: new Set(variables),
+    arrays: new Set(arrays.map(({ name }) => name)),
+    inLoop: false,
+    hasStackedRows: false,
+  }
+
+  const containerBackground =
+    root.type === 'section' && root.backgroundColor ? root.backgroundColor : '#FFFFFF'
+  const body = (root.children || []).flatMap((child) => renderNode(child, context))
+
+  // Arrays whose cells only use {{item}} itself are arrays of strings
+  const arrayType = (sample: Record<string, unknown>) =>
+    Object.keys(sample).length ? `${sampleItemType(sample)}[]` : 'string[]'
+  const arraySample = (name: string, sample: Record<string, unknown>) =>
+    Object.keys(sample).length ? `[${sampleItemLiteral(sample)}]` : `[${jsString(name)}]`
+
+  const propsInterface = propNames.length
+    ? [
+        `export interface ${propsName} {`,
+        ...variables.map((name) => `  ${name}: string`),
+        ...arrays.map(({ name, sample }) => `  ${name}: ${arrayType(sample)}`),
+        '}',
+      ]
+    : [`export type ${propsName} = Record<string, never>`]
+  const signature = propNames.length
+    ? `{ ${propNames.join(', ')} }: ${propsName}`
+    : `_props: ${propsName}`
+  const previewProps = propNames.length
+    ? [
+        `${componentName}.PreviewProps = {`,
+        ...variables.map((name) => `  ${name}: ${jsString(name)},`),
+        ...arrays.map(({ name, sample }) => `  ${name}: ${arraySample(name, sample)},`),
+        `} satisfies ${propsName}`,
+      ]
+    : [`${componentName}.PreviewProps = {} satisfies ${propsName}`]
+
+  return [
+    'import {',
+    '  Body,',
+    '  Button,',
+    '  Column,',
+    '  Container,',
+    '  Head,',
+    '  Heading,',
+    '  Hr,',
+    '  Html,',
+    '  Img,',
+    '  Link,',
+    '  Preview,',
+    '  Row,',
+    '  Section,',
+    '  Text,',
+    "} from '@react-email/components'",
+    '',
+    ...propsInterface,
+    '',
+    `export default function ${componentName}(${signature}) {`,
+    '  return (',
+    '    <Html lang="en">',
+    '      <Head>',
+    `        <title>{${renderJSXExpression(meta.subject, context)}}</title>`,
+    ...(context.hasStackedRows ? [`        <style>{${jsString(STACKED_COLUMNS_CSS)}}</style>`] : []),
+    '      </Head>',
+    ...(meta.previewText
+      ? [`      <Preview>${renderJSXText(meta.previewText, context)}</Preview>`]
+      : []),
+    `      <Body ${styleProp({ margin: '0', padding: '24px 12px', backgroundColor: '#F3F4F6', fontFamily: FONT_FAMILY })}>`,
+    `        <Container ${styleProp({ maxWidth: '600px', padding: '32px', backgroundColor: containerBackground })}>`,
+    ...indent(body, 5),
+    '        </Container>',
+    '      </Body>',
+    '    </Html>',
+    '  )',
+    '}',
+    '',
+    ...previewProps,
+    '',
+  ].join('\n')
+}
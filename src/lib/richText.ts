@@ -0,0 +1,197 @@
+import type { TextMarks, TextSpan } from '../types/email'
+import { substituteVariables } from './variableParser'
+
+const MARK_KEYS: (keyof TextMarks)[] = ['bold', 'italic', 'underline', 'link', 'color']
+
+/**
+ * Drop unset marks, returning undefined when nothing is left
+ */
+function cleanMarks(marks?: TextMarks): TextMarks | undefined {
+  const cleaned: TextMarks = {}
+  for (const key of MARK_KEYS) {
+    if (marks?.[key]) Object.assign(cleaned, { [key]: marks[key] })
+  }
+  return Object.keys(cleaned).length > 0 ? cleaned : undefined
+}
+
+function sameMarks(a?: TextMarks, b?: TextMarks): boolean {
+  return MARK_KEYS.every((key) => (a?.[key] || undefined) === (b?.[key] || undefined))
+}
+
+/**
+ * Unformatted text of a span list
+ */
+export function spansToText(spans: TextSpan[]): string {
+  return spans.map((span) => span.text).join('')
+}
+
+/**
+ * Formatted content of a text or heading node. Nodes saved before inline
+ * formatting existed, or whose text was changed without updating the spans,
+ * are read as a single unformatted span.
+ */
+export function getTextSpans(node: { text?: string; spans?: TextSpan[] }): TextSpan[] {
+  const text = node.text || ''
+  if (node.spans && spansToText(node.spans) === text) return node.spans
+  return text ? [{ text }] : []
+}
+
+/**
+ * Remove empty spans and merge neighbours with identical marks
+ */
+export function normalizeSpans(spans: TextSpan[]): TextSpan[] {
+  const result: TextSpan[] = []
+  for (const span of spans) {
+    if (!span.text) continue
+    const marks = cleanMarks(span.marks)
+    const previous = result[result.length - 1]
+    if (previous && sameMarks(previous.marks, marks)) {
+      previous.text += span.text
+    } else {
+      result.push(marks ? { text: span.text, marks } : { text: span.text })
+    }
+  }
+  return result
+}
+
+/**
+ * Node fields for saving edited content. Spans are only stored when there is
+ * formatting, so unformatted nodes keep the plain shape.
+ */
+export function toTextFields(spans: TextSpan[]): { text: string; spans?: TextSpan[] } {
+  const normalized = normalizeSpans(spans)
+  return {
+    text: spansToText(normalized),
+    spans: normalized.some((span) => span.marks) ? normalized : undefined,
+  }
+}
+
+function splitSpans(spans: TextSpan[], offset: number): TextSpan[] {
+  let position = 0
+  return spans.flatMap((span) => {
+    const start = position
+    position += span.text.length
+    if (offset <= start || offset >= position) return [span]
+    const at = offset - start
+    return [
+      { ...span, text: span.text.slice(0, at) },
+      { ...span, text: span.text.slice(at) },
+    ]
+  })
+}
+
+/**
+ * Widen a range so it never cuts through a {{variable}}, which would stop it
+ * from being substituted once formatting tags are wrapped around part of it
+ */
+function expandToVariables(text: string, start: number, end: number): [number, number] {
+  for (const match of text.matchAll(/\{\{\w+\}\}/g)) {
+    const matchStart = match.index ?? 0
+    const matchEnd = matchStart + match[0].length
+    if (start > matchStart && start < matchEnd) start = matchStart
+    if (end > matchStart && end < matchEnd) end = matchEnd
+  }
+  return [start, end]
+}
+
+/**
+ * Set or clear marks on a character range. Marks passed as undefined or
+ * false are removed; the others are added or replaced.
+ */
+export function applyMarks(spans: TextSpan[], start: number, end: number, marks: TextMarks): TextSpan[] {
+  const [from, to] = expandToVariables(spansToText(spans), start, end)
+  let position = 0
+
+  const updated = splitSpans(splitSpans(spans, from), to).map((span) => {
+    const spanStart = position
+    position += span.text.length
+    if (spanStart < from || position > to) return span
+    return { text: span.text, marks: cleanMarks({ ...span.marks, ...marks }) }
+  })
+
+  return normalizeSpans(updated)
+}
+
+/**
+ * Replace a character range with text, which picks up the marks of the
+ * character before it like typing in a word processor
+ */
+export function replaceRange(spans: TextSpan[], start: number, end: number, text: string): TextSpan[] {
+  let position = 0
+  let inserted = false
+  const result: TextSpan[] = []
+
+  for (const span of splitSpans(splitSpans(spans, start), end)) {
+    const spanStart = position
+    position += span.text.length
+    if (spanStart >= start && position <= end && span.text) continue
+    result.push(span)
+    if (!inserted && position === start) {
+      result.push({ text, marks: span.marks })
+      inserted = true
+    }
+  }
+
+  if (!inserted) result.unshift({ text })
+  return normalizeSpans(result)
+}
+
+/**
+ * Marks shared by every character in a range, used for toolbar state
+ */
+export function getCommonMarks(spans: TextSpan[], start: number, end: number): TextMarks {
+  let position = 0
+  let common: TextMarks | undefined
+
+  for (const span of spans) {
+    const spanStart = position
+    position += span.text.length
+    if (position <= start || spanStart >= end) continue
+
+    const marks = span.marks || {}
+    common = common
+      ? Object.fromEntries(
+          MARK_KEYS.filter((key) => common?.[key] && common[key] === marks[key]).map((key) => [key, marks[key]])
+        )
+      : { ...marks }
+  }
+
+  return common || {}
+}
+
+/**
+ * Fill in {{variables}} in span text and link targets
+ */
+export function substituteSpans(spans: TextSpan[], variables: Record<string, string>): TextSpan[] {
+  return spans.map((span) => ({
+    text: substituteVariables(span.text, variables),
+    marks: span.marks?.link
+      ? { ...span.marks, link: substituteVariables(span.marks.link, variables) }
+      : span.marks,
+  }))
+}
+
+/**
+ * Unformatted text with link targets spelled out, e.g. "our blog (https://...)"
+ */
+export function spansToPlainText(spans: TextSpan[]): string {
+  return spans
+    .map((span) =>
+      span.marks?.link && span.marks.link !== span.text.trim()
+        ? `${span.text} (${span.marks.link})`
+        : span.text
+    )
+    .join('')
+}
+
+/**
+ * Normalise a link entered in the editor. Bare domains get https:// and
+ * schemes other than http(s), mailto and tel are rejected.
+ */
+export function sanitizeLink(url: string): string | null {
+  const trimmed = url.trim()
+  if (!trimmed) return null
+  if (/^(https?:|mailto:|tel:|\{\{\w+\}\})/i.test(trimmed)) return trimmed
+  if (/^[a-z][\w+.-]*:/i.test(trimmed)) return null
+  return `https://${trimmed}`
+}
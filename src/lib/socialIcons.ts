@@ -0,0 +1,80 @@
+import type { EmailJSON, EmailNode, SocialLink, SocialNetwork, SocialNode } from '../types/email'
+import { SOCIAL_ICON_BASE_URL } from './config'
+
+export const DEFAULT_SOCIAL_ICON_SIZE = 32
+
+export const SOCIAL_NETWORKS: { id: SocialNetwork; label: string; placeholder: string }[] = [
+  { id: 'x', label: 'X', placeholder: 'https://x.com/yourhandle' },
+  { id: 'linkedin', label: 'LinkedIn', placeholder: 'https://www.linkedin.com/company/yourcompany' },
+  { id: 'instagram', label: 'Instagram', placeholder: 'https://www.instagram.com/yourhandle' },
+  { id: 'facebook', label: 'Facebook', placeholder: 'https://www.facebook.com/yourpage' },
+  { id: 'youtube', label: 'YouTube', placeholder: 'https://www.youtube.com/@yourchannel' },
+  { id: 'tiktok', label: 'TikTok', placeholder: 'https://www.tiktok.com/@yourhandle' },
+  { id: 'github', label: 'GitHub', placeholder: 'https://github.com/yourorg' },
+]
+
+export function getSocialNetworkLabel(network: SocialNetwork): string {
+  return SOCIAL_NETWORKS.find(({ id }) => id === network)?.label || network
+}
+
+/**
+ * URL of a bundled icon under SOCIAL_ICON_BASE_URL. The icons are PNGs rather than SVGs
+ * because Gmail and Outlook strip SVG images.
+ */
+export function getSocialIconUrl(network: SocialNetwork, iconStyle: SocialNode['iconStyle'] = 'color'): string {
+  return `${SOCIAL_ICON_BASE_URL.replace(/\/+$/, '')}/${iconStyle}/${network}.png`
+}
+
+/**
+ * Icon a link is rendered with: its own packaged copy, or the bundled icon
+ */
+export function getSocialLinkIconUrl(link: SocialLink, iconStyle?: SocialNode['iconStyle']): string {
+  return link.iconSrc || getSocialIconUrl(link.network, iconStyle)
+}
+
+/**
+ * Links that have a URL, in display order. Empty ones are skipped when rendering.
+ */
+export function getSocialLinks(node: SocialNode): SocialLink[] {
+  return (node.links || []).filter((link) => link.url.trim())
+}
+
+function hasSocialLinks(node: EmailNode): boolean {
+  if (node.type === 'social' && getSocialLinks(node).length > 0) return true
+  if (node.type === 'repeat' && node.emptyState && hasSocialLinks(node.emptyState)) return true
+  return (node.children || []).some(hasSocialLinks)
+}
+
+// Hosts only the sender's machine or network can reach
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '')
+  return (
+    host === 'localhost' ||
+    host.endsWith('.localhost') ||
+    host.endsWith('.local') ||
+    host === '::1' ||
+    host === '0.0.0.0' ||
+    /^(127|10)\./.test(host) ||
+    /^192\.168\./.test(host) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(host)
+  )
+}
+
+/**
+ * Why recipients could not load the social icons of an exported email, or
+ * null when the email has none or they come from a public http(s) host.
+ */
+export function checkSocialIconHosting(email: EmailJSON, baseUrl = SOCIAL_ICON_BASE_URL): string | null {
+  if (!hasSocialLinks(email.root)) return null
+
+  let url: URL
+  try {
+    url = new URL(baseUrl)
+  } catch {
+    return `Social icons are served from "${baseUrl}", which is not a full URL. Set VITE_SOCIAL_ICON_BASE_URL to where the icons are publicly hosted.`
+  }
+  if (!['http:', 'https:'].includes(url.protocol) || isPrivateHost(url.hostname)) {
+    return `Social icons are served from ${baseUrl}, which recipients cannot reach. Set VITE_SOCIAL_ICON_BASE_URL to where the icons are publicly hosted.`
+  }
+  return null
+}
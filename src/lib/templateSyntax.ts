@@ -0,0 +1,159 @@
+import type { VisibilityCondition } from '../types/email'
+
+// Piece of a rendered template: the {{tags}} the renderers emit, as a tree
+export type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'itemField'; path?: string }
+  | { type: 'condition'; condition: VisibilityCondition; body: TemplateNode[] }
+  | { type: 'limit'; maxItems: number; body: TemplateNode[] }
+  | { type: 'loop'; variable: string; body: TemplateNode[]; empty: TemplateNode[] }
+
+export type TemplateBlock = Extract<TemplateNode, { body: TemplateNode[] }>
+
+export interface TemplateScope {
+  /** Rendering the HTML part, where *Html variables keep their markup */
+  html: boolean
+  /** Blocks around the current position, outermost first */
+  blocks: TemplateBlock['type'][]
+}
+
+/**
+ * Output syntax for each kind of template node. Bodies arrive already
+ * rendered; a dialect that can't express a node throws an Error saying why.
+ */
+export interface TemplateDialect {
+  variable: (name: string, scope: TemplateScope) => string
+  itemField: (path: string | undefined, scope: TemplateScope) => string
+  condition: (condition: VisibilityCondition, body: string, scope: TemplateScope) => string
+  limit: (maxItems: number, body: string, scope: TemplateScope) => string
+  loop: (variable: string, body: string, empty: string, scope: TemplateScope) => string
+}
+
+// Any {{tag}}, allowing braces inside a quoted comparison value
+const TAG_REGEX = /\{\{(?:"(?:[^"\\]|\\.)*"|[^{}"])*\}\}/g
+const EQUALS_TAG_REGEX = /^\{\{#if \(eq (?:@root\.)?(\w+) ("(?:[^"\\]|\\.)*")\)\}\}$/
+const LIMIT_TAG_REGEX = /^\{\{#if \(lt @index (\d+)\)\}\}$/
+const IF_TAG_REGEX = /^\{\{#if (?:@root\.)?(\w+)\}\}$/
+const EACH_TAG_REGEX = /^\{\{#each (?:@root\.)?(\w+)\}\}$/
+const ITEM_FIELD_TAG_REGEX = /^\{\{this(?:\.([\w.]+))?\}\}$/
+const VARIABLE_TAG_REGEX = /^\{\{(?:@root\.)?(\w+)\}\}$/
+
+/**
+ * The empty block a {{#if}} or {{#each}} tag opens, or null for other tags
+ */
+export function parseBlockTag(tag: string): TemplateBlock | null {
+  const equals = tag.match(EQUALS_TAG_REGEX)
+  if (equals) {
+    return {
+      type: 'condition',
+      condition: { variable: equals[1], operator: 'equals', value: JSON.parse(equals[2]) },
+      body: [],
+    }
+  }
+  const limit = tag.match(LIMIT_TAG_REGEX)
+  if (limit) return { type: 'limit', maxItems: Number(limit[1]), body: [] }
+  const truthy = tag.match(IF_TAG_REGEX)
+  if (truthy) return { type: 'condition', condition: { variable: truthy[1], operator: 'truthy' }, body: [] }
+  const loop = tag.match(EACH_TAG_REGEX)
+  if (loop) return { type: 'loop', variable: loop[1], body: [], empty: [] }
+  return null
+}
+
+/**
+ * Parse rendered output into a tree of its variables, conditions and loops.
+ * Tags other than the ones the renderers emit are kept as text.
+ */
+export function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = []
+  const open: { block: TemplateBlock; parent: TemplateNode[] }[] = []
+  let nodes = root
+  let position = 0
+
+  const pushText = (text: string) => {
+    if (text) nodes.push({ type: 'text', text })
+  }
+
+  for (const match of template.matchAll(TAG_REGEX)) {
+    const tag = match[0]
+    pushText(template.slice(position, match.index))
+    position = match.index + tag.length
+
+    const block = parseBlockTag(tag)
+    if (block) {
+      nodes.push(block)
+      open.push({ block, parent: nodes })
+      nodes = block.body
+      continue
+    }
+
+    const current = open.at(-1)
+    if (tag === '{{else}}') {
+      if (current?.block.type !== 'loop') throw new Error('Template has an {{else}} outside a {{#each}} block')
+      nodes = current.block.empty
+    } else if (tag === '{{/if}}' || tag === '{{/each}}') {
+      const expected = current?.block.type === 'loop' ? '{{/each}}' : '{{/if}}'
+      if (!current || tag !== expected) throw new Error(`Template has an unmatched ${tag}`)
+      open.pop()
+      nodes = current.parent
+    } else {
+      const itemField = tag.match(ITEM_FIELD_TAG_REGEX)
+      const variable = tag.match(VARIABLE_TAG_REGEX)
+      if (itemField) nodes.push({ type: 'itemField', path: itemField[1] })
+      else if (variable) nodes.push({ type: 'variable', name: variable[1] })
+      else pushText(tag)
+    }
+  }
+  pushText(template.slice(position))
+
+  if (open.length > 0) {
+    throw new Error(`Template has an unclosed ${open[open.length - 1].block.type === 'loop' ? '{{#each}}' : '{{#if}}'} block`)
+  }
+  return root
+}
+
+/**
+ * Render a parsed template in a dialect
+ */
+export function renderTemplate(nodes: TemplateNode[], dialect: TemplateDialect, html: boolean): string {
+  const render = (nodes: TemplateNode[], blocks: TemplateScope['blocks']): string =>
+    nodes
+      .map((node) => {
+        const scope = { html, blocks }
+        switch (node.type) {
+          case 'text':
+            return node.text
+          case 'variable':
+            return dialect.variable(node.name, scope)
+          case 'itemField':
+            return dialect.itemField(node.path, scope)
+          case 'condition':
+            return dialect.condition(node.condition, render(node.body, [...blocks, node.type]), scope)
+          case 'limit':
+            return dialect.limit(node.maxItems, render(node.body, [...blocks, node.type]), scope)
+          case 'loop':
+            // The empty state shows in place of the loop, so it stays in the outer scope
+            return dialect.loop(node.variable, render(node.body, [...blocks, node.type]), render(node.empty, blocks), scope)
+        }
+      })
+      .join('')
+
+  return render(nodes, [])
+}
+
+/**
+ * Top-level variables a parsed template reads, including the ones its
+ * conditions test and loops go over, in order of first use
+ */
+export function collectTemplateVariables(nodes: TemplateNode[]): string[] {
+  const variables = new Set<string>()
+  const visit = (node: TemplateNode) => {
+    if (node.type === 'variable') variables.add(node.name)
+    if (node.type === 'condition') variables.add(node.condition.variable)
+    if (node.type === 'loop') variables.add(node.variable)
+    if ('body' in node) node.body.forEach(visit)
+    if (node.type === 'loop') node.empty.forEach(visit)
+  }
+  nodes.forEach(visit)
+  return Array.from(variables)
+}
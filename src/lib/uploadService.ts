@@ -0,0 +1,77 @@
+import { api } from './api'
+import type { ApiError, UploadedFile } from '../types'
+
+// Mirrors the validation done by POST /uploads/image
+export const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp']
+export const MAX_UPLOAD_BYTES = 5 * 1024 * 1024
+
+const RETRY_DELAY_MS = 500
+
+/**
+ * Check a file against the upload limits before sending it
+ *
+ * @returns An error message, or null when the file can be uploaded
+ */
+export function validateImageFile(file: File): string | null {
+  if (!ALLOWED_IMAGE_TYPES.includes(file.type)) {
+    return 'Only JPEG, PNG, GIF and WebP images can be uploaded'
+  }
+  if (file.size > MAX_UPLOAD_BYTES) {
+    return `Images must be ${MAX_UPLOAD_BYTES / (1024 * 1024)}MB or smaller`
+  }
+  return null
+}
+
+// Network failures, timeouts, rate limits and server errors are worth retrying;
+// other 4xx responses will fail the same way again
+function isRetryable(error: ApiError): boolean {
+  const status = error.details?.status
+  return typeof status === 'number' && (status === 0 || status === 408 || status === 429 || status >= 500)
+}
+
+/**
+ * Validate and upload an image, retrying transient failures with backoff
+ */
+export async function uploadImage(
+  file: File,
+  options: { onProgress?: (percent: number) => void; signal?: AbortSignal; retries?: number } = {}
+): Promise<UploadedFile> {
+  const { onProgress, signal, retries = 2 } = options
+
+  const validationError = validateImageFile(file)
+  if (validationError) {
+    throw { error: 'ValidationError', message: validationError } satisfies ApiError
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await api.uploadImage(file, { onProgress, signal })
+    } catch (error) {
+      const apiError = error as ApiError
+      if (attempt >= retries || signal?.aborted || !isRetryable(apiError)) {
+        throw apiError
+      }
+
+      // Progress restarting from zero is how the retry shows up
+      onProgress?.(0)
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS * 2 ** attempt))
+    }
+  }
+}
+
+/**
+ * Scale an uploaded image's dimensions down to fit the email width,
+ * keeping the aspect ratio so clients reserve the right amount of space
+ */
+export function fitImageDimensions(
+  uploaded: Pick<UploadedFile, 'width' | 'height'>,
+  maxWidth = 600
+): { width: number; height: number } {
+  if (uploaded.width <= maxWidth) {
+    return { width: uploaded.width, height: uploaded.height }
+  }
+  return {
+    width: maxWidth,
+    height: Math.round((uploaded.height * maxWidth) / uploaded.width),
+  }
+}
@@ -1,4 +1,5 @@
-import type { EmailNode } from '../types/email'
+import type { EmailNode, ListItem } from '../types/email'
+import { extractItemFields } from './arrayVariables'
 
 /**
  * Extract all variables from text (e.g., "Hello {{name}}" -> ["name"])
@@ -10,27 +11,96 @@ export function extractVariables(text: string): string[] {
 }
 
 /**
- * Extract all variables from an email JSON structure
+ * Extract all variables from an email JSON structure. Array variables that
+ * tables and repeaters are bound to, and the item fields they use, are
+ * reported by extractArrayVariablesFromJSON instead.
  */
 export function extractVariablesFromJSON(root: EmailNode): string[] {
   const variables = new Set<string>()
 
-  function traverse(node: EmailNode) {
+  // Inside a repeater {{item}} refers to the current element, not a variable
+  function traverse(node: EmailNode, inRepeat = false) {
     if (!node) return
 
+    const addAll = (names: string[]) =>
+      names.filter(v => !(inRepeat && v === 'item')).forEach(v => variables.add(v))
+
     // Check text fields
     if ('text' in node && node.text) {
-      extractVariables(node.text).forEach(v => variables.add(v))
+      addAll(extractVariables(node.text))
+    }
+
+    // Check link targets in formatted text
+    if ('spans' in node && node.spans) {
+      node.spans.forEach(span => {
+        if (span.marks?.link) {
+          addAll(extractVariables(span.marks.link))
+        }
+      })
+    }
+
+    // Check list items, including nested ones
+    if ('items' in node && node.items) {
+      const visitItems = (items: ListItem[]) => items.forEach(item => {
+        addAll(extractVariables(item.text))
+        if (item.items) visitItems(item.items)
+      })
+      visitItems(node.items)
+    }
+
+    // Check table headers and cells; {{item}} refers to the current row
+    if (node.type === 'table') {
+      node.columns?.forEach(column => {
+        extractVariables(`${column.header} ${column.cell}`)
+          .filter(v => v !== 'item')
+          .forEach(v => variables.add(v))
+      })
+    }
+
+    // Check the variable a visibility condition tests
+    if (node.condition?.variable) {
+      variables.add(node.condition.variable)
     }
 
     // Check label fields (buttons)
     if ('label' in node && node.label) {
-      extractVariables(node.label).forEach(v => variables.add(v))
+      addAll(extractVariables(node.label))
+    }
+
+    // Check the compliance footer's small print and links
+    if (node.type === 'footer') {
+      addAll(extractVariables(`${node.legalText ?? ''} ${node.postalAddress ?? ''} ${node.preferencesUrl ?? ''}`))
+      if (node.unsubscribeVariable) variables.add(node.unsubscribeVariable)
+    }
+
+    // Check button links
+    if (node.type === 'button' && node.href) {
+      addAll(extractVariables(node.href))
+    }
+
+    // Check image sources and alt text
+    if (node.type === 'image') {
+      addAll(extractVariables(`${node.src ?? ''} ${node.alt ?? ''}`))
+    }
+
+    // Check the video link and thumbnail
+    if (node.type === 'video') {
+      addAll(extractVariables(`${node.videoUrl ?? ''} ${node.thumbnailSrc ?? ''} ${node.alt ?? ''}`))
+    }
+
+    // Check social link URLs
+    if (node.type === 'social') {
+      node.links?.forEach((link) => addAll(extractVariables(link.url)))
+    }
+
+    // Check a repeater's empty state, which is shown outside the loop
+    if (node.type === 'repeat' && node.emptyState) {
+      traverse(node.emptyState, inRepeat)
     }
 
     // Traverse children
     if (node.children && Array.isArray(node.children)) {
-      node.children.forEach(traverse)
+      node.children.forEach(child => traverse(child, inRepeat || node.type === 'repeat'))
     }
   }
 
@@ -38,6 +108,42 @@ export function extractVariablesFromJSON(root: EmailNode): string[] {
   return Array.from(variables)
 }
 
+/**
+ * Extract the array variables that tables and repeaters are bound to, each
+ * with the item fields its content uses (e.g. { items: ["name", "price"] })
+ */
+export function extractArrayVariablesFromJSON(root: EmailNode): Record<string, string[]> {
+  const arrays: Record<string, Set<string>> = {}
+
+  function traverse(node: EmailNode) {
+    if (!node) return
+
+    if (node.type === 'table' && node.dataVariable) {
+      const fields = (arrays[node.dataVariable] ??= new Set())
+      node.columns?.forEach(column => {
+        extractItemFields(column.cell).forEach(field => fields.add(field))
+      })
+    }
+
+    // {{item.*}} can appear in any text, link or image field of the repeated blocks
+    if (node.type === 'repeat' && node.dataVariable) {
+      const fields = (arrays[node.dataVariable] ??= new Set())
+      extractItemFields(JSON.stringify(node.children || [])).forEach(field => fields.add(field))
+    }
+
+    if (node.type === 'repeat' && node.emptyState) {
+      traverse(node.emptyState)
+    }
+
+    if (node.children && Array.isArray(node.children)) {
+      node.children.forEach(traverse)
+    }
+  }
+
+  traverse(root)
+  return Object.fromEntries(Object.entries(arrays).map(([name, fields]) => [name, Array.from(fields)]))
+}
+
 /**
  * Replace variables in text with actual values
  */
@@ -19,9 +19,18 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { useEmail, useUpdateEmail } from '../hooks/useEmails'
+import { useProject, useUpdateProject } from '../hooks/useProjects'
+import { usePreviewDevice } from '../hooks/usePreviewDevice'
+import { DARK_MODE_PREVIEWS } from '../lib/darkMode'
+import type { DarkModePreview } from '../lib/darkMode'
 import FloatingToolbar from '../components/block-editor/FloatingToolbar'
 import EmailPreview from '../components/email/EmailPreview'
+import PlainTextPreview from '../components/email/PlainTextPreview'
+import DeviceFrame from '../components/email/DeviceFrame'
+import DeviceToolbar from '../components/email/DeviceToolbar'
 import VariablePanel from '../components/email/VariablePanel'
+import CompatibilityPanel from '../components/email/CompatibilityPanel'
+import SizeBudgetMeter from '../components/email/SizeBudgetMeter'
 import EmailActions from '../components/email/EmailActions'
 import {
   HeadingBlock,
@@ -31,14 +40,26 @@ import {
   DividerBlock,
   SpacerBlock,
   SectionBlock,
+  RowBlock,
+  ListBlock,
+  TableBlock,
+  RepeatBlock,
+  FooterBlock,
+  SocialBlock,
+  VideoBlock,
 } from '../components/block-editor/blocks'
-import type { EmailNode } from '../types/email'
+import type { BlockComponentProps } from '../components/block-editor/types'
+import type { EmailMeta, EmailNode, EmailNodeType } from '../types/email'
 import { generateId } from '../lib/utils'
+import { EditorContext } from '../contexts/EditorContext'
 import { useGenerationStore } from '../store/generationStore'
 import GenerationProgress from '../components/generation/GenerationProgress'
 import { generationManager } from '../lib/generationManager'
 
-const blockComponents = {
+const NO_DISABLED_RULES: string[] = []
+
+// Columns are edited through their row, so they have no top-level component
+const blockComponents: Partial<Record<EmailNodeType, React.ComponentType<BlockComponentProps>>> = {
   heading: HeadingBlock,
   text: TextBlock,
   button: ButtonBlock,
@@ -46,6 +67,13 @@ const blockComponents = {
   divider: DividerBlock,
   spacer: SpacerBlock,
   section: SectionBlock,
+  row: RowBlock,
+  list: ListBlock,
+  table: TableBlock,
+  repeat: RepeatBlock,
+  footer: FooterBlock,
+  social: SocialBlock,
+  video: VideoBlock,
 }
 
 interface SortableBlockProps {
@@ -80,7 +108,7 @@ function SortableBlock({
   if (!BlockComponent) return null
 
   return (
-    <div ref={setNodeRef} style={style} {...attributes} {...listeners}>
+    <div id={`block-${block.id}`} ref={setNodeRef} style={style} {...attributes} {...listeners}>
       <BlockComponent
         block={block}
         isEditing={isEditing}
@@ -97,9 +125,14 @@ export default function EmailDetail() {
   const navigate = useNavigate()
   const { data, isLoading } = useEmail(id!)
   const updateEmail = useUpdateEmail()
+  const { data: project } = useProject(data?.projectId ?? '')
+  const updateProject = useUpdateProject()
   const [editingBlockId, setEditingBlockId] = useState<string | null>(null)
   const [testVariables, setTestVariables] = useState<Record<string, string>>({})
   const [showPreview, setShowPreview] = useState(true)
+  const [previewMode, setPreviewMode] = useState<'html' | 'text'>('html')
+  const previewDevice = usePreviewDevice(id)
+  const [darkModePreview, setDarkModePreview] = useState<DarkModePreview>('off')
 
   // Subscribe to generation state
   const generationState = useGenerationStore((state) =>
@@ -169,7 +202,8 @@ export default function EmailDetail() {
   }
 
   const email = data
-  const blocks = email.jsonStructure.root.children || []
+  const root = email.jsonStructure.root
+  const blocks = root.children || []
 
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event
@@ -196,7 +230,10 @@ export default function EmailDetail() {
   }
 
   const handleAddBlock = (newBlock: Omit<EmailNode, 'id'>) => {
-    const blockWithId = { ...newBlock, id: generateId() } as EmailNode
+    // Nested nodes in toolbar templates (e.g. a row's columns) need unique ids too
+    const withIds = (node: Omit<EmailNode, 'id'>): EmailNode =>
+      ({ ...node, id: generateId(), children: node.children?.map(withIds) }) as EmailNode
+    const blockWithId = withIds(newBlock)
     const updatedBlocks = [...blocks, blockWithId]
     updateEmail.mutate({
       id: email.id,
@@ -230,6 +267,46 @@ export default function EmailDetail() {
     })
   }
 
+  const handleCategoryChange = (category: NonNullable<EmailMeta['category']>) => {
+    updateEmail.mutate({
+      id: email.id,
+      data: {
+        jsonStructure: {
+          ...email.jsonStructure,
+          meta: { ...email.jsonStructure.meta, category },
+        },
+      },
+    })
+  }
+
+  // Open the top-level block that contains a node, since nested nodes are edited through it
+  const handleSelectNode = (nodeId: string) => {
+    const contains = (node: EmailNode): boolean =>
+      node.id === nodeId ||
+      (node.type === 'repeat' && !!node.emptyState && contains(node.emptyState)) ||
+      !!node.children?.some(contains)
+    const block = blocks.find(contains)
+    if (!block) return
+
+    setEditingBlockId(block.id)
+    document.getElementById(`block-${block.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }
+
+  const disabledLintRules = project?.disabledLintRules ?? NO_DISABLED_RULES
+
+  const handleToggleLintRule = (ruleId: string, enabled: boolean) => {
+    if (!project) return
+
+    updateProject.mutate({
+      id: project.id,
+      data: {
+        disabledLintRules: enabled
+          ? disabledLintRules.filter((id) => id !== ruleId)
+          : [...disabledLintRules, ruleId],
+      },
+    })
+  }
+
   const handleDeleteBlock = (blockId: string) => {
     const updatedBlocks = blocks.filter((block) => block.id !== blockId)
     updateEmail.mutate({
@@ -266,6 +343,15 @@ export default function EmailDetail() {
                 {email.jsonStructure.meta.previewText}
               </p>
             </div>
+            <select
+              value={email.jsonStructure.meta.category ?? 'marketing'}
+              onChange={(e) => handleCategoryChange(e.target.value as NonNullable<EmailMeta['category']>)}
+              title="Marketing emails need a compliance footer"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="marketing">Marketing</option>
+              <option value="transactional">Transactional</option>
+            </select>
           </div>
           <EmailActions email={email} testVariables={testVariables} />
         </div>
@@ -276,39 +362,41 @@ export default function EmailDetail() {
         {/* Left: Block Editor */}
         <div className="flex-1 overflow-y-auto px-6 py-8">
           <div className="max-w-3xl mx-auto">
-            <DndContext
-              sensors={sensors}
-              collisionDetection={closestCenter}
-              onDragEnd={handleDragEnd}
-            >
-              <SortableContext
-                items={blocks.map((b) => b.id)}
-                strategy={verticalListSortingStrategy}
+            <EditorContext.Provider value={{ projectId: email.projectId, variables: testVariables }}>
+              <DndContext
+                sensors={sensors}
+                collisionDetection={closestCenter}
+                onDragEnd={handleDragEnd}
               >
-                <div className="space-y-4">
-                  {blocks.length === 0 ? (
-                    <div className="text-center py-12 text-gray-500">
-                      <p>No blocks yet. Use the toolbar below to add content.</p>
-                    </div>
-                  ) : (
-                    blocks.map((block) => (
-                      <SortableBlock
-                        key={block.id}
-                        block={block}
-                        isEditing={editingBlockId === block.id}
-                        onUpdate={(updates) => handleUpdateBlock(block.id, updates)}
-                        onDelete={() => handleDeleteBlock(block.id)}
-                        onEditToggle={() =>
-                          setEditingBlockId(
-                            editingBlockId === block.id ? null : block.id
-                          )
-                        }
-                      />
-                    ))
-                  )}
-                </div>
-              </SortableContext>
-            </DndContext>
+                <SortableContext
+                  items={blocks.map((b) => b.id)}
+                  strategy={verticalListSortingStrategy}
+                >
+                  <div className="space-y-4">
+                    {blocks.length === 0 ? (
+                      <div className="text-center py-12 text-gray-500">
+                        <p>No blocks yet. Use the toolbar below to add content.</p>
+                      </div>
+                    ) : (
+                      blocks.map((block) => (
+                        <SortableBlock
+                          key={block.id}
+                          block={block}
+                          isEditing={editingBlockId === block.id}
+                          onUpdate={(updates) => handleUpdateBlock(block.id, updates)}
+                          onDelete={() => handleDeleteBlock(block.id)}
+                          onEditToggle={() =>
+                            setEditingBlockId(
+                              editingBlockId === block.id ? null : block.id
+                            )
+                          }
+                        />
+                      ))
+                    )}
+                  </div>
+                </SortableContext>
+              </DndContext>
+            </EditorContext.Provider>
           </div>
         </div>
 
@@ -318,12 +406,18 @@ export default function EmailDetail() {
             <div className="max-w-2xl mx-auto space-y-4">
               <div className="flex items-center justify-between mb-4">
                 <h2 className="text-lg font-semibold text-gray-900">Preview</h2>
-                <button
-                  onClick={() => setShowPreview(false)}
-                  className="text-sm text-gray-600 hover:text-gray-900"
-                >
-                  Hide Preview
-                </button>
+                <div className="flex items-center gap-3">
+                  <SizeBudgetMeter
+                    email={email.jsonStructure}
+                    onSelectBlock={handleSelectNode}
+                  />
+                  <button
+                    onClick={() => setShowPreview(false)}
+                    className="text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    Hide Preview
+                  </button>
+                </div>
               </div>
 
               <VariablePanel
@@ -331,10 +425,70 @@ export default function EmailDetail() {
                 onVariablesChange={setTestVariables}
               />
 
-              <EmailPreview
-                blocks={blocks}
-                variables={testVariables}
+              <CompatibilityPanel
+                email={email.jsonStructure}
+                disabledRules={disabledLintRules}
+                onToggleRule={project ? handleToggleLintRule : undefined}
+                onSelectBlock={handleSelectNode}
               />
+
+              <div className="flex items-center gap-1 border-b border-gray-200">
+                {(['html', 'text'] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    onClick={() => setPreviewMode(mode)}
+                    className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                      previewMode === mode
+                        ? 'border-blue-600 text-blue-600'
+                        : 'border-transparent text-gray-600 hover:text-gray-900'
+                    }`}
+                  >
+                    {mode === 'html' ? 'HTML' : 'Plain text'}
+                  </button>
+                ))}
+                <div className="ml-auto pb-1 flex items-center gap-2">
+                  {previewMode === 'html' && (
+                    <select
+                      value={darkModePreview}
+                      onChange={(e) => setDarkModePreview(e.target.value as DarkModePreview)}
+                      title="Colour scheme"
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {DARK_MODE_PREVIEWS.map((option) => (
+                        <option key={option.id} value={option.id}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <DeviceToolbar
+                    deviceId={previewDevice.deviceId}
+                    rotated={previewDevice.rotated}
+                    onDeviceChange={previewDevice.setDevice}
+                    onRotate={previewDevice.toggleRotated}
+                  />
+                </div>
+              </div>
+
+              <DeviceFrame
+                deviceId={previewDevice.deviceId}
+                rotated={previewDevice.rotated}
+              >
+                {previewMode === 'html' ? (
+                  <EmailPreview
+                    blocks={blocks}
+                    variables={testVariables}
+                    darkMode={darkModePreview}
+                    backgroundColor={root.type === 'section' ? root.backgroundColor : undefined}
+                    darkBackgroundColor={root.type === 'section' ? root.darkBackgroundColor : undefined}
+                  />
+                ) : (
+                  <PlainTextPreview
+                    blocks={blocks}
+                    variables={testVariables}
+                  />
+                )}
+              </DeviceFrame>
             </div>
           </div>
         )}
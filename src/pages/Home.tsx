@@ -1,9 +1,11 @@
 import { useState } from 'react'
 import { useNavigate } from 'react-router'
 import { v4 as uuidv4 } from 'uuid'
+import { FileUp } from 'lucide-react'
 import SamplePrompts from '../components/generation/SamplePrompts'
 import GenerationInput from '../components/generation/GenerationInput'
 import AuthModal from '../components/auth/AuthModal'
+import ImportModal from '../components/import/ImportModal'
 import { useProjects } from '../hooks/useProjects'
 import { useAuth } from '../hooks/useAuth'
 import { useGenerationStore } from '../store/generationStore'
@@ -16,6 +18,7 @@ export default function Home() {
   const [selectedProjectId, setSelectedProjectId] = useState<string>('')
   const [error, setError] = useState<string | null>(null)
   const [isAuthModalOpen, setIsAuthModalOpen] = useState(false)
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false)
 
   const { data: projectsData } = useProjects()
   const projects = projectsData?.projects || []
@@ -64,6 +67,15 @@ export default function Home() {
     }
   }
 
+  const handleImport = () => {
+    if (!user) {
+      setIsAuthModalOpen(true)
+      return
+    }
+
+    setIsImportModalOpen(true)
+  }
+
   const handleRetry = () => {
     setError(null)
   }
@@ -121,6 +133,15 @@ export default function Home() {
               defaultPrompt={selectedPrompt}
               onAuthRequired={() => setIsAuthModalOpen(true)}
             />
+            <div className="flex justify-end">
+              <button
+                onClick={handleImport}
+                className="flex items-center gap-2 px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <FileUp size={16} />
+                Import
+              </button>
+            </div>
           </>
         )}
 
@@ -143,6 +164,13 @@ export default function Home() {
         isOpen={isAuthModalOpen}
         onClose={() => setIsAuthModalOpen(false)}
       />
+
+      {isImportModalOpen && (
+        <ImportModal
+          projectId={selectedProjectId || undefined}
+          onClose={() => setIsImportModalOpen(false)}
+        />
+      )}
     </div>
   )
 }
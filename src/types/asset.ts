@@ -0,0 +1,15 @@
+export interface Asset {
+  id: string
+  projectId: string
+  url: string
+  fileName: string
+  alt?: string
+  tags: string[]
+  width: number
+  height: number
+  size: number
+  mimeType: string
+  createdAt: string
+}
+
+export type CreateAssetRequest = Omit<Asset, 'id' | 'projectId' | 'createdAt'>
@@ -13,6 +13,8 @@ export interface Email {
 export interface EmailMeta {
   subject: string
   previewText: string
+  /** Marketing emails (the default) must carry a compliance footer */
+  category?: 'marketing' | 'transactional'
 }
 
 export interface EmailJSON {
@@ -29,17 +31,50 @@ export type EmailNodeType =
   | 'image'
   | 'divider'
   | 'spacer'
+  | 'row'
+  | 'column'
+  | 'list'
+  | 'table'
+  | 'repeat'
+  | 'footer'
+  | 'social'
+  | 'video'
+
+// Inline formatting applied to a run of text
+export interface TextMarks {
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  link?: string
+  color?: string
+}
+
+// Run of text sharing the same marks
+export interface TextSpan {
+  text: string
+  marks?: TextMarks
+}
+
+// Show a block only when a variable meets a test, e.g. {{hasDiscount}} is true
+export interface VisibilityCondition {
+  variable: string
+  operator: 'truthy' | 'equals' | 'notEmpty'
+  /** Value to compare against for "equals" */
+  value?: string
+}
 
 // Base interface with common properties
 interface BaseEmailNode {
   id: string
   children?: EmailNode[]
+  condition?: VisibilityCondition
 }
 
 // Section node
 export interface SectionNode extends BaseEmailNode {
   type: 'section'
   backgroundColor?: string
+  darkBackgroundColor?: string
   padding?: string
   borderRadius?: string
 }
@@ -49,12 +84,18 @@ export interface HeadingNode extends BaseEmailNode {
   type: 'heading'
   level?: 1 | 2 | 3
   text?: string
+  /** Formatted version of text; text always holds the same content unformatted */
+  spans?: TextSpan[]
+  darkColor?: string
 }
 
 // Text node
 export interface TextNode extends BaseEmailNode {
   type: 'text'
   text?: string
+  /** Formatted version of text; text always holds the same content unformatted */
+  spans?: TextSpan[]
+  darkColor?: string
 }
 
 // Button node
@@ -63,6 +104,8 @@ export interface ButtonNode extends BaseEmailNode {
   label?: string
   href?: string
   target?: '_blank' | '_self'
+  darkColor?: string
+  darkBackgroundColor?: string
 }
 
 // Image node
@@ -74,6 +117,17 @@ export interface ImageNode extends BaseEmailNode {
   height?: number
 }
 
+// Video node: email clients can't play video, so a thumbnail links to it
+export interface VideoNode extends BaseEmailNode {
+  type: 'video'
+  videoUrl?: string
+  /** Hosted thumbnail with the play button already drawn on it */
+  thumbnailSrc?: string
+  alt?: string
+  width?: number
+  height?: number
+}
+
 // Divider node
 export interface DividerNode extends BaseEmailNode {
   type: 'divider'
@@ -88,6 +142,102 @@ export interface SpacerNode extends BaseEmailNode {
   height?: number
 }
 
+// Row node: lays its column children out side by side
+export interface RowNode extends BaseEmailNode {
+  type: 'row'
+  /** Space between columns in px */
+  gap?: number
+  verticalAlign?: 'top' | 'middle' | 'bottom'
+  /** Stack columns vertically on narrow screens (defaults to true) */
+  stackOnMobile?: boolean
+}
+
+// Column node, only meaningful as a child of a row
+export interface ColumnNode extends BaseEmailNode {
+  type: 'column'
+  /** Share of the row width in percent */
+  width?: number
+}
+
+// Item in a list node, optionally with a nested sub-list
+export interface ListItem {
+  text: string
+  items?: ListItem[]
+}
+
+// List node
+export interface ListNode extends BaseEmailNode {
+  type: 'list'
+  listStyle?: 'unordered' | 'ordered'
+  items?: ListItem[]
+  bulletColor?: string
+}
+
+// Column of a table node
+export interface TableColumn {
+  header: string
+  /** Cell template, e.g. "{{item.name}}", filled in once per array element */
+  cell: string
+  align?: 'left' | 'center' | 'right'
+  /** Share of the table width in percent */
+  width?: number
+}
+
+// Table node: one row per element of an array variable
+export interface TableNode extends BaseEmailNode {
+  type: 'table'
+  /** Name of the array variable the rows are bound to, e.g. "items" */
+  dataVariable?: string
+  columns?: TableColumn[]
+  headerBackgroundColor?: string
+  borderColor?: string
+}
+
+// Repeat node: renders its children once per element of an array variable
+export interface RepeatNode extends BaseEmailNode {
+  type: 'repeat'
+  /** Name of the array variable, e.g. "products"; children use {{item.field}} */
+  dataVariable?: string
+  /** Render at most this many elements */
+  maxItems?: number
+  /** Shown instead of the children when the array is empty */
+  emptyState?: EmailNode
+}
+
+// Footer node: the unsubscribe link, postal address and legal text that
+// CAN-SPAM and GDPR require in marketing emails
+export interface FooterNode extends BaseEmailNode {
+  type: 'footer'
+  /** Sender's physical postal address */
+  postalAddress?: string
+  /** Variable the sending service fills with the recipient's unsubscribe URL, e.g. "unsubscribeUrl" */
+  unsubscribeVariable?: string
+  /** Link to the subscription preferences page */
+  preferencesUrl?: string
+  /** Why the recipient gets this email, copyright and similar */
+  legalText?: string
+}
+
+export type SocialNetwork = 'x' | 'linkedin' | 'instagram' | 'facebook' | 'youtube' | 'tiktok' | 'github'
+
+export interface SocialLink {
+  network: SocialNetwork
+  url: string
+  /** Icon shown instead of the bundled one, e.g. the packaged copy in a ZIP or .eml export */
+  iconSrc?: string
+}
+
+// Social node: a row of linked network icons
+export interface SocialNode extends BaseEmailNode {
+  type: 'social'
+  /** In display order */
+  links?: SocialLink[]
+  iconStyle?: 'color' | 'mono' | 'outline'
+  /** Icon width and height in pixels */
+  iconSize?: number
+  align?: 'left' | 'center' | 'right'
+}
+
 // Union type of all node types
 export type EmailNode =
   | SectionNode
@@ -97,3 +247,11 @@ export type EmailNode =
   | ImageNode
   | DividerNode
   | SpacerNode
+  | RowNode
+  | ColumnNode
+  | ListNode
+  | TableNode
+  | RepeatNode
+  | FooterNode
+  | SocialNode
+  | VideoNode
@@ -1,3 +1,4 @@
 export * from './email'
 export * from './project'
 export * from './api'
+export * from './asset'
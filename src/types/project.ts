@@ -4,6 +4,8 @@ export interface Project {
   brandContext: BrandContext
   emails?: string[]
   emailCount: number
+  /** Compatibility lint rules turned off for this project's emails */
+  disabledLintRules?: string[]
   createdAt: string
   updatedAt: string
 }